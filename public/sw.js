@@ -9,7 +9,8 @@
  * - Images: Stored in IndexedDB, not handled by service worker
  */
 
-const CACHE_NAME = 'image-gallery-v1';
+// Bump the version to replace the cached app shell in installed apps
+const CACHE_NAME = 'image-gallery-v2';
 const BASE_PATH = '/simple-cosplay-plan-profile/';
 
 // Files to cache for offline use
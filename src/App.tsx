@@ -1,5 +1,16 @@
+import BackupPanel from './components/BackupPanel';
+import DatabaseStatusBanner from './components/DatabaseStatusBanner';
+import EventCalendar from './components/EventCalendar';
+import GlobalSearch from './components/GlobalSearch';
 import GroupList from './components/GroupList';
 import ImageGallery from './components/ImageGallery';
+import MaterialsPanel from './components/MaterialsPanel';
+import MeasurementsPanel from './components/MeasurementsPanel';
+import PalettePanel from './components/PalettePanel';
+import StoragePanel from './components/StoragePanel';
+import TaskChecklist from './components/TaskChecklist';
+import TrashView from './components/TrashView';
+import UndoRedoControls from './components/UndoRedoControls';
 import { ImageGalleryProvider } from './contexts/ImageGalleryContext';
 
 /**
@@ -18,8 +29,17 @@ import { ImageGalleryProvider } from './contexts/ImageGalleryContext';
  * Features:
  * - Create and delete image groups
  * - Select groups to view their images
+ * - Tag groups and images, and search the whole gallery from the header
+ * - Dominant color palettes extracted from images, combined per group
  * - Add images via multiple methods (file select, drag/drop, paste, URL)
- * - Rename and delete groups and images
+ * - Rename and delete groups and images (deletes go to a restorable trash)
+ * - Build task checklist with completion progress per group
+ * - Materials / shopping list with budget tracking and CSV export per group
+ * - Convention / event agenda with countdowns and iCalendar export
+ * - Body measurement profiles with dated revisions (cm / in), linked to plans
+ * - Undo/redo of gallery actions
+ * - Storage usage monitoring and persistent-storage request
+ * - Export and import a full backup archive
  * - All data persisted in IndexedDB for offline access
  *
  * @returns The rendered application
@@ -30,14 +50,21 @@ const App: React.FC = () => {
       <div className="min-h-screen bg-dark-bg flex flex-col">
         {/* Header - Material Design App Bar */}
         <header className="bg-dark-surface border-b border-dark-border shadow-lg">
-          <div className="container-centered py-4">
-            <h1 className="text-headline-large">Image Gallery</h1>
-            <p className="text-body-medium mt-1">
-              Offline-first PWA • TypeScript • IndexedDB • React Context
-            </p>
+          <div className="container-centered py-4 flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-headline-large">Image Gallery</h1>
+              <p className="text-body-medium mt-1">
+                Offline-first PWA • TypeScript • IndexedDB • React Context
+              </p>
+            </div>
+            <GlobalSearch />
+            <UndoRedoControls />
           </div>
         </header>
 
+        {/* Database error banner (e.g. failed schema migration) */}
+        <DatabaseStatusBanner />
+
         {/* Main Content - Centered with max width */}
         <main className="flex-1 overflow-y-auto">
           <div className="container-centered section-spacing">
@@ -46,6 +73,30 @@ const App: React.FC = () => {
 
             {/* Image Gallery Section */}
             <ImageGallery />
+
+            {/* Color Palette Section (selected group) */}
+            <PalettePanel />
+
+            {/* Build Tasks Section (selected group) */}
+            <TaskChecklist />
+
+            {/* Materials & Budget Section (selected group) */}
+            <MaterialsPanel />
+
+            {/* Events Section */}
+            <EventCalendar />
+
+            {/* Measurement Profiles Section */}
+            <MeasurementsPanel />
+
+            {/* Trash Section */}
+            <TrashView />
+
+            {/* Storage Usage Section */}
+            <StoragePanel />
+
+            {/* Backup & Restore Section */}
+            <BackupPanel />
           </div>
         </main>
       </div>
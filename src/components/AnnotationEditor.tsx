@@ -0,0 +1,436 @@
+import { useEffect, useRef, useState } from 'react';
+import type {
+  AnnotationKind,
+  AnnotationPoint,
+  AnnotationShape,
+  AnnotationsInput,
+  ImageAnnotations,
+  StoredImage
+} from '../services/db';
+import {
+  annotationFontSize,
+  annotationStrokeWidth,
+  createShapeId,
+  flattenAnnotations,
+  shapePath,
+  ANNOTATION_COLORS,
+  ANNOTATION_FONT_FAMILY,
+  ANNOTATION_TEXT_OUTLINE,
+  ANNOTATION_TOOLS
+} from '../services/annotations';
+import { downloadBlob } from '../services/backup';
+import { useImageUrl } from '../hooks/useImageUrl';
+
+/**
+ * Tool selected in the editor: a shape to draw, or removing shapes
+ */
+type EditorTool = AnnotationKind | 'erase';
+
+/**
+ * Props for AnnotationEditor component
+ */
+interface AnnotationEditorProps {
+  /** The image being annotated */
+  image: StoredImage;
+  /** The image's saved annotations, or undefined if it has none */
+  annotations: ImageAnnotations | undefined;
+  /** Saves the edited annotations */
+  onSave: (input: AnnotationsInput) => Promise<void>;
+  /** Callback to close the editor */
+  onClose: () => void;
+}
+
+/**
+ * AnnotationEditor Component
+ *
+ * Full-size view of an image for marking it up with arrows, circles,
+ * freehand strokes and text callouts. The image itself is never
+ * changed; shapes are saved as vector data in original image pixels.
+ *
+ * Features:
+ * - Drag to draw arrows (tail to head), circles and freehand strokes
+ * - Type a callout, then click where it should go
+ * - Eraser (click a shape to remove it), undo of the last shape, clear all
+ * - Color choice per shape
+ * - Download a copy of the image with the annotations drawn in
+ * - ESC to close (asks before discarding changes); clicks outside are
+ *   ignored so a stroke ending off the image does not close the editor
+ *
+ * @param props - Component props
+ * @returns The rendered annotation editor
+ */
+const AnnotationEditor: React.FC<AnnotationEditorProps> = ({ image, annotations, onSave, onClose }) => {
+  const imageUrl = useImageUrl(image);
+  /** Shapes drawn so far, in drawing order */
+  const [shapes, setShapes] = useState<AnnotationShape[]>(annotations?.shapes ?? []);
+  /** Size of the original image, known once it has loaded */
+  const [size, setSize] = useState<{ width: number; height: number } | null>(
+    annotations ? { width: annotations.width, height: annotations.height } : null
+  );
+  const [tool, setTool] = useState<EditorTool>('arrow');
+  const [color, setColor] = useState<string>(ANNOTATION_COLORS[0]);
+  /** Text placed by the next click with the text tool */
+  const [calloutText, setCalloutText] = useState<string>('');
+  /** Shape being drawn, or null */
+  const [draft, setDraft] = useState<AnnotationShape | null>(null);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const hasChanges = JSON.stringify(shapes) !== JSON.stringify(annotations?.shapes ?? []);
+
+  /**
+   * Closes the editor, confirming first if there are unsaved changes
+   */
+  const handleClose = (): void => {
+    if (!hasChanges || window.confirm('Discard your unsaved annotations?')) {
+      onClose();
+    }
+  };
+
+  /**
+   * Handle ESC key to close the editor
+   *
+   * Re-registered on every render so the unsaved-changes check sees the current shapes.
+   */
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        handleClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  });
+
+  /**
+   * Prevent body scroll while open, restoring the previous state
+   */
+  useEffect(() => {
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = previousOverflow;
+    };
+  }, []);
+
+  const strokeWidth = size ? annotationStrokeWidth(size) : 0;
+  const fontSize = size ? annotationFontSize(size) : 0;
+
+  /**
+   * Converts a pointer position to original image pixels
+   */
+  const toImagePoint = (e: React.PointerEvent): AnnotationPoint | null => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || !size || rect.width <= 0 || rect.height <= 0) return null;
+    return {
+      x: Math.max(0, Math.min(size.width, ((e.clientX - rect.left) / rect.width) * size.width)),
+      y: Math.max(0, Math.min(size.height, ((e.clientY - rect.top) / rect.height) * size.height))
+    };
+  };
+
+  /**
+   * Starts a shape, places a callout or erases the shape under the pointer
+   */
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>): void => {
+    const start = toImagePoint(e);
+    if (!start) return;
+    e.preventDefault();
+
+    if (tool === 'erase') {
+      const shapeId = (e.target as Element).closest('[data-shape-id]')?.getAttribute('data-shape-id');
+      if (shapeId) {
+        setShapes((prev) => prev.filter((shape) => shape.id !== shapeId));
+      }
+      return;
+    }
+
+    if (tool === 'text') {
+      const text = calloutText.trim();
+      if (!text) {
+        alert('Type the callout text first, then click where it should go');
+        return;
+      }
+      setShapes((prev) => [...prev, { id: createShapeId(), kind: 'text', color, points: [start], text }]);
+      setCalloutText('');
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft({
+      id: createShapeId(),
+      kind: tool,
+      color,
+      points: tool === 'freehand' ? [start] : [start, start],
+      text: ''
+    });
+  };
+
+  /**
+   * Extends the shape being drawn
+   */
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>): void => {
+    if (!draft) return;
+    const next = toImagePoint(e);
+    if (!next) return;
+
+    if (draft.kind === 'freehand') {
+      const last = draft.points[draft.points.length - 1];
+      // Skip points closer than half a stroke to keep the path small
+      if (Math.hypot(next.x - last.x, next.y - last.y) < strokeWidth / 2) return;
+      setDraft({ ...draft, points: [...draft.points, next] });
+    } else {
+      setDraft({ ...draft, points: [draft.points[0], next] });
+    }
+  };
+
+  /**
+   * Finishes the shape being drawn, dropping accidental clicks
+   */
+  const handlePointerUp = (): void => {
+    if (!draft) return;
+    const [start, end] = draft.points;
+    const isTooSmall = draft.kind === 'freehand'
+      ? draft.points.length < 2
+      : Math.hypot(end.x - start.x, end.y - start.y) < strokeWidth * 2;
+    if (!isTooSmall) {
+      setShapes((prev) => [...prev, draft]);
+    }
+    setDraft(null);
+  };
+
+  /**
+   * Saves the annotations and closes the editor
+   */
+  const handleSave = async (): Promise<void> => {
+    if (!size) return;
+    setIsSaving(true);
+    try {
+      await onSave({ imageId: image.id, groupId: image.groupId, ...size, shapes });
+      onClose();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert('Failed to save annotations: ' + errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Downloads the image with the current annotations drawn in
+   */
+  const handleDownload = async (): Promise<void> => {
+    if (!size) return;
+    setIsExporting(true);
+    try {
+      const flattened = await flattenAnnotations(image.blob, {
+        imageId: image.id,
+        groupId: image.groupId,
+        ...size,
+        shapes,
+        updatedAt: new Date().toISOString()
+      });
+      const baseName = image.name.replace(/\.[^.]+$/, '') || 'image';
+      downloadBlob(flattened, `${baseName}-annotated.${flattened.type === 'image/jpeg' ? 'jpg' : 'png'}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert('Failed to export image: ' + errorMessage);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  /**
+   * Renders one shape as SVG, with a wider invisible stroke for the eraser to hit
+   */
+  const renderShape = (shape: AnnotationShape): React.ReactNode => {
+    if (shape.kind === 'text') {
+      const anchor = shape.points[0];
+      return (
+        <text
+          key={shape.id}
+          data-shape-id={shape.id}
+          x={anchor.x}
+          y={anchor.y}
+          fill={shape.color}
+          stroke={ANNOTATION_TEXT_OUTLINE}
+          strokeWidth={fontSize / 6}
+          strokeLinejoin="round"
+          paintOrder="stroke"
+          fontFamily={ANNOTATION_FONT_FAMILY}
+          fontSize={fontSize}
+          fontWeight="bold"
+          dominantBaseline="hanging"
+        >
+          {shape.text}
+        </text>
+      );
+    }
+
+    const d = shapePath(shape, strokeWidth);
+    if (!d) return null;
+    return (
+      <g key={shape.id} data-shape-id={shape.id}>
+        <path d={d} fill="none" stroke="transparent" strokeWidth={strokeWidth * 4} />
+        <path
+          d={d}
+          fill="none"
+          stroke={shape.color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      </g>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4">
+      {/* Modal Content */}
+      <div className="bg-dark-surface rounded-lg shadow-2xl max-w-7xl w-full max-h-[95vh] overflow-y-auto">
+        {/* Modal Header */}
+        <div className="sticky top-0 bg-dark-surface border-b border-dark-border px-6 py-4 flex items-center justify-between gap-4 z-10">
+          <div className="min-w-0">
+            <h2 className="text-headline-small truncate">Annotate {image.name}</h2>
+            <p className="text-body-medium mt-1">
+              Annotations are drawn over the image; the image itself is not changed
+            </p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="btn-text p-2 hover:bg-white/10 rounded-lg"
+            aria-label="Close annotation editor"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        <div className="px-6 pt-4 flex flex-wrap items-center gap-3">
+          <div className="flex flex-wrap gap-2" role="group" aria-label="Tool">
+            {[...ANNOTATION_TOOLS, { value: 'erase' as const, label: 'Eraser' }].map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setTool(option.value)}
+                aria-pressed={tool === option.value}
+                className={`px-4 py-1.5 rounded-full text-sm transition-colors ${
+                  tool === option.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-dark-hover text-gray-300 hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-1.5" role="group" aria-label="Color">
+            {ANNOTATION_COLORS.map((option) => (
+              <button
+                key={option}
+                onClick={() => setColor(option)}
+                aria-pressed={color === option}
+                aria-label={`Color ${option}`}
+                className={`w-7 h-7 rounded-full border-2 ${
+                  color === option ? 'border-blue-400 ring-2 ring-blue-400/50' : 'border-dark-border'
+                }`}
+                style={{ backgroundColor: option }}
+              />
+            ))}
+          </div>
+
+          {tool === 'text' && (
+            <input
+              type="text"
+              value={calloutText}
+              onChange={(e) => setCalloutText(e.target.value)}
+              placeholder="Type a callout, then click the image"
+              className="input-base flex-1 min-w-[14rem] py-1.5"
+              autoFocus
+            />
+          )}
+
+          <div className="flex gap-2 ml-auto">
+            <button
+              onClick={() => setShapes((prev) => prev.slice(0, -1))}
+              disabled={shapes.length === 0}
+              className="btn-text"
+            >
+              Undo shape
+            </button>
+            <button
+              onClick={() => setShapes([])}
+              disabled={shapes.length === 0}
+              className="btn-text"
+            >
+              Clear all
+            </button>
+          </div>
+        </div>
+
+        {/* Stage - the SVG covers the image exactly, in original image pixels */}
+        <div className="p-6 flex justify-center">
+          <div className="relative inline-block select-none">
+            <img
+              src={imageUrl}
+              alt={image.name}
+              className="block max-w-full max-h-[65vh]"
+              onLoad={(e) => setSize({
+                width: e.currentTarget.naturalWidth,
+                height: e.currentTarget.naturalHeight
+              })}
+              draggable={false}
+            />
+            {size && (
+              <svg
+                ref={svgRef}
+                className="absolute inset-0 w-full h-full touch-none"
+                viewBox={`0 0 ${size.width} ${size.height}`}
+                preserveAspectRatio="none"
+                style={{ cursor: tool === 'erase' ? 'pointer' : tool === 'text' ? 'text' : 'crosshair' }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => setDraft(null)}
+              >
+                {shapes.map(renderShape)}
+                {draft && renderShape(draft)}
+              </svg>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="sticky bottom-0 bg-dark-surface border-t border-dark-border px-6 py-4 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-body-medium">
+            {shapes.length} {shapes.length === 1 ? 'annotation' : 'annotations'}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleDownload}
+              disabled={!size || shapes.length === 0 || isExporting}
+              className="btn-outlined"
+            >
+              {isExporting ? 'Exporting...' : 'Download with annotations'}
+            </button>
+            <button onClick={handleClose} className="btn-text">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!size || !hasChanges || isSaving}
+              className="btn-filled"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationEditor;
@@ -0,0 +1,46 @@
+import { useMemo } from 'react';
+import type { ImageAnnotations } from '../services/db';
+import { annotationsToDataUrl } from '../services/annotations';
+
+/**
+ * Props for AnnotationOverlay component
+ */
+interface AnnotationOverlayProps {
+  /** Annotations of the image underneath, or undefined to show nothing */
+  annotations: ImageAnnotations | undefined;
+  /** Classes of the image underneath (sizing, object-fit, transforms) */
+  className?: string;
+  /** Styles of the image underneath (sizing, object position, transforms) */
+  style?: React.CSSProperties;
+}
+
+/**
+ * AnnotationOverlay Component
+ *
+ * Draws an image's annotations on top of it. The annotations are
+ * rendered as an SVG the size of the original image and shown as an
+ * `<img>` with the same classes and styles as the photo, so cropping,
+ * object position, zoom and pan apply to both alike. Render it right
+ * after the photo inside the same positioned container.
+ *
+ * @param props - Component props
+ * @returns The rendered overlay, or null without annotations
+ */
+const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({ annotations, className = '', style }) => {
+  const url = useMemo(() => (annotations ? annotationsToDataUrl(annotations) : ''), [annotations]);
+
+  if (!url) return null;
+
+  return (
+    <img
+      src={url}
+      alt=""
+      aria-hidden="true"
+      className={`absolute top-0 left-0 pointer-events-none ${className}`}
+      style={style}
+      draggable={false}
+    />
+  );
+};
+
+export default AnnotationOverlay;
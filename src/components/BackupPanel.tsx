@@ -0,0 +1,167 @@
+import { useRef, useState } from 'react';
+import type { RestoreMode } from '../services/db';
+import { backupFileName, createBackup, downloadBlob, type ImportReport } from '../services/backup';
+import { useImageGallery } from '../contexts/ImageGalleryContext';
+
+/**
+ * BackupPanel Component
+ *
+ * Lets the user export the whole gallery to a single zip archive and
+ * restore such an archive later, either merged into the current data
+ * or replacing it. Since all images live only in this browser's
+ * IndexedDB, this is the only way to move or safeguard them.
+ *
+ * Features:
+ * - "Export everything" download of all groups and images
+ * - Import with a choice between merge and replace
+ * - Confirmation before replacing existing data
+ * - Report of what was imported (and what was skipped)
+ *
+ * @returns The rendered backup section
+ */
+const BackupPanel: React.FC = () => {
+  const { restoreBackup } = useImageGallery();
+
+  /** Whether an export is being prepared */
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  /** Whether an import is running */
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  /** How the next import is applied */
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  /** Report from the last successful import */
+  const [report, setReport] = useState<ImportReport | null>(null);
+  /** Reference to the hidden file input element */
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * Builds and downloads the backup archive
+   */
+  const handleExport = async (): Promise<void> => {
+    setIsExporting(true);
+    try {
+      const archive = await createBackup();
+      downloadBlob(archive, backupFileName());
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert('Failed to export backup: ' + errorMessage);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  /**
+   * Restores the selected archive
+   */
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (
+      mode === 'replace' &&
+      !window.confirm('Replace ALL current groups and images with the contents of this backup?')
+    ) {
+      return;
+    }
+
+    setIsImporting(true);
+    setReport(null);
+    try {
+      setReport(await restoreBackup(file, mode));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert('Failed to import backup: ' + errorMessage);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <section className="mt-8">
+      <div className="mb-6">
+        <h2 className="text-display-small">Backup &amp; Restore</h2>
+        <p className="text-body-medium mt-1">
+          Your images are stored only in this browser. Export a backup to keep them safe.
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {/* Export */}
+        <div className="card-standard space-y-3">
+          <h3 className="text-title-large">Export</h3>
+          <p className="text-body-medium">
+            Download every group and image as a single zip archive.
+          </p>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="btn-filled w-full"
+          >
+            {isExporting ? 'Preparing backup...' : 'Export everything'}
+          </button>
+        </div>
+
+        {/* Import */}
+        <div className="card-standard space-y-3">
+          <h3 className="text-title-large">Import</h3>
+          <div className="flex gap-6">
+            <label className="flex items-center gap-2 text-body-medium cursor-pointer">
+              <input
+                type="radio"
+                name="restore-mode"
+                checked={mode === 'merge'}
+                onChange={() => setMode('merge')}
+              />
+              Merge with current data
+            </label>
+            <label className="flex items-center gap-2 text-body-medium cursor-pointer">
+              <input
+                type="radio"
+                name="restore-mode"
+                checked={mode === 'replace'}
+                onChange={() => setMode('replace')}
+              />
+              Replace current data
+            </label>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className={mode === 'replace' ? 'btn-danger w-full' : 'btn-outlined w-full'}
+          >
+            {isImporting ? 'Importing...' : 'Import backup'}
+          </button>
+        </div>
+      </div>
+
+      {/* Import Report */}
+      {report && (
+        <div className="card-compact bg-dark-hover mt-6" role="status">
+          <p className="text-title-medium">
+            Imported {report.groupsImported} {report.groupsImported === 1 ? 'group' : 'groups'} and{' '}
+            {report.imagesImported} {report.imagesImported === 1 ? 'image' : 'images'}
+            {report.mode === 'replace' ? ' (replaced existing data)' : ' (merged)'}
+          </p>
+          <p className="text-body-medium mt-1">
+            Backup created {new Date(report.exportedAt).toLocaleString()}
+          </p>
+          {report.skippedImages.length > 0 && (
+            <p className="text-body-medium text-yellow-400 mt-1">
+              Skipped {report.skippedImages.length} missing{' '}
+              {report.skippedImages.length === 1 ? 'image' : 'images'}: {report.skippedImages.join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default BackupPanel;
@@ -0,0 +1,581 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ImageAnnotations, StoredImage } from '../services/db';
+import { imageRoleLabel } from '../services/plans';
+import { useImageUrl } from '../hooks/useImageUrl';
+import AnnotationOverlay from './AnnotationOverlay';
+
+/**
+ * How the two images are shown
+ *
+ * - 'side-by-side': next to each other
+ * - 'split': on top of each other, with a draggable divider revealing one or the other
+ * - 'onion': the second image over the first with adjustable opacity
+ */
+type CompareMode = 'side-by-side' | 'split' | 'onion';
+
+/**
+ * Pan and zoom shared by both images
+ */
+interface CompareView {
+  /** Zoom factor (1 = whole image fits) */
+  scale: number;
+  /** Horizontal offset in percent of the pane width */
+  x: number;
+  /** Vertical offset in percent of the pane height */
+  y: number;
+}
+
+/**
+ * Compare modes with their display labels
+ */
+const COMPARE_MODES: { value: CompareMode; label: string }[] = [
+  { value: 'side-by-side', label: 'Side by side' },
+  { value: 'split', label: 'Split slider' },
+  { value: 'onion', label: 'Onion skin' }
+];
+
+/**
+ * Unzoomed, centered view
+ */
+const DEFAULT_VIEW: CompareView = { scale: 1, x: 0, y: 0 };
+
+/**
+ * Zoom limits and wheel step
+ */
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 5;
+const SCALE_STEP = 0.1;
+
+/**
+ * Approximate display size (longest edge, CSS pixels) used to pick thumbnails
+ */
+const COMPARE_IMAGE_DISPLAY_SIZE = 1280;
+
+/**
+ * Picks the images compared by default
+ *
+ * The first reference image is compared with the last progress image
+ * (the most recent work, in manual order). Without those roles the
+ * first two images are used.
+ *
+ * @param images - Images of the group, in manual order
+ * @returns IDs of the base and the compared image, or null with fewer than two images
+ */
+const pickDefaultPair = (images: StoredImage[]): [number, number] | null => {
+  if (images.length < 2) return null;
+
+  const base = images.find((image) => image.role === 'reference') ?? images[0];
+  const others = images.filter((image) => image.id !== base.id);
+  const progress = others.filter((image) => image.role === 'progress');
+  const compared = progress[progress.length - 1] ?? others[0];
+
+  return [base.id, compared.id];
+};
+
+/**
+ * Props for CompareModal component
+ */
+interface CompareModalProps {
+  /** Whether the modal is open */
+  isOpen: boolean;
+  /** Callback to close the modal */
+  onClose: () => void;
+  /** Images of the group that can be compared */
+  images: StoredImage[];
+  /** IDs of the base and compared image to start with (picked by role if omitted) */
+  initialImageIds?: [number, number];
+  /** Annotations drawn over the images (none if omitted) */
+  annotations?: ImageAnnotations[];
+}
+
+/**
+ * CompareModal Component
+ *
+ * Compares two images of a group, typically the official reference
+ * art against a work-in-progress photo.
+ *
+ * Features:
+ * - Side by side, split slider or onion-skin overlay with adjustable opacity
+ * - Pan (drag) and zoom (mouse wheel) synchronized across both images
+ * - Double-click to reset pan and zoom
+ * - Choose either image from the group, or swap them
+ * - Click outside or ESC to close
+ *
+ * @param props - Component props
+ * @returns The rendered compare modal
+ */
+const CompareModal: React.FC<CompareModalProps> = ({
+  isOpen,
+  onClose,
+  images,
+  initialImageIds,
+  annotations = [],
+}) => {
+  /** How the images are shown */
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  /** IDs of the base image and the image compared with it */
+  const [imageIds, setImageIds] = useState<[number, number] | null>(
+    () => initialImageIds ?? pickDefaultPair(images)
+  );
+  /** Whether the modal was open on the last render, to notice it being reopened */
+  const [wasOpen, setWasOpen] = useState<boolean>(isOpen);
+  /** Shared pan and zoom */
+  const [view, setView] = useState<CompareView>(DEFAULT_VIEW);
+  /** Position of the split divider in percent from the left */
+  const [split, setSplit] = useState<number>(50);
+  /** Opacity of the compared image in onion-skin mode, in percent */
+  const [opacity, setOpacity] = useState<number>(50);
+  /** What the mouse is currently dragging */
+  const [dragTarget, setDragTarget] = useState<'pan' | 'divider' | null>(null);
+  /** Last pointer position and the dragged pane's size while dragging */
+  const dragRef = useRef<{ x: number; y: number; width: number; height: number } | null>(null);
+  /** Stage of the split mode, used to position the divider */
+  const stageRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Pick a new pair when the modal is opened again; image updates while
+   * it is open keep the current choice
+   */
+  if (isOpen !== wasOpen) {
+    setWasOpen(isOpen);
+    if (isOpen) {
+      setImageIds(initialImageIds ?? pickDefaultPair(images));
+      setView(DEFAULT_VIEW);
+    }
+  }
+
+  /**
+   * Handle ESC key to close modal
+   */
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  /**
+   * Prevent body scroll while open, restoring the previous state
+   * (the modal may be opened from another modal)
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = previousOverflow;
+    };
+  }, [isOpen]);
+
+  /**
+   * Follow the mouse while panning or dragging the divider
+   */
+  useEffect(() => {
+    if (!dragTarget) return;
+
+    const handleMouseMove = (e: MouseEvent): void => {
+      if (dragTarget === 'divider') {
+        const rect = stageRef.current?.getBoundingClientRect();
+        if (!rect || rect.width <= 0) return;
+        setSplit(Math.max(0, Math.min(100, ((e.clientX - rect.left) / rect.width) * 100)));
+        return;
+      }
+
+      const start = dragRef.current;
+      // Guard against zero or invalid dimensions
+      if (!start || start.width <= 0 || start.height <= 0) return;
+
+      // Convert the pixel delta to a percentage of the pane
+      const deltaX = ((e.clientX - start.x) / start.width) * 100;
+      const deltaY = ((e.clientY - start.y) / start.height) * 100;
+      dragRef.current = { ...start, x: e.clientX, y: e.clientY };
+
+      setView((prev) => {
+        // Allow panning up to the zoomed image's edges
+        const limit = 50 * prev.scale;
+        return {
+          ...prev,
+          x: Math.max(-limit, Math.min(limit, prev.x + deltaX)),
+          y: Math.max(-limit, Math.min(limit, prev.y + deltaY))
+        };
+      });
+    };
+
+    const handleMouseUp = (): void => {
+      setDragTarget(null);
+      dragRef.current = null;
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [dragTarget]);
+
+  if (!isOpen) return null;
+
+  const baseImage = images.find((image) => image.id === imageIds?.[0]);
+  const comparedImage = images.find((image) => image.id === imageIds?.[1]);
+
+  /**
+   * Finds the annotations drawn over an image
+   */
+  const annotationsOf = (image: StoredImage): ImageAnnotations | undefined => {
+    return annotations.find((record) => record.imageId === image.id);
+  };
+
+  /**
+   * Starts panning both images
+   */
+  const handlePanStart = (e: React.MouseEvent<HTMLDivElement>): void => {
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    dragRef.current = { x: e.clientX, y: e.clientY, width: rect.width, height: rect.height };
+    setDragTarget('pan');
+  };
+
+  /**
+   * Zooms both images
+   */
+  const handleWheel = (e: React.WheelEvent): void => {
+    e.stopPropagation();
+
+    // Guard against NaN or invalid deltaY
+    if (typeof e.deltaY !== 'number' || isNaN(e.deltaY)) {
+      return;
+    }
+
+    const delta = e.deltaY > 0 ? -SCALE_STEP : SCALE_STEP;
+    setView((prev) => ({
+      ...prev,
+      scale: Math.max(MIN_SCALE, Math.min(MAX_SCALE, Math.round((prev.scale + delta) * 10) / 10))
+    }));
+  };
+
+  /**
+   * Props shared by every pane that can be panned and zoomed
+   */
+  const stageProps = {
+    onMouseDown: handlePanStart,
+    onWheel: handleWheel,
+    onDoubleClick: () => setView(DEFAULT_VIEW),
+    className: 'relative h-[65vh] overflow-hidden rounded-lg bg-black/40 select-none',
+    style: { cursor: dragTarget === 'pan' ? 'grabbing' : 'grab' }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      {/* Modal Content */}
+      <div
+        className="bg-dark-surface rounded-lg shadow-2xl max-w-7xl w-full max-h-[95vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Modal Header */}
+        <div className="sticky top-0 bg-dark-surface border-b border-dark-border px-6 py-4 flex flex-wrap items-center justify-between gap-4 z-10">
+          <div>
+            <h2 className="text-headline-small">Compare</h2>
+            <p className="text-body-medium mt-1">
+              Drag to pan, scroll to zoom ({Math.round(view.scale * 100)}%), double-click to reset
+            </p>
+          </div>
+
+          <div className="flex flex-wrap gap-2" role="tablist" aria-label="Compare mode">
+            {COMPARE_MODES.map((option) => {
+              const isActive = mode === option.value;
+              return (
+                <button
+                  key={option.value}
+                  role="tab"
+                  aria-selected={isActive}
+                  onClick={() => setMode(option.value)}
+                  className={`px-4 py-1.5 rounded-full text-sm transition-colors ${
+                    isActive
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-dark-hover text-gray-300 hover:text-white'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              );
+            })}
+          </div>
+
+          <button
+            onClick={onClose}
+            className="btn-text p-2 hover:bg-white/10 rounded-lg"
+            aria-label="Close compare view"
+          >
+            <svg
+              className="w-6 h-6"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Modal Body */}
+        <div className="p-6 space-y-4">
+          {!imageIds || !baseImage || !comparedImage ? (
+            <div className="text-center py-12">
+              <h3 className="text-headline-small mb-2">Not enough images to compare</h3>
+              <p className="text-body-medium">
+                Add at least two images to this group to compare them
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Image Pickers */}
+              <div className="flex flex-wrap items-end gap-3">
+                <ImagePicker
+                  label="Base image"
+                  images={images}
+                  value={imageIds[0]}
+                  onChange={(imageId) => setImageIds([imageId, imageIds[1]])}
+                />
+                <button
+                  onClick={() => setImageIds([imageIds[1], imageIds[0]])}
+                  className="btn-outlined"
+                  aria-label="Swap images"
+                  title="Swap images"
+                >
+                  ⇄
+                </button>
+                <ImagePicker
+                  label="Compared with"
+                  images={images}
+                  value={imageIds[1]}
+                  onChange={(imageId) => setImageIds([imageIds[0], imageId])}
+                />
+                {mode === 'onion' && (
+                  <label className="block flex-1 min-w-[12rem]">
+                    <span className="text-label-large block mb-1">
+                      Opacity of "{comparedImage.name}": {opacity}%
+                    </span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      value={opacity}
+                      onChange={(e) => setOpacity(Number(e.target.value))}
+                      className="w-full"
+                    />
+                  </label>
+                )}
+              </div>
+
+              {/* Stage */}
+              {mode === 'side-by-side' ? (
+                <div className="grid gap-2 grid-cols-2">
+                  <div {...stageProps}>
+                    <CompareLayer
+                      image={baseImage}
+                      annotations={annotationsOf(baseImage)}
+                      view={view}
+                      isPanning={dragTarget === 'pan'}
+                    />
+                    <ImageCaption image={baseImage} position="left" />
+                  </div>
+                  <div {...stageProps}>
+                    <CompareLayer
+                      image={comparedImage}
+                      annotations={annotationsOf(comparedImage)}
+                      view={view}
+                      isPanning={dragTarget === 'pan'}
+                    />
+                    <ImageCaption image={comparedImage} position="left" />
+                  </div>
+                </div>
+              ) : (
+                <div ref={stageRef} {...stageProps}>
+                  <CompareLayer
+                    image={baseImage}
+                    annotations={annotationsOf(baseImage)}
+                    view={view}
+                    isPanning={dragTarget === 'pan'}
+                  />
+                  <CompareLayer
+                    image={comparedImage}
+                    annotations={annotationsOf(comparedImage)}
+                    view={view}
+                    isPanning={dragTarget === 'pan'}
+                    style={mode === 'split'
+                      // The compared image fills the part right of the divider
+                      ? { clipPath: `inset(0 0 0 ${split}%)` }
+                      : { opacity: opacity / 100 }}
+                  />
+                  <ImageCaption image={baseImage} position="left" />
+                  <ImageCaption image={comparedImage} position="right" />
+
+                  {/* Split Divider */}
+                  {mode === 'split' && (
+                    <div
+                      className="absolute top-0 bottom-0 w-1 -ml-0.5 bg-white/90 shadow-lg cursor-ew-resize"
+                      style={{ left: `${split}%` }}
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        setDragTarget('divider');
+                      }}
+                      onDoubleClick={(e) => {
+                        e.stopPropagation();
+                        setSplit(50);
+                      }}
+                      role="separator"
+                      aria-orientation="vertical"
+                      aria-valuenow={Math.round(split)}
+                      aria-label="Split position"
+                    >
+                      <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white text-black flex items-center justify-center text-sm shadow-lg">
+                        ↔
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Props for ImagePicker component
+ */
+interface ImagePickerProps {
+  /** Label shown above the select */
+  label: string;
+  /** Images to choose from */
+  images: StoredImage[];
+  /** ID of the chosen image */
+  value: number;
+  /** Callback with the newly chosen image ID */
+  onChange: (imageId: number) => void;
+}
+
+/**
+ * ImagePicker Component
+ *
+ * Select of the group's images, labelled with their roles.
+ *
+ * @param props - Component props
+ * @returns The rendered select
+ */
+const ImagePicker: React.FC<ImagePickerProps> = ({ label, images, value, onChange }) => {
+  return (
+    <label className="block flex-1 min-w-[12rem]">
+      <span className="text-label-large block mb-1">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="input-base"
+      >
+        {images.map((image) => (
+          <option key={image.id} value={image.id}>
+            {image.name} ({imageRoleLabel(image.role)})
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+/**
+ * Props for CompareLayer component
+ */
+interface CompareLayerProps {
+  /** Image to display */
+  image: StoredImage;
+  /** Annotations drawn over the image, if any */
+  annotations: ImageAnnotations | undefined;
+  /** Shared pan and zoom */
+  view: CompareView;
+  /** Whether the view is being dragged (disables the zoom transition) */
+  isPanning: boolean;
+  /** Extra styles, e.g. the split clip or onion-skin opacity */
+  style?: React.CSSProperties;
+}
+
+/**
+ * CompareLayer Component
+ *
+ * One image filling its pane, fitted without cropping and moved by the
+ * shared view. Both images of a comparison get the same transform, so
+ * they stay aligned while panning and zooming. Annotations get the same
+ * transform as their image.
+ *
+ * @param props - Component props
+ * @returns The rendered image layer
+ */
+const CompareLayer: React.FC<CompareLayerProps> = ({ image, annotations, view, isPanning, style }) => {
+  // Step up to a larger thumbnail only at whole zoom levels to avoid reloading on every wheel tick
+  const imageUrl = useImageUrl(image, COMPARE_IMAGE_DISPLAY_SIZE * Math.ceil(view.scale));
+  const className = 'absolute inset-0 w-full h-full object-contain pointer-events-none';
+  const layerStyle: React.CSSProperties = {
+    transform: `translate(${view.x}%, ${view.y}%) scale(${view.scale})`,
+    transition: isPanning ? 'none' : 'transform 0.1s ease-out',
+    ...style,
+  };
+
+  return (
+    <>
+      <img
+        src={imageUrl}
+        alt={image.name}
+        className={className}
+        style={layerStyle}
+        draggable={false}
+      />
+      <AnnotationOverlay annotations={annotations} className={className} style={layerStyle} />
+    </>
+  );
+};
+
+/**
+ * Props for ImageCaption component
+ */
+interface ImageCaptionProps {
+  /** The captioned image */
+  image: StoredImage;
+  /** Corner the caption is placed in */
+  position: 'left' | 'right';
+}
+
+/**
+ * ImageCaption Component
+ *
+ * Name and role of an image, pinned to a top corner of the stage.
+ *
+ * @param props - Component props
+ * @returns The rendered caption
+ */
+const ImageCaption: React.FC<ImageCaptionProps> = ({ image, position }) => {
+  return (
+    <div
+      className={`absolute top-2 ${position === 'left' ? 'left-2' : 'right-2'} max-w-[45%] px-2 py-1 rounded bg-black/70 text-xs text-white truncate pointer-events-none`}
+      title={image.name}
+    >
+      {imageRoleLabel(image.role)} • {image.name}
+    </div>
+  );
+};
+
+export default CompareModal;
@@ -0,0 +1,89 @@
+import { useImageGallery } from '../contexts/ImageGalleryContext';
+
+/**
+ * DatabaseStatusBanner Component
+ *
+ * Shows a prominent banner when the database cannot be used:
+ * - The database could not be opened, for example because a schema
+ *   migration failed. The database is left at its previous version in
+ *   that case, so reloading is safe and nothing is lost.
+ * - Another tab upgraded the database, so this tab must reload.
+ * - This tab's upgrade is waiting for other tabs to close.
+ *
+ * Renders nothing while the database is healthy.
+ *
+ * @returns The rendered banner, or null
+ */
+const DatabaseStatusBanner: React.FC = () => {
+  const { databaseError, connectionStatus } = useImageGallery();
+
+  if (connectionStatus === 'superseded') {
+    return (
+      <div className="bg-blue-900/40 border-b border-blue-700" role="alert">
+        <div className="container-centered py-3 flex items-center gap-4">
+          <div className="flex-1">
+            <p className="text-title-medium">A newer version of the gallery is open in another tab</p>
+            <p className="text-body-medium">
+              Reload this page to keep working with your images.
+            </p>
+          </div>
+          <button
+            onClick={() => window.location.reload()}
+            className="btn-filled"
+          >
+            Reload
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (connectionStatus === 'blocked') {
+    return (
+      <div className="bg-yellow-900/40 border-b border-yellow-700" role="status">
+        <div className="container-centered py-3">
+          <p className="text-title-medium">Waiting for other tabs to close</p>
+          <p className="text-body-medium">
+            The gallery needs to upgrade its database. Close or reload other tabs of this app to continue.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!databaseError) return null;
+
+  return (
+    <div className="bg-red-900/40 border-b border-red-700" role="alert">
+      <div className="container-centered py-3 flex items-center gap-4">
+        <svg
+          className="w-6 h-6 text-red-400 flex-shrink-0"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+          />
+        </svg>
+        <div className="flex-1">
+          <p className="text-title-medium">Your gallery could not be opened</p>
+          <p className="text-body-medium">
+            {databaseError}. Your existing data has not been changed.
+          </p>
+        </div>
+        <button
+          onClick={() => window.location.reload()}
+          className="btn-outlined"
+        >
+          Reload
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DatabaseStatusBanner;
@@ -0,0 +1,440 @@
+import { useState } from 'react';
+import type { BuildTask, ConventionEvent, EventInput, ImageGroup } from '../services/db';
+import { useEvents } from '../contexts/ImageGalleryContext';
+import { downloadBlob } from '../services/backup';
+import { buildAgenda, eventCountdown, eventsToIcs, getEventTiming, type EventTiming } from '../services/events';
+import { formatCalendarDate, getTaskProgress } from '../services/plans';
+import PlanStatusBadge from './PlanStatusBadge';
+
+/**
+ * Editable fields of an event, excluding its assigned groups
+ */
+type EventFieldValues = Omit<EventInput, 'groupIds'>;
+
+/**
+ * Values of a new, empty event
+ */
+const EMPTY_EVENT: EventFieldValues = {
+  name: '',
+  location: '',
+  startDate: '',
+  endDate: ''
+};
+
+/**
+ * Countdown pill colors per event timing
+ */
+const TIMING_CLASSES: Record<EventTiming, string> = {
+  'upcoming': 'bg-blue-600/30 text-blue-300',
+  'ongoing': 'bg-green-600/30 text-green-300',
+  'past': 'bg-gray-600/30 text-gray-300'
+};
+
+/**
+ * Validates and trims event fields
+ *
+ * A missing end date makes it a one-day event.
+ *
+ * @param values - The entered fields
+ * @returns The cleaned fields, or an error message
+ */
+const cleanEventFields = (values: EventFieldValues): EventFieldValues | string => {
+  const name = values.name.trim();
+  if (!name) return 'Please enter an event name';
+  if (!values.startDate) return 'Please choose a start date';
+
+  const endDate = values.endDate || values.startDate;
+  if (endDate < values.startDate) return 'The end date cannot be before the start date';
+
+  return { name, location: values.location.trim(), startDate: values.startDate, endDate };
+};
+
+/**
+ * EventCalendar Component
+ *
+ * Agenda of conventions and other events with the costume plans
+ * (groups) assigned to each one.
+ *
+ * Features:
+ * - Add, edit and delete events (name, location, start/end date)
+ * - Countdown to each event
+ * - Assign plans to events, with their status and task progress
+ * - Past events hidden behind a toggle
+ * - Export the agenda as an iCalendar (.ics) file
+ *
+ * @returns The rendered events section
+ */
+const EventCalendar: React.FC = () => {
+  const {
+    groups,
+    tasks,
+    events,
+    selectGroup,
+    createNewEvent,
+    updateExistingEvent,
+    deleteExistingEvent,
+  } = useEvents();
+
+  /** Values of the add-event form */
+  const [newEvent, setNewEvent] = useState<EventFieldValues>(EMPTY_EVENT);
+  /** Whether finished events are listed */
+  const [showPast, setShowPast] = useState<boolean>(false);
+
+  const agenda = buildAgenda(events);
+
+  /**
+   * Runs an event action and reports failures
+   */
+  const runAction = async (action: () => Promise<void>, failureMessage: string): Promise<void> => {
+    try {
+      await action();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(failureMessage + ': ' + errorMessage);
+    }
+  };
+
+  /**
+   * Adds the event from the form and resets it
+   */
+  const handleAddEvent = async (): Promise<void> => {
+    const fields = cleanEventFields(newEvent);
+    if (typeof fields === 'string') {
+      alert(fields);
+      return;
+    }
+
+    await runAction(async () => {
+      await createNewEvent({ ...fields, groupIds: [] });
+      setNewEvent(EMPTY_EVENT);
+    }, 'Failed to add event');
+  };
+
+  /**
+   * Downloads all events as an iCalendar file
+   */
+  const handleExportIcs = (): void => {
+    downloadBlob(eventsToIcs(events, groups), 'cosplay-events.ics');
+  };
+
+  /**
+   * Renders the card of one event
+   */
+  const renderEvent = (event: ConventionEvent) => (
+    <EventCard
+      key={event.id}
+      event={event}
+      groups={groups}
+      tasks={tasks}
+      onSelectGroup={selectGroup}
+      onUpdate={(changes) => runAction(() => updateExistingEvent(event.id, changes), 'Failed to update event')}
+      onDelete={() => {
+        if (window.confirm(`Delete the event "${event.name}"? Assigned plans are kept.`)) {
+          runAction(() => deleteExistingEvent(event.id), 'Failed to delete event');
+        }
+      }}
+    />
+  );
+
+  return (
+    <section className="mt-8">
+      {/* Section Header */}
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-display-small">Events</h2>
+          <p className="text-body-medium mt-1">
+            {agenda.upcoming.length} upcoming {agenda.upcoming.length === 1 ? 'event' : 'events'}
+          </p>
+        </div>
+        <button
+          onClick={handleExportIcs}
+          disabled={events.length === 0}
+          className="btn-outlined"
+        >
+          Export .ics
+        </button>
+      </div>
+
+      {/* Add Event Form */}
+      <div className="card-standard mb-6">
+        <h3 className="text-title-large mb-4">Add Event</h3>
+        <EventFields
+          values={newEvent}
+          onChange={(changes) => setNewEvent((prev) => ({ ...prev, ...changes }))}
+          onSubmit={handleAddEvent}
+        />
+        <button onClick={handleAddEvent} className="btn-filled w-full mt-3">
+          + Add Event
+        </button>
+      </div>
+
+      {/* Agenda */}
+      {agenda.upcoming.length === 0 ? (
+        <div className="card-standard text-center">
+          <p className="text-body-medium">
+            No upcoming events. Add a convention to start counting down.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {agenda.upcoming.map(renderEvent)}
+        </div>
+      )}
+
+      {/* Past Events */}
+      {agenda.past.length > 0 && (
+        <div className="mt-6">
+          <button onClick={() => setShowPast((prev) => !prev)} className="btn-text">
+            {showPast ? 'Hide' : 'Show'} past events ({agenda.past.length})
+          </button>
+          {showPast && (
+            <div className="space-y-3 mt-3 opacity-75">
+              {agenda.past.map(renderEvent)}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+/**
+ * Props for the EventFields component
+ */
+interface EventFieldsProps {
+  /** Current field values */
+  values: EventFieldValues;
+  /** Callback with the changed fields */
+  onChange: (changes: Partial<EventFieldValues>) => void;
+  /** Callback when Enter is pressed in a text field */
+  onSubmit: () => void;
+}
+
+/**
+ * EventFields Component
+ *
+ * Input fields of an event, shared by the add form and card editing.
+ *
+ * @param props - Component props
+ * @returns The rendered fields
+ */
+const EventFields: React.FC<EventFieldsProps> = ({ values, onChange, onSubmit }) => {
+  const submitOnEnter = (e: React.KeyboardEvent): void => {
+    if (e.key === 'Enter') onSubmit();
+  };
+
+  return (
+    <div className="grid gap-3 grid-cols-2 md:grid-cols-6">
+      <input
+        type="text"
+        value={values.name}
+        onChange={(e) => onChange({ name: e.target.value })}
+        onKeyDown={submitOnEnter}
+        placeholder="Event (e.g. Anime Expo)"
+        className="input-base col-span-2"
+        aria-label="Event name"
+      />
+      <input
+        type="text"
+        value={values.location}
+        onChange={(e) => onChange({ location: e.target.value })}
+        onKeyDown={submitOnEnter}
+        placeholder="Location"
+        className="input-base col-span-2"
+        aria-label="Location"
+      />
+      <input
+        type="date"
+        value={values.startDate}
+        onChange={(e) => onChange({ startDate: e.target.value })}
+        className="input-base"
+        aria-label="Start date"
+        title="Start date"
+      />
+      <input
+        type="date"
+        value={values.endDate}
+        min={values.startDate || undefined}
+        onChange={(e) => onChange({ endDate: e.target.value })}
+        className="input-base"
+        aria-label="End date"
+        title="End date (leave empty for a one-day event)"
+      />
+    </div>
+  );
+};
+
+/**
+ * Props for the EventCard component
+ */
+interface EventCardProps {
+  /** The event to show */
+  event: ConventionEvent;
+  /** All (non-trashed) groups */
+  groups: ImageGroup[];
+  /** Tasks of all groups, for progress */
+  tasks: BuildTask[];
+  /** Callback to open an assigned plan */
+  onSelectGroup: (groupId: number) => void;
+  /** Callback with changed fields */
+  onUpdate: (changes: Partial<EventInput>) => Promise<void>;
+  /** Callback when delete is requested */
+  onDelete: () => void;
+}
+
+/**
+ * EventCard Component
+ *
+ * One event of the agenda with its countdown, the plans assigned to it
+ * and inline editing.
+ *
+ * @param props - Component props
+ * @returns The rendered card
+ */
+const EventCard: React.FC<EventCardProps> = ({
+  event,
+  groups,
+  tasks,
+  onSelectGroup,
+  onUpdate,
+  onDelete
+}) => {
+  /** Whether the card is in edit mode */
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  /** Field values while editing */
+  const [draft, setDraft] = useState<EventFieldValues>(event);
+
+  /** Assigned plans that are not in the trash */
+  const assignedGroups = groups.filter((group) => event.groupIds.includes(group.id));
+  /** Plans that can still be assigned */
+  const unassignedGroups = groups.filter((group) => !event.groupIds.includes(group.id));
+  const timing = getEventTiming(event);
+
+  /**
+   * Saves the edited fields
+   */
+  const handleSave = async (): Promise<void> => {
+    const fields = cleanEventFields(draft);
+    if (typeof fields === 'string') {
+      alert(fields);
+      return;
+    }
+    await onUpdate(fields);
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="card-standard space-y-3">
+        <EventFields
+          values={draft}
+          onChange={(changes) => setDraft((prev) => ({ ...prev, ...changes }))}
+          onSubmit={handleSave}
+        />
+        <div className="flex gap-2">
+          <button onClick={handleSave} className="btn-success flex-1 px-2 py-1 text-xs">
+            Save
+          </button>
+          <button
+            onClick={() => {
+              setDraft(event);
+              setIsEditing(false);
+            }}
+            className="btn-outlined flex-1 px-2 py-1 text-xs"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card-standard">
+      {/* Event Header */}
+      <div className="flex items-start gap-4">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${TIMING_CLASSES[timing]}`}>
+              {eventCountdown(event)}
+            </span>
+            <h3 className="text-title-large truncate" title={event.name}>{event.name}</h3>
+          </div>
+          <p className="text-body-medium truncate">
+            {formatCalendarDate(event.startDate)}
+            {event.endDate !== event.startDate && <> – {formatCalendarDate(event.endDate)}</>}
+            {event.location && <> • {event.location}</>}
+          </p>
+        </div>
+
+        <div className="flex gap-2 flex-shrink-0">
+          <button
+            onClick={() => {
+              setDraft(event);
+              setIsEditing(true);
+            }}
+            className="btn-outlined px-3 py-1.5 text-xs"
+          >
+            Edit
+          </button>
+          <button onClick={onDelete} className="btn-danger px-3 py-1.5 text-xs">
+            Delete
+          </button>
+        </div>
+      </div>
+
+      {/* Assigned Plans */}
+      <div className="mt-4 space-y-2">
+        {assignedGroups.map((group) => {
+          const progress = getTaskProgress(tasks, group.id);
+          return (
+            <div key={group.id} className="flex items-center gap-3 bg-dark-hover rounded px-3 py-2">
+              <button
+                onClick={() => onSelectGroup(group.id)}
+                className="text-title-medium truncate text-left hover:underline"
+                title={`Open ${group.name}`}
+              >
+                {group.name}
+                {group.character && <span className="text-body-medium"> • {group.character}</span>}
+              </button>
+              <PlanStatusBadge status={group.status} />
+              {progress.total > 0 && (
+                <span className="text-body-medium text-xs">
+                  Tasks {progress.completed}/{progress.total} • {progress.percent}%
+                </span>
+              )}
+              <button
+                onClick={() => onUpdate({ groupIds: event.groupIds.filter((id) => id !== group.id) })}
+                className="btn-text px-2 py-0.5 ml-auto"
+                aria-label={`Remove ${group.name} from ${event.name}`}
+                title="Remove from event"
+              >
+                ✕
+              </button>
+            </div>
+          );
+        })}
+
+        {unassignedGroups.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => {
+              if (e.target.value) onUpdate({ groupIds: [...event.groupIds, Number(e.target.value)] });
+            }}
+            className="input-base"
+            aria-label="Assign a plan"
+          >
+            <option value="">+ Assign a plan...</option>
+            {unassignedGroups.map((group) => (
+              <option key={group.id} value={group.id}>
+                {group.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EventCalendar;
@@ -0,0 +1,245 @@
+import { useEffect, useRef, useState } from 'react';
+import type { StoredImage } from '../services/db';
+import type { SearchResults } from '../services/search';
+import { useSearch } from '../contexts/ImageGalleryContext';
+import { useImageUrl } from '../hooks/useImageUrl';
+import PlanStatusBadge from './PlanStatusBadge';
+
+/**
+ * Delay after the last keystroke before searching, in milliseconds
+ */
+const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * Longest edge of a result thumbnail in CSS pixels
+ */
+const RESULT_THUMBNAIL_SIZE = 48;
+
+/**
+ * GlobalSearch Component
+ *
+ * Search box in the app header that finds groups and images across
+ * the whole gallery by name, plan details, notes and tags.
+ *
+ * Features:
+ * - Results update while typing (debounced)
+ * - `#tag` words match tags exactly
+ * - Tags in use are suggested while the box is empty
+ * - Clicking a group result selects the group; clicking an image
+ *   result also scrolls to and highlights the image in the gallery
+ * - ESC or clicking outside closes the results
+ *
+ * @returns The rendered search box
+ */
+const GlobalSearch: React.FC = () => {
+  const { searchLibrary, listTags, openSearchResult } = useSearch();
+
+  /** Text in the search box */
+  const [query, setQuery] = useState<string>('');
+  /** Results of the latest search, or null before the first search */
+  const [results, setResults] = useState<SearchResults | null>(null);
+  /** Tags offered while the box is empty */
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([]);
+  /** Whether the results panel is open */
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  /** Wrapper element, used to detect clicks outside */
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Runs the search after the user stops typing
+   *
+   * Results of an outdated query are discarded.
+   */
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+
+    let isCurrent = true;
+    const timer = window.setTimeout(async () => {
+      try {
+        const found = await searchLibrary(query);
+        if (isCurrent) setResults(found);
+      } catch (err) {
+        console.error('Search failed:', err);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      window.clearTimeout(timer);
+    };
+  }, [query, searchLibrary]);
+
+  /**
+   * Closes the results on ESC or a click outside the search box
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent): void => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleEscape = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    window.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      window.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  /**
+   * Opens the panel and refreshes the tag suggestions
+   */
+  const handleFocus = async (): Promise<void> => {
+    setIsOpen(true);
+    try {
+      setTagSuggestions(await listTags());
+    } catch (err) {
+      console.error('Failed to load tags:', err);
+    }
+  };
+
+  /**
+   * Opens a result and closes the panel
+   */
+  const handleOpen = (groupId: number, imageId: number | null): void => {
+    openSearchResult(groupId, imageId);
+    setIsOpen(false);
+  };
+
+  const hasResults = results !== null && (results.groups.length > 0 || results.images.length > 0);
+
+  return (
+    <div ref={containerRef} className="relative flex-1 max-w-md">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={handleFocus}
+        placeholder="Search groups, images, #tags..."
+        className="input-base"
+        aria-label="Search the gallery"
+      />
+
+      {isOpen && (query.trim() || tagSuggestions.length > 0) && (
+        <div className="absolute right-0 left-0 mt-2 bg-dark-surface border border-dark-border rounded-lg shadow-2xl z-40 max-h-[70vh] overflow-y-auto">
+          {!query.trim() ? (
+            /* Tag Suggestions */
+            <div className="p-4">
+              <p className="text-label-large mb-2">Tags</p>
+              <div className="flex flex-wrap gap-1.5">
+                {tagSuggestions.map((tag) => (
+                  <button
+                    key={tag}
+                    onClick={() => setQuery(`#${tag}`)}
+                    className="px-2 py-0.5 rounded bg-blue-600/30 text-blue-300 text-xs hover:bg-blue-600/50"
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : results === null ? (
+            <p className="text-body-medium p-4">Searching...</p>
+          ) : !hasResults ? (
+            <p className="text-body-medium p-4">No matches for "{query.trim()}"</p>
+          ) : (
+            <>
+              {/* Group Results */}
+              {results.groups.length > 0 && (
+                <div className="p-2">
+                  <p className="text-label-large px-2 py-1">Groups</p>
+                  {results.groups.map((group) => (
+                    <button
+                      key={group.id}
+                      onClick={() => handleOpen(group.id, null)}
+                      className="w-full text-left px-2 py-2 rounded hover:bg-dark-hover"
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="text-title-medium truncate">{group.name}</span>
+                        <PlanStatusBadge status={group.status} />
+                      </div>
+                      {(group.character || group.tags.length > 0) && (
+                        <p className="text-body-medium text-xs truncate">
+                          {group.character}
+                          {group.character && group.tags.length > 0 && ' • '}
+                          <span className="text-blue-300">{group.tags.map((tag) => `#${tag}`).join(' ')}</span>
+                        </p>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* Image Results */}
+              {results.images.length > 0 && (
+                <div className="p-2 border-t border-dark-border">
+                  <p className="text-label-large px-2 py-1">Images</p>
+                  {results.images.map(({ image, group }) => (
+                    <button
+                      key={image.id}
+                      onClick={() => handleOpen(group.id, image.id)}
+                      className="w-full flex items-center gap-3 text-left px-2 py-2 rounded hover:bg-dark-hover"
+                    >
+                      <ResultThumbnail image={image} />
+                      <div className="min-w-0">
+                        <p className="text-title-medium truncate">{image.name}</p>
+                        <p className="text-body-medium text-xs truncate">
+                          in {group.name}
+                          {image.tags.length > 0 && (
+                            <span className="text-blue-300"> • {image.tags.map((tag) => `#${tag}`).join(' ')}</span>
+                          )}
+                        </p>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Props for the ResultThumbnail component
+ */
+interface ResultThumbnailProps {
+  /** The matching image */
+  image: StoredImage;
+}
+
+/**
+ * ResultThumbnail Component
+ *
+ * Small thumbnail of an image search result.
+ *
+ * @param props - Component props
+ * @returns The rendered thumbnail
+ */
+const ResultThumbnail: React.FC<ResultThumbnailProps> = ({ image }) => {
+  const imageUrl = useImageUrl(image, RESULT_THUMBNAIL_SIZE);
+
+  return (
+    <img
+      src={imageUrl}
+      alt=""
+      className="w-12 h-12 object-cover rounded flex-shrink-0 bg-black/20"
+    />
+  );
+};
+
+export default GlobalSearch;
@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import type { GroupDetails, ImageGroup, MeasurementProfile, PlanStatus } from '../services/db';
+import { pickGroupDetails, PLAN_STATUSES } from '../services/plans';
+import TagInput from './TagInput';
+
+/**
+ * Props for GroupDetailsPanel component
+ */
+interface GroupDetailsPanelProps {
+  /** The group whose plan details are edited */
+  group: ImageGroup;
+  /** Measurement profiles the group can be linked to */
+  measurementProfiles: MeasurementProfile[];
+  /** Callback to save the edited details */
+  onSave: (details: GroupDetails) => Promise<void>;
+  /** Callback to close the panel without saving */
+  onClose: () => void;
+}
+
+/**
+ * GroupDetailsPanel Component
+ *
+ * Modal form for editing the cosplay plan details of a group:
+ * character, source series, variant/outfit, status, target event
+ * date, materials budget, tags, linked measurement profile and
+ * free-form notes.
+ *
+ * Features:
+ * - Edits are kept local until saved
+ * - Click outside or ESC to close without saving
+ * - Ctrl+Enter / Cmd+Enter to save
+ *
+ * @param props - Component props
+ * @returns The rendered details panel
+ */
+const GroupDetailsPanel: React.FC<GroupDetailsPanelProps> = ({
+  group,
+  measurementProfiles,
+  onSave,
+  onClose
+}) => {
+  /** Form values */
+  const [details, setDetails] = useState<GroupDetails>(() => pickGroupDetails(group));
+  /** Whether a save is in progress */
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  /**
+   * Handle ESC key to close the panel
+   */
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  /**
+   * Updates a single form field
+   *
+   * @param field - The field to update
+   * @param value - Its new value
+   */
+  const updateField = <K extends keyof GroupDetails>(field: K, value: GroupDetails[K]): void => {
+    setDetails((prev) => ({ ...prev, [field]: value }));
+  };
+
+  /**
+   * Saves the details (trimmed) and closes the panel
+   */
+  const handleSave = async (): Promise<void> => {
+    setIsSaving(true);
+    try {
+      await onSave({
+        ...details,
+        character: details.character.trim(),
+        series: details.series.trim(),
+        variant: details.variant.trim(),
+        notes: details.notes.trim()
+      });
+      onClose();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert('Failed to save details: ' + errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-dark-surface rounded-lg shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleSave();
+        }}
+      >
+        {/* Header */}
+        <div className="border-b border-dark-border px-6 py-4">
+          <h2 className="text-headline-small truncate" title={group.name}>{group.name}</h2>
+          <p className="text-body-medium mt-1">Cosplay plan details</p>
+        </div>
+
+        {/* Form */}
+        <div className="p-6 space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <label className="block">
+              <span className="text-label-large block mb-1">Character</span>
+              <input
+                type="text"
+                value={details.character}
+                onChange={(e) => updateField('character', e.target.value)}
+                placeholder="e.g. Saber"
+                className="input-base"
+                autoFocus
+              />
+            </label>
+            <label className="block">
+              <span className="text-label-large block mb-1">Series</span>
+              <input
+                type="text"
+                value={details.series}
+                onChange={(e) => updateField('series', e.target.value)}
+                placeholder="e.g. Fate/stay night"
+                className="input-base"
+              />
+            </label>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <label className="block">
+              <span className="text-label-large block mb-1">Variant / outfit</span>
+              <input
+                type="text"
+                value={details.variant}
+                onChange={(e) => updateField('variant', e.target.value)}
+                placeholder="e.g. Armored"
+                className="input-base"
+              />
+            </label>
+            <label className="block">
+              <span className="text-label-large block mb-1">Materials budget</span>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={details.budget ?? ''}
+                onChange={(e) => updateField('budget', e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+                placeholder="No budget"
+                className="input-base"
+              />
+            </label>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <label className="block">
+              <span className="text-label-large block mb-1">Status</span>
+              <select
+                value={details.status}
+                onChange={(e) => updateField('status', e.target.value as PlanStatus)}
+                className="input-base"
+              >
+                {PLAN_STATUSES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-label-large block mb-1">Target event date</span>
+              <input
+                type="date"
+                value={details.eventDate ?? ''}
+                onChange={(e) => updateField('eventDate', e.target.value || null)}
+                className="input-base"
+              />
+            </label>
+          </div>
+
+          <label className="block">
+            <span className="text-label-large block mb-1">Measurements</span>
+            <select
+              value={details.measurementProfileId ?? ''}
+              onChange={(e) => updateField('measurementProfileId', e.target.value ? Number(e.target.value) : null)}
+              className="input-base"
+            >
+              <option value="">No profile linked</option>
+              {measurementProfiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div>
+            <span className="text-label-large block mb-1">Tags</span>
+            <TagInput
+              tags={details.tags}
+              onChange={(tags) => updateField('tags', tags)}
+              placeholder="e.g. wig, armor, sewing"
+            />
+          </div>
+
+          <label className="block">
+            <span className="text-label-large block mb-1">Notes</span>
+            <textarea
+              value={details.notes}
+              onChange={(e) => updateField('notes', e.target.value)}
+              rows={5}
+              placeholder="Ideas, references, things to remember..."
+              className="input-base resize-y"
+            />
+          </label>
+        </div>
+
+        {/* Actions */}
+        <div className="border-t border-dark-border px-6 py-4 flex gap-3">
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="btn-success flex-1"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+          <button
+            onClick={onClose}
+            className="btn-outlined flex-1"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GroupDetailsPanel;
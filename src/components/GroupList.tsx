@@ -1,6 +1,19 @@
-import { useState } from 'react';
-import type { ImageGroup } from '../services/db';
+import { useMemo, useState } from 'react';
+import type { ImageAnnotations, ImageGroup, PlanStatus } from '../services/db';
+import {
+  filterGroups,
+  formatCalendarDate,
+  getTaskProgress,
+  sortGroups,
+  GROUP_SORT_OPTIONS,
+  PLAN_STATUSES,
+  type GroupFilter,
+  type GroupSortKey,
+  type TaskProgress
+} from '../services/plans';
 import { useGroups } from '../contexts/ImageGalleryContext';
+import GroupDetailsPanel from './GroupDetailsPanel';
+import PlanStatusBadge from './PlanStatusBadge';
 import PreviewModal from './PreviewModal';
 
 /**
@@ -19,6 +32,9 @@ import PreviewModal from './PreviewModal';
  * - Material Design typography and elevation
  * - Create new groups with inline form
  * - Rename existing groups with inline editing
+ * - Edit cosplay plan details (character, series, status, event date, ...)
+ * - Filter groups by text and status, and sort by plan fields
+ * - Build task completion bar on each group card
  * - Delete existing groups with confirmation
  * - Preview group images in modal with diagonal split layout
  * - Visual indication of selected group
@@ -29,10 +45,13 @@ const GroupList: React.FC = () => {
   /** Access group-related state and actions from context */
   const {
     groups,
+    tasks,
+    measurementProfiles,
     selectedGroupId,
     selectGroup,
     createNewGroup,
     renameExistingGroup,
+    updateExistingGroupDetails,
     deleteExistingGroup,
   } = useGroups();
 
@@ -45,6 +64,19 @@ const GroupList: React.FC = () => {
   /** Preview modal state */
   const [previewGroupId, setPreviewGroupId] = useState<number | null>(null);
   const [previewImages, setPreviewImages] = useState<any[]>([]);
+  const [previewAnnotations, setPreviewAnnotations] = useState<ImageAnnotations[]>([]);
+  /** Group whose plan details are being edited */
+  const [detailsGroupId, setDetailsGroupId] = useState<number | null>(null);
+  /** Filter and sort settings for the group grid */
+  const [filter, setFilter] = useState<GroupFilter>({ query: '', status: 'all' });
+  const [sortKey, setSortKey] = useState<GroupSortKey>('createdAt');
+
+  /** Groups to show, after filtering and sorting */
+  const visibleGroups = useMemo(
+    () => sortGroups(filterGroups(groups, filter), sortKey),
+    [groups, filter, sortKey]
+  );
+  const isFiltered = filter.query.trim() !== '' || filter.status !== 'all';
 
   /**
    * Handles the creation of a new group
@@ -73,14 +105,14 @@ const GroupList: React.FC = () => {
   /**
    * Handles group deletion with user confirmation
    *
-   * Displays a confirmation dialog before deleting the group
-   * and all its associated images.
+   * Displays a confirmation dialog before moving the group
+   * and all its associated images to the trash.
    *
    * @param groupId - ID of the group to delete
    * @param groupName - Name of the group (used in confirmation message)
    */
   const handleDeleteGroup = async (groupId: number, groupName: string): Promise<void> => {
-    if (window.confirm(`Are you sure you want to delete "${groupName}" and all its images?`)) {
+    if (window.confirm(`Move "${groupName}" and all its images to the trash?`)) {
       try {
         await deleteExistingGroup(groupId);
       } catch (error) {
@@ -93,16 +125,20 @@ const GroupList: React.FC = () => {
   /**
    * Handles opening the preview modal for a group
    *
-   * Loads the group's images and opens the preview modal.
+   * Loads the group's images and their annotations and opens the preview modal.
    *
    * @param groupId - ID of the group to preview
    */
   const handlePreviewGroup = async (groupId: number): Promise<void> => {
     try {
-      // Import the getImagesByGroup function dynamically
-      const { getImagesByGroup } = await import('../services/db');
-      const groupImages = await getImagesByGroup(groupId);
+      // Import the database functions dynamically
+      const { getAnnotationsByGroup, getImagesByGroup } = await import('../services/db');
+      const [groupImages, groupAnnotations] = await Promise.all([
+        getImagesByGroup(groupId),
+        getAnnotationsByGroup(groupId)
+      ]);
       setPreviewImages(groupImages);
+      setPreviewAnnotations(groupAnnotations);
       setPreviewGroupId(groupId);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -116,10 +152,12 @@ const GroupList: React.FC = () => {
   const handleClosePreview = (): void => {
     setPreviewGroupId(null);
     setPreviewImages([]);
+    setPreviewAnnotations([]);
   };
 
-  // Find the preview group
+  // Find the preview group and the group being edited
   const previewGroup = groups.find((g) => g.id === previewGroupId);
+  const detailsGroup = groups.find((g) => g.id === detailsGroupId);
 
   return (
     <>
@@ -200,6 +238,45 @@ const GroupList: React.FC = () => {
             )}
           </div>
 
+          {/* Filter & Sort */}
+          {groups.length > 0 && (
+            <div className="flex flex-col sm:flex-row gap-3">
+              <input
+                type="search"
+                value={filter.query}
+                onChange={(e) => setFilter((prev) => ({ ...prev, query: e.target.value }))}
+                placeholder="Filter by name, character, series, tag..."
+                className="input-base flex-1"
+                aria-label="Filter groups"
+              />
+              <select
+                value={filter.status}
+                onChange={(e) => setFilter((prev) => ({ ...prev, status: e.target.value as PlanStatus | 'all' }))}
+                className="input-base sm:w-44"
+                aria-label="Filter by status"
+              >
+                <option value="all">All statuses</option>
+                {PLAN_STATUSES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={sortKey}
+                onChange={(e) => setSortKey(e.target.value as GroupSortKey)}
+                className="input-base sm:w-44"
+                aria-label="Sort groups"
+              >
+                {GROUP_SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    Sort: {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Groups Grid */}
           {groups.length === 0 ? (
             <div className="card-spacious text-center">
@@ -221,16 +298,28 @@ const GroupList: React.FC = () => {
                 Create your first group to start organizing images
               </p>
             </div>
+          ) : visibleGroups.length === 0 && isFiltered ? (
+            <div className="card-standard text-center">
+              <p className="text-body-medium">No groups match the current filter</p>
+              <button
+                onClick={() => setFilter({ query: '', status: 'all' })}
+                className="btn-text mt-2"
+              >
+                Clear filter
+              </button>
+            </div>
           ) : (
             <div className="grid-responsive">
-              {groups.map((group) => (
+              {visibleGroups.map((group) => (
                 <GroupCard
                   key={group.id}
                   group={group}
+                  taskProgress={getTaskProgress(tasks, group.id)}
                   isSelected={selectedGroupId === group.id}
                   onSelect={() => selectGroup(group.id)}
                   onRename={(newName: string) => renameExistingGroup(group.id, newName)}
                   onPreview={() => handlePreviewGroup(group.id)}
+                  onEditDetails={() => setDetailsGroupId(group.id)}
                   onDelete={() => handleDeleteGroup(group.id, group.name)}
                 />
               ))}
@@ -245,8 +334,19 @@ const GroupList: React.FC = () => {
         <PreviewModal
           isOpen={previewGroupId !== null}
           onClose={handleClosePreview}
-          groupName={previewGroup.name}
+          group={previewGroup}
           images={previewImages}
+          annotations={previewAnnotations}
+        />
+      )}
+
+      {/* Plan Details Panel */}
+      {detailsGroup && (
+        <GroupDetailsPanel
+          group={detailsGroup}
+          measurementProfiles={measurementProfiles}
+          onSave={(details) => updateExistingGroupDetails(detailsGroup.id, details)}
+          onClose={() => setDetailsGroupId(null)}
         />
       )}
     </>
@@ -259,6 +359,8 @@ const GroupList: React.FC = () => {
 interface GroupCardProps {
   /** The group data */
   group: ImageGroup;
+  /** Completion of the group's build tasks */
+  taskProgress: TaskProgress;
   /** Whether this group is currently selected */
   isSelected: boolean;
   /** Callback when the card is clicked */
@@ -267,6 +369,8 @@ interface GroupCardProps {
   onRename: (newName: string) => Promise<void>;
   /** Callback when preview is requested */
   onPreview: () => void;
+  /** Callback when plan details editing is requested */
+  onEditDetails: () => void;
   /** Callback when delete button is clicked */
   onDelete: () => void;
 }
@@ -276,17 +380,20 @@ interface GroupCardProps {
  *
  * Displays a single group as a card in the grid.
  * Provides visual feedback for selection and hover states.
- * Supports inline renaming and preview.
+ * Shows the plan's character, series, status, event date, tags and task completion.
+ * Supports inline renaming, plan details editing and preview.
  *
  * @param props - Component props
  * @returns The rendered group card
  */
 const GroupCard: React.FC<GroupCardProps> = ({
   group,
+  taskProgress,
   isSelected,
   onSelect,
   onRename,
   onPreview,
+  onEditDetails,
   onDelete
 }) => {
   /** Whether the card is in rename mode */
@@ -394,6 +501,43 @@ const GroupCard: React.FC<GroupCardProps> = ({
         </h3>
       )}
 
+      {/* Plan Summary */}
+      {(group.character || group.series) && (
+        <p className="text-body-medium truncate" title={[group.character, group.series].filter(Boolean).join(' • ')}>
+          {[group.character, group.series].filter(Boolean).join(' • ')}
+          {group.variant && <span className="text-gray-500"> ({group.variant})</span>}
+        </p>
+      )}
+      <div className="flex flex-wrap items-center gap-2 my-2">
+        <PlanStatusBadge status={group.status} />
+        {group.eventDate && (
+          <span className="text-body-medium">Event {formatCalendarDate(group.eventDate)}</span>
+        )}
+      </div>
+
+      {/* Tags */}
+      {group.tags.length > 0 && (
+        <p className="text-xs text-blue-300 truncate mb-2" title={group.tags.map((tag) => `#${tag}`).join(' ')}>
+          {group.tags.map((tag) => `#${tag}`).join(' ')}
+        </p>
+      )}
+
+      {/* Task Completion */}
+      {taskProgress.total > 0 && (
+        <div className="mb-2" title={`${taskProgress.completed} of ${taskProgress.total} tasks done`}>
+          <div className="flex justify-between text-body-medium text-xs mb-1">
+            <span>Tasks {taskProgress.completed}/{taskProgress.total}</span>
+            <span>{taskProgress.percent}%</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-dark-hover overflow-hidden">
+            <div
+              className="h-full bg-green-500"
+              style={{ width: `${taskProgress.percent}%` }}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Created Date */}
       <p className="text-body-medium">
         Created {new Date(group.createdAt).toLocaleDateString()}
@@ -418,6 +562,15 @@ const GroupCard: React.FC<GroupCardProps> = ({
           >
             Preview
           </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onEditDetails();
+            }}
+            className="btn-outlined px-3 py-1.5 text-xs"
+          >
+            Details
+          </button>
           <button
             onClick={(e) => {
               e.stopPropagation();
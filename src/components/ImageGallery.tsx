@@ -1,6 +1,47 @@
 import { useState, useEffect, useRef } from 'react';
-import type { StoredImage } from '../services/db';
-import { useImages } from '../contexts/ImageGalleryContext';
+import {
+  DEFAULT_IMAGE_ROLE,
+  type ImageAnnotations,
+  type ImageRole,
+  type StoredImage
+} from '../services/db';
+import { IMAGE_ROLES } from '../services/plans';
+import { useAnnotations, useGroups, useImages, useSearch } from '../contexts/ImageGalleryContext';
+import { useImageUrl } from '../hooks/useImageUrl';
+import { readImageLink, writeImageLink } from '../services/location';
+import { checkUploadQuota, formatBytes, getStorageEstimate } from '../services/storage';
+import AnnotationEditor from './AnnotationEditor';
+import AnnotationOverlay from './AnnotationOverlay';
+import CompareModal from './CompareModal';
+import Lightbox from './Lightbox';
+import LinkedMeasurements from './LinkedMeasurements';
+import Slideshow from './Slideshow';
+import TagInput from './TagInput';
+
+/**
+ * Drag data type used when reordering images within the grid
+ *
+ * Distinguishes an internal card drag from files dragged in from
+ * outside the browser, which are handled by the drop zone instead.
+ */
+const IMAGE_DRAG_TYPE = 'application/x-gallery-image-id';
+
+/**
+ * Longest edge of an image card in CSS pixels, used to pick a thumbnail
+ */
+const CARD_DISPLAY_SIZE = 256;
+
+/**
+ * How long a focused image (e.g. a search result) stays highlighted, in milliseconds
+ */
+const FOCUS_HIGHLIGHT_MS = 2500;
+
+/**
+ * Checks whether a drag event carries files from outside the page
+ */
+const isFileDrag = (e: React.DragEvent): boolean => {
+  return Array.from(e.dataTransfer.types).includes('Files');
+};
 
 /**
  * Props for the ImageCard component
@@ -8,10 +49,26 @@ import { useImages } from '../contexts/ImageGalleryContext';
 interface ImageCardProps {
   /** Image object from IndexedDB */
   image: StoredImage;
+  /** Index of the image within the whole group (not just the filtered grid) */
+  index: number;
   /** Callback to rename the image */
   onRename: (imageId: number, newName: string) => Promise<void>;
+  /** Whether the image is highlighted (e.g. opened from a search result) */
+  isFocused: boolean;
+  /** Annotations drawn over the image, or undefined if it has none or they are hidden */
+  annotations: ImageAnnotations | undefined;
+  /** Callback to open the annotation editor for the image */
+  onAnnotate: (imageId: number) => void;
+  /** Callback to change the image's role */
+  onRoleChange: (imageId: number, role: ImageRole) => Promise<void>;
+  /** Callback to replace the image's tags */
+  onTagsChange: (imageId: number, tags: string[]) => Promise<void>;
   /** Callback to delete the image */
-  onDelete: (imageId: number, imageName: string) => Promise<void>;
+  onDelete: (imageId: number, imageName: string) => Promise<boolean>;
+  /** Callback when another card is dropped onto this one */
+  onMove: (imageId: number, toIndex: number) => Promise<void>;
+  /** Callback to open the image in the lightbox */
+  onOpen: (imageId: number) => void;
 }
 
 /**
@@ -29,6 +86,18 @@ interface ImageCardProps {
  * - Responsive grid layout with proper column distribution
  * - Material Design typography and elevation
  * - Visual drag-and-drop feedback
+ * - Drag-to-reorder images within the group
+ * - Image roles (reference, progress, final, inspiration), chosen on
+ *   upload or per card, with role filter tabs
+ * - Tags per image
+ * - Annotations (arrows, circles, strokes, callouts) drawn over images,
+ *   edited per image and shown or hidden for all of them
+ * - Measurements of the group's linked profile above the images
+ * - Scrolls to and highlights an image opened from the search
+ * - Compare view for two images (e.g. reference against progress)
+ * - Slideshow presenting the images shown in the grid full screen
+ * - Fullscreen lightbox opened by clicking an image, linked from the URL
+ *   so it reopens after a reload
  * - Image preview with rename and delete functionality
  *
  * @returns The rendered image gallery
@@ -38,19 +107,104 @@ const ImageGallery: React.FC = () => {
   const {
     images,
     selectedGroupId: groupId,
+    focusedImageId,
+    isLoadingImages,
     addImageToGroup,
     renameExistingImage,
+    setExistingImageRole,
+    setExistingImageTags,
+    moveExistingImage,
     deleteExistingImage,
+    clearFocusedImage,
   } = useImages();
+  const { annotations, showAnnotations, saveImageAnnotations, setShowAnnotations } = useAnnotations();
+  const { openSearchResult } = useSearch();
+  const { groups, hasLoadedGroups } = useGroups();
   /** Whether files are currently being dragged over the drop zone */
   const [isDragging, setIsDragging] = useState<boolean>(false);
   /** Input value for image URL download */
   const [urlInput, setUrlInput] = useState<string>('');
   /** Whether an image is currently being downloaded from URL */
   const [isDownloading, setIsDownloading] = useState<boolean>(false);
+  /** Role given to newly added images */
+  const [uploadRole, setUploadRole] = useState<ImageRole>(DEFAULT_IMAGE_ROLE);
+  /** Role shown in the grid, or 'all' */
+  const [roleFilter, setRoleFilter] = useState<ImageRole | 'all'>('all');
+  /** Whether the compare view is open */
+  const [isComparing, setIsComparing] = useState<boolean>(false);
+  /** Whether the slideshow is playing */
+  const [isPresenting, setIsPresenting] = useState<boolean>(false);
+  /** Image open in the annotation editor, or null */
+  const [annotatingImageId, setAnnotatingImageId] = useState<number | null>(null);
+  /** Image open in the lightbox, or null (starts with the one linked from the URL) */
+  const [lightboxImageId, setLightboxImageId] = useState<number | null>(
+    () => readImageLink()?.imageId ?? null
+  );
+  /** Group selected on the previous render, to notice a switch to another group */
+  const previousGroupIdRef = useRef<number | null>(groupId);
+  /** Whether the group linked from the URL has been opened */
+  const hasFollowedLinkRef = useRef<boolean>(false);
   /** Reference to the hidden file input element */
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  /** Image shown in the lightbox, once its group's images have loaded */
+  const lightboxImage = images.find((image) => image.id === lightboxImageId);
+
+  /**
+   * Opens the group of an image linked from the URL
+   *
+   * Waits for the groups to load: selecting a group that is not loaded
+   * yet would be cleared again right away, closing the lightbox and
+   * dropping the link. The lightbox shows the image once the group's
+   * images have loaded.
+   */
+  useEffect(() => {
+    if (!hasLoadedGroups || hasFollowedLinkRef.current) return;
+    // Only the URL at startup is followed
+    hasFollowedLinkRef.current = true;
+    const link = readImageLink();
+    if (link) {
+      openSearchResult(link.groupId, null);
+    }
+  }, [hasLoadedGroups, openSearchResult]);
+
+  /**
+   * Closes the lightbox when another group is selected
+   *
+   * Switching from no group to one (e.g. following the URL link) keeps it.
+   */
+  useEffect(() => {
+    const previousGroupId = previousGroupIdRef.current;
+    previousGroupIdRef.current = groupId;
+    if (previousGroupId !== null && previousGroupId !== groupId) {
+      setLightboxImageId(null);
+    }
+  }, [groupId]);
+
+  /**
+   * Closes the lightbox when its image is not in the loaded group
+   * (e.g. a stale link, or the image was deleted elsewhere)
+   */
+  useEffect(() => {
+    if (lightboxImageId === null || lightboxImage || isLoadingImages) return;
+    if (images.some((image) => image.groupId === groupId)) {
+      setLightboxImageId(null);
+    }
+  }, [lightboxImageId, lightboxImage, isLoadingImages, images, groupId]);
+
+  /**
+   * Keeps the URL linked to the image open in the lightbox
+   *
+   * A link waiting for its group to load is left in place.
+   */
+  useEffect(() => {
+    if (lightboxImageId === null) {
+      writeImageLink(null);
+    } else if (lightboxImage) {
+      writeImageLink({ groupId: lightboxImage.groupId, imageId: lightboxImage.id });
+    }
+  }, [lightboxImageId, lightboxImage]);
+
   /**
    * Sets up clipboard paste event listener
    */
@@ -73,7 +227,28 @@ const ImageGallery: React.FC = () => {
 
     window.addEventListener('paste', handlePaste);
     return () => window.removeEventListener('paste', handlePaste);
-  }, [groupId]);
+  }, [groupId, uploadRole]);
+
+  /**
+   * Scrolls to the focused image once it is loaded, then fades the highlight
+   *
+   * A role filter hiding the image is reset first.
+   */
+  useEffect(() => {
+    if (focusedImageId === null) return;
+
+    const focusedImage = images.find((image) => image.id === focusedImageId);
+    if (!focusedImage) return;
+
+    if (roleFilter !== 'all' && focusedImage.role !== roleFilter) {
+      setRoleFilter('all');
+      return;
+    }
+
+    document.getElementById(`image-card-${focusedImageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = window.setTimeout(clearFocusedImage, FOCUS_HIGHLIGHT_MS);
+    return () => window.clearTimeout(timer);
+  }, [focusedImageId, images, roleFilter, clearFocusedImage]);
 
   /**
    * Processes an image file and adds it to the current group
@@ -89,9 +264,22 @@ const ImageGallery: React.FC = () => {
       return;
     }
 
+    const name = customName || (file instanceof File ? file.name : 'image.jpg');
+
+    // Warn before an upload that would not fit in the browser's storage quota
+    if (await checkUploadQuota(file.size) === 'exceeds') {
+      const estimate = await getStorageEstimate();
+      const available = estimate ? formatBytes(Math.max(0, estimate.quota - estimate.usage)) : 'little';
+      if (!window.confirm(
+        `"${name}" (${formatBytes(file.size)}) may not fit: only ${available} of storage is left. ` +
+        'Try adding it anyway?'
+      )) {
+        return;
+      }
+    }
+
     try {
-      const name = customName || (file instanceof File ? file.name : 'image.jpg');
-      await addImageToGroup(groupId, name, file);
+      await addImageToGroup(groupId, name, file, uploadRole);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       alert('Failed to add image: ' + errorMessage);
@@ -114,11 +302,16 @@ const ImageGallery: React.FC = () => {
 
   /**
    * Drag and drop event handlers
+   *
+   * Only file drags switch the drop zone into upload mode; card drags
+   * used for reordering are handled by the cards themselves.
    */
   const handleDragEnter = (e: React.DragEvent<HTMLDivElement>): void => {
     e.preventDefault();
     e.stopPropagation();
-    setIsDragging(true);
+    if (isFileDrag(e)) {
+      setIsDragging(true);
+    }
   };
 
   const handleDragLeave = (e: React.DragEvent<HTMLDivElement>): void => {
@@ -137,6 +330,8 @@ const ImageGallery: React.FC = () => {
     e.stopPropagation();
     setIsDragging(false);
 
+    if (!isFileDrag(e)) return;
+
     const files = e.dataTransfer?.files;
     if (!files || files.length === 0) return;
 
@@ -187,17 +382,57 @@ const ImageGallery: React.FC = () => {
     }
   };
 
+  /**
+   * Handles moving an image to a new position
+   */
+  const handleMoveImage = async (imageId: number, toIndex: number): Promise<void> => {
+    try {
+      await moveExistingImage(imageId, toIndex);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert('Failed to reorder image: ' + errorMessage);
+    }
+  };
+
+  /**
+   * Handles changing an image's role
+   */
+  const handleRoleChange = async (imageId: number, role: ImageRole): Promise<void> => {
+    try {
+      await setExistingImageRole(imageId, role);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert('Failed to change image role: ' + errorMessage);
+    }
+  };
+
+  /**
+   * Handles replacing an image's tags
+   */
+  const handleTagsChange = async (imageId: number, tags: string[]): Promise<void> => {
+    try {
+      await setExistingImageTags(imageId, tags);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert('Failed to save tags: ' + errorMessage);
+      throw error;
+    }
+  };
+
   /**
    * Handles image deletion with confirmation
+   *
+   * @returns Whether the image was moved to the trash
    */
-  const handleDeleteImage = async (imageId: number, imageName: string): Promise<void> => {
-    if (window.confirm(`Delete "${imageName}"?`)) {
-      try {
-        await deleteExistingImage(imageId);
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        alert('Failed to delete image: ' + errorMessage);
-      }
+  const handleDeleteImage = async (imageId: number, imageName: string): Promise<boolean> => {
+    if (!window.confirm(`Move "${imageName}" to the trash?`)) return false;
+    try {
+      await deleteExistingImage(imageId);
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert('Failed to delete image: ' + errorMessage);
+      return false;
     }
   };
 
@@ -226,19 +461,84 @@ const ImageGallery: React.FC = () => {
     );
   }
 
+  /**
+   * Images shown in the grid, with their index in the whole group
+   * (reordering always works on the full group order)
+   */
+  const visibleImages = images
+    .map((image, index) => ({ image, index }))
+    .filter(({ image }) => roleFilter === 'all' || image.role === roleFilter);
+
+  /** Annotations drawn over the images (none while hidden) */
+  const shownAnnotations = showAnnotations ? annotations : [];
+  const annotatingImage = images.find((image) => image.id === annotatingImageId);
+
+  /**
+   * Images browsed in the lightbox: the grid's, unless the open image is
+   * filtered out of it
+   */
+  const lightboxImages = visibleImages.some(({ image }) => image.id === lightboxImageId)
+    ? visibleImages.map(({ image }) => image)
+    : images;
+
   return (
     <section>
       {/* Section Header */}
-      <div className="mb-6">
-        <h2 className="text-display-small">Images</h2>
-        <p className="text-body-medium mt-1">
-          {images.length} {images.length === 1 ? 'image' : 'images'} in this group
-        </p>
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-display-small">Images</h2>
+          <p className="text-body-medium mt-1">
+            {images.length} {images.length === 1 ? 'image' : 'images'} in this group
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2 justify-end">
+          {annotations.length > 0 && (
+            <button
+              onClick={() => setShowAnnotations(!showAnnotations)}
+              aria-pressed={showAnnotations}
+              className="btn-text"
+            >
+              {showAnnotations ? 'Hide annotations' : 'Show annotations'}
+            </button>
+          )}
+          <button
+            onClick={() => setIsComparing(true)}
+            disabled={images.length < 2}
+            className="btn-outlined"
+            title="Compare two images, e.g. the reference against your progress"
+          >
+            Compare
+          </button>
+          <button
+            onClick={() => setIsPresenting(true)}
+            disabled={visibleImages.length === 0}
+            className="btn-outlined"
+            title="Play the images shown below as a full-screen slideshow"
+          >
+            Present
+          </button>
+        </div>
       </div>
 
       {/* Upload Controls */}
       <div className="card-standard mb-6 space-y-4">
-        <h3 className="text-title-large mb-4">Add Images</h3>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h3 className="text-title-large">Add Images</h3>
+          <label className="flex items-center gap-2 text-body-medium">
+            Add as
+            <select
+              value={uploadRole}
+              onChange={(e) => setUploadRole(e.target.value as ImageRole)}
+              className="input-base w-auto py-1.5"
+            >
+              {IMAGE_ROLES.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
 
         {/* File Browse Button */}
         <input
@@ -304,11 +604,42 @@ const ImageGallery: React.FC = () => {
           </svg>
           <p className="text-body-medium">
             You can also <strong>drag & drop</strong> images anywhere below or{' '}
-            <strong>paste from clipboard</strong> (Ctrl+V / Cmd+V)
+            <strong>paste from clipboard</strong> (Ctrl+V / Cmd+V).
+            Drag images within the grid to <strong>reorder</strong> them.
           </p>
         </div>
       </div>
 
+      {/* Linked Measurement Profile */}
+      <LinkedMeasurements />
+
+      {/* Role Filter Tabs */}
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4" role="tablist" aria-label="Filter images by role">
+          {[{ value: 'all' as const, label: 'All' }, ...IMAGE_ROLES].map((option) => {
+            const count = option.value === 'all'
+              ? images.length
+              : images.filter((image) => image.role === option.value).length;
+            const isActive = roleFilter === option.value;
+            return (
+              <button
+                key={option.value}
+                role="tab"
+                aria-selected={isActive}
+                onClick={() => setRoleFilter(option.value)}
+                className={`px-4 py-1.5 rounded-full text-sm transition-colors ${
+                  isActive
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-dark-surface border border-dark-border text-gray-300 hover:bg-dark-hover'
+                }`}
+              >
+                {option.label} ({count})
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* Drop Zone / Image Grid */}
       <div
         className={`
@@ -360,19 +691,75 @@ const ImageGallery: React.FC = () => {
               Add images using the buttons above, drag & drop, paste from clipboard, or download from a URL
             </p>
           </div>
+        ) : visibleImages.length === 0 ? (
+          <div className="h-[400px] flex flex-col items-center justify-center p-8 text-center">
+            <h3 className="text-headline-small mb-2">No images with this role</h3>
+            <button onClick={() => setRoleFilter('all')} className="btn-text">
+              Show all images
+            </button>
+          </div>
         ) : (
           <div className="p-6 grid-images">
-            {images.map((image) => (
+            {visibleImages.map(({ image, index }) => (
               <ImageCard
                 key={image.id}
                 image={image}
+                index={index}
+                isFocused={image.id === focusedImageId}
+                annotations={shownAnnotations.find((record) => record.imageId === image.id)}
+                onAnnotate={setAnnotatingImageId}
                 onRename={renameExistingImage}
+                onRoleChange={handleRoleChange}
+                onTagsChange={handleTagsChange}
                 onDelete={handleDeleteImage}
+                onMove={handleMoveImage}
+                onOpen={setLightboxImageId}
               />
             ))}
           </div>
         )}
       </div>
+
+      {/* Compare View */}
+      <CompareModal
+        isOpen={isComparing}
+        onClose={() => setIsComparing(false)}
+        images={images}
+        annotations={shownAnnotations}
+      />
+
+      {/* Slideshow */}
+      {isPresenting && (
+        <Slideshow
+          groupName={groups.find((group) => group.id === groupId)?.name ?? ''}
+          images={visibleImages.map(({ image }) => image)}
+          annotations={shownAnnotations}
+          onClose={() => setIsPresenting(false)}
+        />
+      )}
+
+      {/* Lightbox */}
+      {lightboxImage && (
+        <Lightbox
+          images={lightboxImages}
+          image={lightboxImage}
+          annotations={shownAnnotations.find((record) => record.imageId === lightboxImage.id)}
+          onNavigate={setLightboxImageId}
+          onClose={() => setLightboxImageId(null)}
+          onRename={renameExistingImage}
+          onDelete={handleDeleteImage}
+        />
+      )}
+
+      {/* Annotation Editor */}
+      {annotatingImage && (
+        <AnnotationEditor
+          image={annotatingImage}
+          annotations={annotations.find((record) => record.imageId === annotatingImage.id)}
+          onSave={saveImageAnnotations}
+          onClose={() => setAnnotatingImageId(null)}
+        />
+      )}
     </section>
   );
 };
@@ -381,30 +768,52 @@ const ImageGallery: React.FC = () => {
  * ImageCard Component
  *
  * Displays a single image in a card layout with Material Design styling.
- * Features hover-activated rename and delete buttons with proper image scaling.
+ * Features hover-activated rename, annotate and delete buttons with proper
+ * image scaling, the image's annotations drawn over it, a strip of the
+ * image's dominant colors, and a role selector and editable tags below
+ * the name.
+ * Cards can be dragged onto each other to reorder the group, and clicking
+ * the image (outside the buttons) opens it in the lightbox.
  *
  * @param props - Component props
  * @returns The rendered image card
  */
-const ImageCard: React.FC<ImageCardProps> = ({ image, onRename, onDelete }) => {
-  /** Object URL created from the image blob for display */
-  const [imageUrl, setImageUrl] = useState<string>('');
+const ImageCard: React.FC<ImageCardProps> = ({
+  image,
+  index,
+  isFocused,
+  annotations,
+  onAnnotate,
+  onRename,
+  onRoleChange,
+  onTagsChange,
+  onDelete,
+  onMove,
+  onOpen
+}) => {
+  /** Object URL of the card-sized thumbnail */
+  const imageUrl = useImageUrl(image, CARD_DISPLAY_SIZE);
   /** Whether the card is in rename mode */
   const [isRenaming, setIsRenaming] = useState<boolean>(false);
+  /** Whether another card is currently dragged over this one */
+  const [isDropTarget, setIsDropTarget] = useState<boolean>(false);
   /** Input value for the new name */
   const [newName, setNewName] = useState<string>(image.name);
+  /** Tags being edited, or null when not editing tags */
+  const [tagDraft, setTagDraft] = useState<string[] | null>(null);
 
   /**
-   * Creates an object URL from the blob and cleans up on unmount
+   * Saves the edited tags
    */
-  useEffect(() => {
-    const url = URL.createObjectURL(image.blob);
-    setImageUrl(url);
-
-    return () => {
-      URL.revokeObjectURL(url);
-    };
-  }, [image.blob]);
+  const handleSaveTags = async (): Promise<void> => {
+    if (tagDraft === null) return;
+    try {
+      await onTagsChange(image.id, tagDraft);
+      setTagDraft(null);
+    } catch {
+      // Reported by the gallery; keep editing so nothing typed is lost
+    }
+  };
 
   /**
    * Handles the rename operation
@@ -441,17 +850,142 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, onRename, onDelete }) => {
     setIsRenaming(false);
   };
 
+  /**
+   * Reorder drag handlers
+   */
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>): void => {
+    e.dataTransfer.setData(IMAGE_DRAG_TYPE, String(image.id));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>): void => {
+    if (!Array.from(e.dataTransfer.types).includes(IMAGE_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'move';
+    setIsDropTarget(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>): void => {
+    const draggedId = Number(e.dataTransfer.getData(IMAGE_DRAG_TYPE));
+    setIsDropTarget(false);
+    if (!draggedId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (draggedId !== image.id) {
+      onMove(draggedId, index);
+    }
+  };
+
   return (
-    <div className="card-surface overflow-hidden group/image relative">
+    <div
+      id={`image-card-${image.id}`}
+      className={`
+        card-surface overflow-hidden group/image relative transition-shadow
+        ${isDropTarget ? 'ring-2 ring-blue-500' : ''}
+        ${isFocused ? 'ring-4 ring-yellow-400' : ''}
+      `}
+      draggable={!isRenaming && tagDraft === null}
+      onDragStart={handleDragStart}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDropTarget(false)}
+      onDrop={handleDrop}
+    >
       {/* Image Container - Square aspect ratio */}
-      <div className="aspect-square overflow-hidden bg-black/20">
+      <div className="aspect-square overflow-hidden bg-black/20 relative">
         <img
           src={imageUrl}
           alt={image.name}
           className="w-full h-full object-cover transition-transform duration-200 group-hover/image:scale-105"
+          draggable={false}
+        />
+        <AnnotationOverlay
+          annotations={annotations}
+          className="w-full h-full object-cover transition-transform duration-200 group-hover/image:scale-105"
         />
+        {/* Action Buttons Overlay (shows on hover) */}
+        {!isRenaming && (
+          <div
+            className="absolute inset-0 bg-black/60 opacity-0 group-hover/image:opacity-100 transition-opacity flex flex-wrap items-center justify-center content-center gap-3 p-3 cursor-zoom-in"
+            onClick={(e) => {
+              // Clicks on the buttons do their own thing
+              if (e.target === e.currentTarget) onOpen(image.id);
+            }}
+          >
+            <button
+              onClick={() => setIsRenaming(true)}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              <svg
+                className="w-5 h-5 inline-block mr-2"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                />
+              </svg>
+              Rename
+            </button>
+            <button
+              onClick={() => onAnnotate(image.id)}
+              className="btn-outlined bg-black/40"
+            >
+              <svg
+                className="w-5 h-5 inline-block mr-2"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15.232 5.232l3.536 3.536M9 11l6.232-6.232a2.5 2.5 0 013.536 3.536L12.536 14.5 8 16l1.5-4.536z M4 20h16"
+                />
+              </svg>
+              Annotate
+            </button>
+            <button
+              onClick={() => onDelete(image.id, image.name)}
+              className="btn-danger"
+            >
+              <svg
+                className="w-5 h-5 inline-block mr-2"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                />
+              </svg>
+              Delete
+            </button>
+          </div>
+        )}
       </div>
 
+      {/* Palette Strip - segment widths follow each color's share */}
+      {image.palette && image.palette.length > 0 && (
+        <div className="flex h-2" aria-label="Dominant colors">
+          {image.palette.map((color) => (
+            <div
+              key={color.hex}
+              style={{ backgroundColor: color.hex, flexGrow: color.weight }}
+              title={color.hex}
+            />
+          ))}
+        </div>
+      )}
+
       {/* Image Info */}
       <div className="p-3">
         {isRenaming ? (
@@ -487,56 +1021,55 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, onRename, onDelete }) => {
             <p className="text-body-medium truncate" title={image.name}>
               {image.name}
             </p>
-            <p className="text-body-medium text-gray-500 text-xs mt-1">
-              {new Date(image.createdAt).toLocaleDateString()}
-            </p>
+            <div className="flex items-center justify-between gap-2 mt-1">
+              <p className="text-body-medium text-gray-500 text-xs">
+                {new Date(image.createdAt).toLocaleDateString()}
+              </p>
+              <select
+                value={image.role}
+                onChange={(e) => onRoleChange(image.id, e.target.value as ImageRole)}
+                className="bg-dark-hover border border-dark-border rounded text-xs text-gray-200 px-1.5 py-0.5"
+                aria-label="Image role"
+              >
+                {IMAGE_ROLES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Tags */}
+            {tagDraft !== null ? (
+              <div className="space-y-2 mt-2">
+                <TagInput tags={tagDraft} onChange={setTagDraft} autoFocus />
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleSaveTags}
+                    className="btn-success flex-1 px-2 py-1 text-xs"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => setTagDraft(null)}
+                    className="btn-outlined flex-1 px-2 py-1 text-xs"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setTagDraft(image.tags)}
+                className="block w-full text-left text-xs mt-1 truncate text-blue-300 hover:text-blue-200"
+                title={image.tags.length > 0 ? 'Edit tags' : 'Add tags'}
+              >
+                {image.tags.length > 0 ? image.tags.map((tag) => `#${tag}`).join(' ') : '+ Add tags'}
+              </button>
+            )}
           </>
         )}
       </div>
-
-      {/* Action Buttons Overlay (shows on hover) */}
-      {!isRenaming && (
-        <div className="absolute inset-0 bg-black/60 opacity-0 group-hover/image:opacity-100 transition-opacity flex items-center justify-center gap-3">
-          <button
-            onClick={() => setIsRenaming(true)}
-            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition-colors"
-          >
-            <svg
-              className="w-5 h-5 inline-block mr-2"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
-              />
-            </svg>
-            Rename
-          </button>
-          <button
-            onClick={() => onDelete(image.id, image.name)}
-            className="btn-danger"
-          >
-            <svg
-              className="w-5 h-5 inline-block mr-2"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-              />
-            </svg>
-            Delete
-          </button>
-        </div>
-      )}
     </div>
   );
 };
@@ -0,0 +1,409 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { ImageAnnotations, StoredImage } from '../services/db';
+import { imageRoleLabel } from '../services/plans';
+import { formatBytes } from '../services/storage';
+import { useImageUrl } from '../hooks/useImageUrl';
+import AnnotationOverlay from './AnnotationOverlay';
+
+/**
+ * Minimum horizontal travel of a swipe, in CSS pixels
+ */
+const SWIPE_DISTANCE = 50;
+
+/**
+ * Point of the image kept centered when switching to actual size,
+ * as fractions of its width and height
+ */
+interface ZoomFocus {
+  x: number;
+  y: number;
+}
+
+/**
+ * Props for Lightbox component
+ */
+interface LightboxProps {
+  /** Images that can be browsed, in display order */
+  images: StoredImage[];
+  /** Image currently shown */
+  image: StoredImage;
+  /** Annotations drawn over the image, or undefined if it has none or they are hidden */
+  annotations: ImageAnnotations | undefined;
+  /** Callback to show another image */
+  onNavigate: (imageId: number) => void;
+  /** Callback to close the lightbox */
+  onClose: () => void;
+  /** Callback to rename the image */
+  onRename: (imageId: number, newName: string) => Promise<void>;
+  /** Callback to delete the image, resolving to whether it was deleted */
+  onDelete: (imageId: number, imageName: string) => Promise<boolean>;
+}
+
+/**
+ * Lightbox Component
+ *
+ * Shows one image of a group full screen, at its original resolution.
+ *
+ * Features:
+ * - Previous / next with the arrow keys, the side buttons or a swipe
+ * - Click the image (or "100%") to toggle between fitting the screen and
+ *   actual pixel size, scrolling to the clicked point
+ * - Name, pixel dimensions, file size and role of the image
+ * - Rename and delete without leaving the lightbox
+ * - ESC to close
+ *
+ * @param props - Component props
+ * @returns The rendered lightbox
+ */
+const Lightbox: React.FC<LightboxProps> = ({
+  images,
+  image,
+  annotations,
+  onNavigate,
+  onClose,
+  onRename,
+  onDelete
+}) => {
+  /** Object URL of the original image */
+  const imageUrl = useImageUrl(image);
+  /** ID of the image the view state belongs to, to notice navigation */
+  const [shownImageId, setShownImageId] = useState<number>(image.id);
+  /** Pixel dimensions of the image, known once it has loaded */
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  /** Whether the image is shown at actual pixel size instead of fitted */
+  const [isActualSize, setIsActualSize] = useState<boolean>(false);
+  /** Whether the name is being edited */
+  const [isRenaming, setIsRenaming] = useState<boolean>(false);
+  /** Input value for the new name */
+  const [newName, setNewName] = useState<string>(image.name);
+  /** Scrollable stage, used to keep the clicked point in view when zooming */
+  const stageRef = useRef<HTMLDivElement>(null);
+  /** Point to scroll to after switching to actual size */
+  const zoomFocusRef = useRef<ZoomFocus | null>(null);
+  /** Where a swipe started */
+  const swipeStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  const position = images.findIndex((candidate) => candidate.id === image.id);
+  const previousImage = position > 0 ? images[position - 1] : null;
+  const nextImage = position >= 0 && position < images.length - 1 ? images[position + 1] : null;
+
+  /**
+   * Start every image fitted, with its own name; a rename of the shown
+   * image keeps the view
+   */
+  if (image.id !== shownImageId) {
+    setShownImageId(image.id);
+    setSize(null);
+    setIsActualSize(false);
+    setIsRenaming(false);
+    setNewName(image.name);
+  }
+
+  /**
+   * Navigate with the arrow keys and close with ESC
+   *
+   * Keys typed into the rename field are left alone.
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.target instanceof HTMLInputElement) return;
+
+      if (e.key === 'Escape') {
+        onClose();
+      } else if (e.key === 'ArrowLeft' && previousImage) {
+        e.preventDefault();
+        onNavigate(previousImage.id);
+      } else if (e.key === 'ArrowRight' && nextImage) {
+        e.preventDefault();
+        onNavigate(nextImage.id);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [previousImage, nextImage, onNavigate, onClose]);
+
+  /**
+   * Prevent body scroll while open, restoring the previous state
+   */
+  useEffect(() => {
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = previousOverflow;
+    };
+  }, []);
+
+  /**
+   * Scroll the clicked point to the center after switching to actual size
+   */
+  useLayoutEffect(() => {
+    const stage = stageRef.current;
+    const focus = zoomFocusRef.current;
+    if (!isActualSize || !stage || !focus) return;
+    zoomFocusRef.current = null;
+    stage.scrollLeft = focus.x * stage.scrollWidth - stage.clientWidth / 2;
+    stage.scrollTop = focus.y * stage.scrollHeight - stage.clientHeight / 2;
+  }, [isActualSize]);
+
+  /**
+   * Toggles actual size, keeping the clicked point in view
+   */
+  const handleImageClick = (e: React.MouseEvent<HTMLImageElement>): void => {
+    if (!size) return;
+    if (!isActualSize) {
+      const rect = e.currentTarget.getBoundingClientRect();
+      // Guard against zero dimensions before the image has loaded
+      if (rect.width > 0 && rect.height > 0) {
+        zoomFocusRef.current = {
+          x: (e.clientX - rect.left) / rect.width,
+          y: (e.clientY - rect.top) / rect.height
+        };
+      }
+    }
+    setIsActualSize((prev) => !prev);
+  };
+
+  /**
+   * Swipe handlers (touch and pen only; the mouse uses the buttons)
+   */
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>): void => {
+    if (e.pointerType === 'mouse' || isActualSize) return;
+    swipeStartRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>): void => {
+    const start = swipeStartRef.current;
+    swipeStartRef.current = null;
+    if (!start) return;
+
+    const deltaX = e.clientX - start.x;
+    const deltaY = e.clientY - start.y;
+    // Mostly horizontal and long enough to not be a tap
+    if (Math.abs(deltaX) < SWIPE_DISTANCE || Math.abs(deltaX) < Math.abs(deltaY) * 1.5) return;
+
+    const target = deltaX < 0 ? nextImage : previousImage;
+    if (target) {
+      onNavigate(target.id);
+    }
+  };
+
+  /**
+   * Handles the rename operation
+   */
+  const handleRename = async (): Promise<void> => {
+    const trimmedName = newName.trim();
+
+    if (!trimmedName) {
+      alert('Please enter a filename');
+      return;
+    }
+
+    if (trimmedName === image.name) {
+      setIsRenaming(false);
+      return;
+    }
+
+    try {
+      await onRename(image.id, trimmedName);
+      setIsRenaming(false);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert('Failed to rename image: ' + errorMessage);
+      setNewName(image.name);
+    }
+  };
+
+  /**
+   * Cancels the rename operation
+   */
+  const handleCancelRename = (): void => {
+    setNewName(image.name);
+    setIsRenaming(false);
+  };
+
+  /**
+   * Deletes the image and shows a neighbour, or closes if it was the last one
+   */
+  const handleDelete = async (): Promise<void> => {
+    const neighbour = nextImage ?? previousImage;
+    if (!(await onDelete(image.id, image.name))) return;
+
+    if (neighbour) {
+      onNavigate(neighbour.id);
+    } else {
+      onClose();
+    }
+  };
+
+  /**
+   * Size of the image at actual pixel size, in CSS pixels
+   *
+   * One image pixel per device pixel, so high-density screens show the
+   * image smaller than its pixel count in CSS pixels.
+   */
+  const actualSizeStyle: React.CSSProperties | undefined = isActualSize && size
+    ? {
+      width: size.width / window.devicePixelRatio,
+      height: size.height / window.devicePixelRatio
+    }
+    : undefined;
+
+  /** Details shown below the name */
+  const details = [
+    size ? `${size.width} × ${size.height} px` : null,
+    formatBytes(image.blob.size),
+    imageRoleLabel(image.role)
+  ].filter((detail): detail is string => detail !== null);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/95 z-50 flex flex-col"
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Image ${image.name}`}
+    >
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-4 px-4 py-3">
+        <p className="text-body-medium text-gray-300">
+          {position + 1} / {images.length}
+        </p>
+
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          <button
+            onClick={() => setIsActualSize((prev) => !prev)}
+            className="btn-text"
+            disabled={!size}
+            aria-pressed={isActualSize}
+            title={isActualSize ? 'Fit to screen' : 'Show at actual pixel size'}
+          >
+            {isActualSize ? 'Fit' : '100%'}
+          </button>
+          <button onClick={() => setIsRenaming(true)} className="btn-text" disabled={isRenaming}>
+            Rename
+          </button>
+          <button onClick={handleDelete} className="btn-text text-red-400 hover:text-red-300">
+            Delete
+          </button>
+          <button
+            onClick={onClose}
+            className="btn-text p-2 hover:bg-white/10 rounded-lg"
+            aria-label="Close lightbox"
+          >
+            <svg
+              className="w-6 h-6"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Stage */}
+      <div className="relative flex-1 min-h-0">
+        <div
+          ref={stageRef}
+          className={`absolute inset-0 ${isActualSize ? 'overflow-auto flex' : 'overflow-hidden'}`}
+          onPointerDown={handlePointerDown}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => { swipeStartRef.current = null; }}
+          // Swipes navigate while fitted; actual size scrolls natively
+          style={{ touchAction: isActualSize ? 'auto' : 'pinch-zoom' }}
+        >
+          {isActualSize ? (
+            <div className="relative m-auto shrink-0" style={actualSizeStyle}>
+              <img
+                src={imageUrl}
+                alt={image.name}
+                className="block w-full h-full max-w-none cursor-zoom-out"
+                onClick={handleImageClick}
+                draggable={false}
+              />
+              <AnnotationOverlay annotations={annotations} className="w-full h-full" />
+            </div>
+          ) : (
+            <div className="absolute inset-0 p-4">
+              <div className="relative w-full h-full">
+                <img
+                  src={imageUrl}
+                  alt={image.name}
+                  className="w-full h-full object-contain cursor-zoom-in select-none"
+                  onClick={handleImageClick}
+                  onLoad={(e) => setSize({
+                    width: e.currentTarget.naturalWidth,
+                    height: e.currentTarget.naturalHeight
+                  })}
+                  draggable={false}
+                />
+                <AnnotationOverlay annotations={annotations} className="w-full h-full object-contain" />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Previous / Next */}
+        {previousImage && (
+          <button
+            onClick={() => onNavigate(previousImage.id)}
+            className="absolute left-3 top-1/2 -translate-y-1/2 w-12 h-12 rounded-full bg-black/50 hover:bg-black/80 text-white text-2xl transition-colors"
+            aria-label="Previous image"
+          >
+            ‹
+          </button>
+        )}
+        {nextImage && (
+          <button
+            onClick={() => onNavigate(nextImage.id)}
+            className="absolute right-3 top-1/2 -translate-y-1/2 w-12 h-12 rounded-full bg-black/50 hover:bg-black/80 text-white text-2xl transition-colors"
+            aria-label="Next image"
+          >
+            ›
+          </button>
+        )}
+      </div>
+
+      {/* Image Info */}
+      <div className="px-4 py-3 text-center">
+        {isRenaming ? (
+          <div className="flex flex-wrap items-center justify-center gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleRename();
+                if (e.key === 'Escape') handleCancelRename();
+              }}
+              className="input-base text-sm max-w-sm"
+              aria-label="Image name"
+              autoFocus
+            />
+            <button onClick={handleRename} className="btn-success px-3 py-1 text-sm">
+              Save
+            </button>
+            <button onClick={handleCancelRename} className="btn-outlined px-3 py-1 text-sm">
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <p className="text-title-medium truncate" title={image.name}>
+            {image.name}
+          </p>
+        )}
+        <p className="text-body-medium text-gray-400 mt-1">
+          {details.join(' · ')}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default Lightbox;
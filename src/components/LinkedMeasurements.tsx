@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import type { LengthUnit } from '../services/db';
+import { useMeasurements } from '../contexts/ImageGalleryContext';
+import {
+  formatMeasurement,
+  getCurrentRevision,
+  listMeasurements,
+  measurementLabel
+} from '../services/measurements';
+import { formatCalendarDate } from '../services/plans';
+
+/**
+ * LinkedMeasurements Component
+ *
+ * Current measurements of the profile linked to the selected group,
+ * shown above the group's images so they are at hand while working
+ * from the references. Renders nothing when no profile is linked.
+ *
+ * Features:
+ * - Date of the measurements and the revision note
+ * - Switch between cm and inches for this view (the profile's unit is the default)
+ *
+ * @returns The rendered measurements card, or null
+ */
+const LinkedMeasurements: React.FC = () => {
+  const { groups, selectedGroupId, measurementProfiles } = useMeasurements();
+
+  const group = groups.find((item) => item.id === selectedGroupId);
+  const profile = measurementProfiles.find((item) => item.id === group?.measurementProfileId);
+
+  /** Unit shown, or null to use the profile's unit */
+  const [unit, setUnit] = useState<LengthUnit | null>(null);
+
+  /**
+   * Go back to the profile's unit when another profile is shown
+   */
+  useEffect(() => {
+    setUnit(null);
+  }, [profile?.id]);
+
+  if (!profile) return null;
+
+  const displayUnit = unit ?? profile.unit;
+  const revision = getCurrentRevision(profile);
+  const measurements = revision ? listMeasurements(revision.values) : [];
+
+  return (
+    <div className="card-standard mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <div>
+          <h3 className="text-title-large">Measurements: {profile.name}</h3>
+          {revision && (
+            <p className="text-body-medium text-xs mt-1">
+              Taken {formatCalendarDate(revision.date)}
+              {revision.note && ` • ${revision.note}`}
+            </p>
+          )}
+        </div>
+        <div className="flex gap-1" role="group" aria-label="Unit">
+          {(['cm', 'in'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setUnit(option)}
+              aria-pressed={displayUnit === option}
+              className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                displayUnit === option
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-dark-surface border border-dark-border text-gray-300 hover:bg-dark-hover'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {measurements.length === 0 ? (
+        <p className="text-body-medium">No measurements recorded for {profile.name} yet.</p>
+      ) : (
+        <dl className="grid gap-x-6 gap-y-2 grid-cols-2 sm:grid-cols-3 md:grid-cols-5">
+          {measurements.map(({ key, cm }) => (
+            <div key={key}>
+              <dt className="text-label-large text-xs">{measurementLabel(key)}</dt>
+              <dd className="text-title-medium">{formatMeasurement(cm, displayUnit)}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+};
+
+export default LinkedMeasurements;
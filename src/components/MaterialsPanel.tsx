@@ -0,0 +1,478 @@
+import { useState } from 'react';
+import type { MaterialInput, MaterialItem, StoredImage } from '../services/db';
+import { useMaterials } from '../contexts/ImageGalleryContext';
+import { useImageUrl } from '../hooks/useImageUrl';
+import { downloadBlob } from '../services/backup';
+import { formatCost, getMaterialTotals, itemCost, materialsToCsv } from '../services/materials';
+import { pickGroupDetails } from '../services/plans';
+
+/**
+ * Longest edge of a linked reference image thumbnail in CSS pixels
+ */
+const MATERIAL_THUMBNAIL_SIZE = 48;
+
+/**
+ * Values of a new, empty item
+ */
+const EMPTY_ITEM: MaterialInput = {
+  name: '',
+  quantity: 1,
+  unitCost: 0,
+  vendorNote: '',
+  purchased: false,
+  imageId: null
+};
+
+/**
+ * MaterialsPanel Component
+ *
+ * Materials / shopping list of the selected costume plan (group),
+ * with running totals compared against the group's budget.
+ * Renders nothing while no group is selected.
+ *
+ * Features:
+ * - Add, edit and delete items (name, quantity, unit cost, vendor note)
+ * - Mark items as purchased
+ * - Link an item to a reference image of the group
+ * - Budget with total / purchased / remaining / budget left
+ * - Export the list as CSV
+ *
+ * @returns The rendered materials section, or null
+ */
+const MaterialsPanel: React.FC = () => {
+  const {
+    selectedGroup,
+    images,
+    materials,
+    addMaterialItem,
+    updateMaterialItem,
+    deleteMaterialItem,
+    updateExistingGroupDetails,
+  } = useMaterials();
+
+  /** Values of the add-item form */
+  const [newItem, setNewItem] = useState<MaterialInput>(EMPTY_ITEM);
+  /** Budget input value while it is being edited */
+  const [budgetInput, setBudgetInput] = useState<string | null>(null);
+
+  if (!selectedGroup) return null;
+
+  const totals = getMaterialTotals(materials, selectedGroup.budget);
+  const budgetUsedRatio = selectedGroup.budget ? totals.total / selectedGroup.budget : 0;
+
+  /**
+   * Runs a materials action and reports failures
+   */
+  const runAction = async (action: () => Promise<void>, failureMessage: string): Promise<void> => {
+    try {
+      await action();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(failureMessage + ': ' + errorMessage);
+    }
+  };
+
+  /**
+   * Adds the item from the form and resets it
+   */
+  const handleAddItem = async (): Promise<void> => {
+    const name = newItem.name.trim();
+    if (!name) {
+      alert('Please enter an item name');
+      return;
+    }
+
+    await runAction(async () => {
+      await addMaterialItem({ ...newItem, name, vendorNote: newItem.vendorNote.trim() });
+      setNewItem(EMPTY_ITEM);
+    }, 'Failed to add item');
+  };
+
+  /**
+   * Saves the edited budget (empty input removes the budget)
+   */
+  const handleSaveBudget = async (): Promise<void> => {
+    if (budgetInput === null) return;
+    const budget = budgetInput.trim() === '' ? null : Math.max(0, Number(budgetInput));
+    setBudgetInput(null);
+    if (budget === selectedGroup.budget || Number.isNaN(budget)) return;
+
+    await runAction(
+      () => updateExistingGroupDetails(selectedGroup.id, { ...pickGroupDetails(selectedGroup), budget }),
+      'Failed to save budget'
+    );
+  };
+
+  /**
+   * Downloads the list as a CSV file
+   */
+  const handleExportCsv = (): void => {
+    const csv = materialsToCsv(materials, images, selectedGroup.budget);
+    const safeName = selectedGroup.name.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'plan';
+    downloadBlob(csv, `${safeName}-materials.csv`);
+  };
+
+  return (
+    <section className="mt-8">
+      {/* Section Header */}
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-display-small">Materials</h2>
+          <p className="text-body-medium mt-1">
+            {materials.length} {materials.length === 1 ? 'item' : 'items'} for {selectedGroup.name}
+          </p>
+        </div>
+        <button
+          onClick={handleExportCsv}
+          disabled={materials.length === 0}
+          className="btn-outlined"
+        >
+          Export CSV
+        </button>
+      </div>
+
+      {/* Budget & Totals */}
+      <div className="card-standard mb-6">
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-5 items-end">
+          <label className="block col-span-2 md:col-span-1">
+            <span className="text-label-large block mb-1">Budget</span>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={budgetInput ?? (selectedGroup.budget ?? '')}
+              onChange={(e) => setBudgetInput(e.target.value)}
+              onBlur={handleSaveBudget}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              placeholder="No budget"
+              className="input-base"
+            />
+          </label>
+          <TotalFigure label="Total" amount={totals.total} />
+          <TotalFigure label="Purchased" amount={totals.purchased} />
+          <TotalFigure label="Still to buy" amount={totals.remaining} />
+          {totals.budgetLeft !== null && (
+            <TotalFigure
+              label={totals.budgetLeft < 0 ? 'Over budget' : 'Budget left'}
+              amount={Math.abs(totals.budgetLeft)}
+              isWarning={totals.budgetLeft < 0}
+            />
+          )}
+        </div>
+        {selectedGroup.budget !== null && selectedGroup.budget > 0 && (
+          <div className="h-2 rounded-full bg-dark-hover overflow-hidden mt-4">
+            <div
+              className={`h-full ${budgetUsedRatio > 1 ? 'bg-red-500' : 'bg-green-500'}`}
+              style={{ width: `${Math.min(100, budgetUsedRatio * 100)}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Add Item Form */}
+      <div className="card-standard mb-6">
+        <h3 className="text-title-large mb-4">Add Item</h3>
+        <MaterialFields
+          values={newItem}
+          images={images}
+          onChange={(changes) => setNewItem((prev) => ({ ...prev, ...changes }))}
+          onSubmit={handleAddItem}
+        />
+        <button onClick={handleAddItem} className="btn-filled w-full mt-3">
+          + Add Item
+        </button>
+      </div>
+
+      {/* Item List */}
+      {materials.length === 0 ? (
+        <div className="card-standard text-center">
+          <p className="text-body-medium">
+            No materials yet. Add fabrics, wigs, props and anything else this costume needs.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {materials.map((item) => (
+            <MaterialRow
+              key={item.id}
+              item={item}
+              images={images}
+              onUpdate={(changes) => runAction(() => updateMaterialItem(item.id, changes), 'Failed to update item')}
+              onDelete={() => {
+                if (window.confirm(`Delete "${item.name}" from the materials list?`)) {
+                  runAction(() => deleteMaterialItem(item.id), 'Failed to delete item');
+                }
+              }}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+/**
+ * Props for the TotalFigure component
+ */
+interface TotalFigureProps {
+  /** Caption above the amount */
+  label: string;
+  /** Amount to show */
+  amount: number;
+  /** Whether to highlight the amount as a warning */
+  isWarning?: boolean;
+}
+
+/**
+ * TotalFigure Component
+ *
+ * A labelled amount in the totals row.
+ *
+ * @param props - Component props
+ * @returns The rendered figure
+ */
+const TotalFigure: React.FC<TotalFigureProps> = ({ label, amount, isWarning = false }) => {
+  return (
+    <div>
+      <p className="text-body-medium">{label}</p>
+      <p className={`text-title-large ${isWarning ? 'text-red-400' : ''}`}>{formatCost(amount)}</p>
+    </div>
+  );
+};
+
+/**
+ * Props for the MaterialFields component
+ */
+interface MaterialFieldsProps {
+  /** Current field values */
+  values: MaterialInput;
+  /** Images of the group that can be linked */
+  images: StoredImage[];
+  /** Callback with the changed fields */
+  onChange: (changes: Partial<MaterialInput>) => void;
+  /** Callback when Enter is pressed in a text field */
+  onSubmit: () => void;
+}
+
+/**
+ * MaterialFields Component
+ *
+ * Input fields of a material item, shared by the add form and row editing.
+ *
+ * @param props - Component props
+ * @returns The rendered fields
+ */
+const MaterialFields: React.FC<MaterialFieldsProps> = ({ values, images, onChange, onSubmit }) => {
+  const submitOnEnter = (e: React.KeyboardEvent): void => {
+    if (e.key === 'Enter') onSubmit();
+  };
+
+  return (
+    <div className="grid gap-3 grid-cols-2 md:grid-cols-6">
+      <input
+        type="text"
+        value={values.name}
+        onChange={(e) => onChange({ name: e.target.value })}
+        onKeyDown={submitOnEnter}
+        placeholder="Item (e.g. Blue satin)"
+        className="input-base col-span-2"
+        aria-label="Item name"
+      />
+      <input
+        type="number"
+        min={0}
+        step="any"
+        value={values.quantity}
+        onChange={(e) => onChange({ quantity: Math.max(0, Number(e.target.value)) })}
+        onKeyDown={submitOnEnter}
+        className="input-base"
+        aria-label="Quantity"
+        title="Quantity"
+      />
+      <input
+        type="number"
+        min={0}
+        step="0.01"
+        value={values.unitCost}
+        onChange={(e) => onChange({ unitCost: Math.max(0, Number(e.target.value)) })}
+        onKeyDown={submitOnEnter}
+        className="input-base"
+        aria-label="Unit cost"
+        title="Unit cost"
+      />
+      <input
+        type="text"
+        value={values.vendorNote}
+        onChange={(e) => onChange({ vendorNote: e.target.value })}
+        onKeyDown={submitOnEnter}
+        placeholder="Vendor / notes"
+        className="input-base col-span-2 md:col-span-1"
+        aria-label="Vendor note"
+      />
+      <select
+        value={values.imageId ?? ''}
+        onChange={(e) => onChange({ imageId: e.target.value === '' ? null : Number(e.target.value) })}
+        className="input-base col-span-2 md:col-span-1"
+        aria-label="Reference image"
+      >
+        <option value="">No image</option>
+        {images.map((image) => (
+          <option key={image.id} value={image.id}>
+            {image.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+/**
+ * Props for the MaterialRow component
+ */
+interface MaterialRowProps {
+  /** The item to show */
+  item: MaterialItem;
+  /** Images of the group (to show the linked reference image) */
+  images: StoredImage[];
+  /** Callback with changed fields */
+  onUpdate: (changes: Partial<MaterialInput>) => Promise<void>;
+  /** Callback when delete is requested */
+  onDelete: () => void;
+}
+
+/**
+ * MaterialRow Component
+ *
+ * One item of the materials list, with a purchased checkbox and
+ * inline editing.
+ *
+ * @param props - Component props
+ * @returns The rendered row
+ */
+const MaterialRow: React.FC<MaterialRowProps> = ({ item, images, onUpdate, onDelete }) => {
+  /** Whether the row is in edit mode */
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  /** Field values while editing */
+  const [draft, setDraft] = useState<MaterialInput>(item);
+
+  /** Linked image, if it still exists in the group */
+  const linkedImage = images.find((image) => image.id === item.imageId);
+
+  /**
+   * Saves the edited fields
+   */
+  const handleSave = async (): Promise<void> => {
+    const name = draft.name.trim();
+    if (!name) {
+      alert('Please enter an item name');
+      return;
+    }
+    await onUpdate({
+      name,
+      quantity: draft.quantity,
+      unitCost: draft.unitCost,
+      vendorNote: draft.vendorNote.trim(),
+      imageId: draft.imageId
+    });
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="card-standard space-y-3">
+        <MaterialFields
+          values={draft}
+          images={images}
+          onChange={(changes) => setDraft((prev) => ({ ...prev, ...changes }))}
+          onSubmit={handleSave}
+        />
+        <div className="flex gap-2">
+          <button onClick={handleSave} className="btn-success flex-1 px-2 py-1 text-xs">
+            Save
+          </button>
+          <button
+            onClick={() => {
+              setDraft(item);
+              setIsEditing(false);
+            }}
+            className="btn-outlined flex-1 px-2 py-1 text-xs"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card-standard flex items-center gap-4">
+      <input
+        type="checkbox"
+        checked={item.purchased}
+        onChange={(e) => onUpdate({ purchased: e.target.checked })}
+        className="w-5 h-5 flex-shrink-0 accent-green-500"
+        aria-label={`Mark "${item.name}" as purchased`}
+      />
+
+      {linkedImage && <MaterialThumbnail image={linkedImage} />}
+
+      <div className="flex-1 min-w-0">
+        <p className={`text-title-medium truncate ${item.purchased ? 'line-through text-gray-500' : ''}`} title={item.name}>
+          {item.name}
+        </p>
+        <p className="text-body-medium truncate" title={item.vendorNote}>
+          {item.quantity} × {formatCost(item.unitCost)}
+          {item.vendorNote && <> • {item.vendorNote}</>}
+        </p>
+      </div>
+
+      <p className="text-title-medium flex-shrink-0">{formatCost(itemCost(item))}</p>
+
+      <div className="flex gap-2 flex-shrink-0">
+        <button
+          onClick={() => {
+            setDraft(item);
+            setIsEditing(true);
+          }}
+          className="btn-outlined px-3 py-1.5 text-xs"
+        >
+          Edit
+        </button>
+        <button onClick={onDelete} className="btn-danger px-3 py-1.5 text-xs">
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Props for the MaterialThumbnail component
+ */
+interface MaterialThumbnailProps {
+  /** The linked reference image */
+  image: StoredImage;
+}
+
+/**
+ * MaterialThumbnail Component
+ *
+ * Small thumbnail of an item's linked reference image.
+ *
+ * @param props - Component props
+ * @returns The rendered thumbnail
+ */
+const MaterialThumbnail: React.FC<MaterialThumbnailProps> = ({ image }) => {
+  const imageUrl = useImageUrl(image, MATERIAL_THUMBNAIL_SIZE);
+
+  return (
+    <img
+      src={imageUrl}
+      alt={image.name}
+      title={image.name}
+      className="w-12 h-12 object-cover rounded flex-shrink-0 bg-black/20"
+    />
+  );
+};
+
+export default MaterialsPanel;
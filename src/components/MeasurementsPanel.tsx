@@ -0,0 +1,490 @@
+import { useState } from 'react';
+import type {
+  ImageGroup,
+  LengthUnit,
+  MeasurementKey,
+  MeasurementProfile,
+  MeasurementRevision,
+  MeasurementValues,
+  ProfileInput
+} from '../services/db';
+import { useMeasurements } from '../contexts/ImageGalleryContext';
+import {
+  formatMeasurement,
+  fromCentimeters,
+  getCurrentRevision,
+  getRevisionChanges,
+  LENGTH_UNITS,
+  MEASUREMENT_FIELDS,
+  measurementLabel,
+  toCentimeters
+} from '../services/measurements';
+import { formatCalendarDate, todayKey } from '../services/plans';
+
+/**
+ * Entered measurement values as typed, in the profile's unit
+ */
+type MeasurementDraft = Partial<Record<MeasurementKey, string>>;
+
+/**
+ * Turns stored values into form values in a unit
+ *
+ * @param values - Values in cm
+ * @param unit - Unit of the form
+ * @returns The form values
+ */
+const toDraft = (values: MeasurementValues, unit: LengthUnit): MeasurementDraft => {
+  const draft: MeasurementDraft = {};
+  MEASUREMENT_FIELDS.forEach(({ value: key }) => {
+    const cm = values[key];
+    if (cm !== undefined) draft[key] = String(fromCentimeters(cm, unit));
+  });
+  return draft;
+};
+
+/**
+ * Turns form values into stored values
+ *
+ * Empty fields are left out.
+ *
+ * @param draft - The form values
+ * @param unit - Unit the values were entered in
+ * @returns Values in cm, or an error message for an invalid field
+ */
+const fromDraft = (draft: MeasurementDraft, unit: LengthUnit): MeasurementValues | string => {
+  const values: MeasurementValues = {};
+  for (const { value: key, label } of MEASUREMENT_FIELDS) {
+    const text = draft[key]?.trim();
+    if (!text) continue;
+    const number = Number(text.replace(',', '.'));
+    if (!Number.isFinite(number) || number <= 0) return `Please enter a positive number for ${label}`;
+    values[key] = toCentimeters(number, unit);
+  }
+  return values;
+};
+
+/**
+ * MeasurementsPanel Component
+ *
+ * Body measurement profiles, one per person (e.g. each team member),
+ * with a dated history of their measurements. Costume plans link to a
+ * profile in their plan details.
+ *
+ * Features:
+ * - Add, rename and delete profiles
+ * - Enter measurements in cm or inches (stored in cm, converted on display)
+ * - Save measurements as a dated revision and review what changed over time
+ * - See and open the plans linked to a profile
+ *
+ * @returns The rendered measurements section
+ */
+const MeasurementsPanel: React.FC = () => {
+  const {
+    groups,
+    measurementProfiles,
+    selectGroup,
+    createNewProfile,
+    updateExistingProfile,
+    saveProfileRevision,
+    deleteProfileRevision,
+    deleteExistingProfile,
+  } = useMeasurements();
+
+  /** Values of the add-profile form */
+  const [newProfile, setNewProfile] = useState<ProfileInput>({ name: '', unit: 'cm' });
+  /** Profile shown in the editor, or null for the first one */
+  const [activeProfileId, setActiveProfileId] = useState<number | null>(null);
+
+  const activeProfile = measurementProfiles.find((profile) => profile.id === activeProfileId)
+    ?? measurementProfiles[0]
+    ?? null;
+
+  /**
+   * Runs a profile action and reports failures
+   */
+  const runAction = async (action: () => Promise<void>, failureMessage: string): Promise<void> => {
+    try {
+      await action();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(failureMessage + ': ' + errorMessage);
+    }
+  };
+
+  /**
+   * Adds the profile from the form, shows it and resets the form
+   */
+  const handleAddProfile = async (): Promise<void> => {
+    const name = newProfile.name.trim();
+    if (!name) {
+      alert('Please enter a name');
+      return;
+    }
+
+    await runAction(async () => {
+      setActiveProfileId(await createNewProfile({ ...newProfile, name }));
+      setNewProfile((prev) => ({ ...prev, name: '' }));
+    }, 'Failed to add profile');
+  };
+
+  return (
+    <section className="mt-8">
+      {/* Section Header */}
+      <div className="mb-6">
+        <h2 className="text-display-small">Measurements</h2>
+        <p className="text-body-medium mt-1">
+          {measurementProfiles.length} {measurementProfiles.length === 1 ? 'profile' : 'profiles'}
+        </p>
+      </div>
+
+      {/* Add Profile Form */}
+      <div className="card-standard mb-6">
+        <h3 className="text-title-large mb-4">Add Profile</h3>
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="text"
+            value={newProfile.name}
+            onChange={(e) => setNewProfile((prev) => ({ ...prev, name: e.target.value }))}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddProfile()}
+            placeholder="Name (e.g. a team member)"
+            className="input-base flex-1 min-w-[12rem]"
+            aria-label="Profile name"
+          />
+          <select
+            value={newProfile.unit}
+            onChange={(e) => setNewProfile((prev) => ({ ...prev, unit: e.target.value as LengthUnit }))}
+            className="input-base w-auto"
+            aria-label="Unit"
+          >
+            {LENGTH_UNITS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button onClick={handleAddProfile} className="btn-filled">
+            + Add Profile
+          </button>
+        </div>
+      </div>
+
+      {!activeProfile ? (
+        <div className="card-standard text-center">
+          <p className="text-body-medium">
+            No profiles yet. Add one per person to keep their measurements at hand.
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Profile Tabs */}
+          {measurementProfiles.length > 1 && (
+            <div className="flex flex-wrap gap-2 mb-4" role="tablist" aria-label="Measurement profiles">
+              {measurementProfiles.map((profile) => {
+                const isActive = profile.id === activeProfile.id;
+                return (
+                  <button
+                    key={profile.id}
+                    role="tab"
+                    aria-selected={isActive}
+                    onClick={() => setActiveProfileId(profile.id)}
+                    className={`px-4 py-1.5 rounded-full text-sm transition-colors ${
+                      isActive
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-dark-surface border border-dark-border text-gray-300 hover:bg-dark-hover'
+                    }`}
+                  >
+                    {profile.name}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <ProfileEditor
+            key={activeProfile.id}
+            profile={activeProfile}
+            linkedGroups={groups.filter((group) => group.measurementProfileId === activeProfile.id)}
+            onSelectGroup={selectGroup}
+            onUpdate={(changes) => runAction(
+              () => updateExistingProfile(activeProfile.id, changes),
+              'Failed to update profile'
+            )}
+            onSaveRevision={(revision) => runAction(
+              () => saveProfileRevision(activeProfile.id, revision),
+              'Failed to save measurements'
+            )}
+            onDeleteRevision={(date) => {
+              if (window.confirm(`Delete the measurements of ${formatCalendarDate(date)}?`)) {
+                runAction(() => deleteProfileRevision(activeProfile.id, date), 'Failed to delete measurements');
+              }
+            }}
+            onDelete={() => {
+              if (window.confirm(`Delete the profile "${activeProfile.name}" and its history? Linked plans are kept.`)) {
+                runAction(async () => {
+                  await deleteExistingProfile(activeProfile.id);
+                  setActiveProfileId(null);
+                }, 'Failed to delete profile');
+              }
+            }}
+          />
+        </>
+      )}
+    </section>
+  );
+};
+
+/**
+ * Props for the ProfileEditor component
+ */
+interface ProfileEditorProps {
+  /** The profile to edit */
+  profile: MeasurementProfile;
+  /** Non-trashed groups linked to the profile */
+  linkedGroups: ImageGroup[];
+  /** Callback to open a linked plan */
+  onSelectGroup: (groupId: number) => void;
+  /** Callback with a changed name or unit */
+  onUpdate: (changes: Partial<ProfileInput>) => Promise<void>;
+  /** Callback to save a revision (values in cm) */
+  onSaveRevision: (revision: MeasurementRevision) => Promise<void>;
+  /** Callback when deleting a revision is requested */
+  onDeleteRevision: (date: string) => void;
+  /** Callback when deleting the profile is requested */
+  onDelete: () => void;
+}
+
+/**
+ * ProfileEditor Component
+ *
+ * Name, unit, current measurements and revision history of one profile.
+ * The form starts from the current measurements, so a new revision only
+ * needs the values that changed.
+ *
+ * @param props - Component props
+ * @returns The rendered editor
+ */
+const ProfileEditor: React.FC<ProfileEditorProps> = ({
+  profile,
+  linkedGroups,
+  onSelectGroup,
+  onUpdate,
+  onSaveRevision,
+  onDeleteRevision,
+  onDelete
+}) => {
+  const current = getCurrentRevision(profile);
+
+  /** Name input value while it is being edited */
+  const [nameInput, setNameInput] = useState<string | null>(null);
+  /** Measurement form values, in the profile's unit */
+  const [draft, setDraft] = useState<MeasurementDraft>(() => toDraft(current?.values ?? {}, profile.unit));
+  /** Date of the revision to save */
+  const [date, setDate] = useState<string>(todayKey);
+  /** Note of the revision to save */
+  const [note, setNote] = useState<string>('');
+
+  /** Revision and unit the form was last filled from */
+  const [draftSource, setDraftSource] = useState<string>(
+    () => `${current?.date}|${profile.updatedAt}|${profile.unit}`
+  );
+
+  /**
+   * Refills the form when the current measurements or the unit change
+   * (a save here or in another tab, a deleted revision)
+   */
+  const source = `${current?.date}|${profile.updatedAt}|${profile.unit}`;
+  if (source !== draftSource) {
+    setDraftSource(source);
+    setDraft(toDraft(current?.values ?? {}, profile.unit));
+  }
+
+  /**
+   * Saves the edited name
+   */
+  const handleSaveName = async (): Promise<void> => {
+    if (nameInput === null) return;
+    const name = nameInput.trim();
+    setNameInput(null);
+    if (name && name !== profile.name) {
+      await onUpdate({ name });
+    }
+  };
+
+  /**
+   * Saves the form as a revision of the chosen date
+   */
+  const handleSaveRevision = async (): Promise<void> => {
+    const values = fromDraft(draft, profile.unit);
+    if (typeof values === 'string') {
+      alert(values);
+      return;
+    }
+    if (Object.keys(values).length === 0) {
+      alert('Please enter at least one measurement');
+      return;
+    }
+    if (!date) {
+      alert('Please choose the date the measurements were taken');
+      return;
+    }
+    if (
+      profile.revisions.some((revision) => revision.date === date) &&
+      !window.confirm(`Replace the measurements of ${formatCalendarDate(date)}?`)
+    ) {
+      return;
+    }
+
+    await onSaveRevision({ date, values, note: note.trim() });
+    setNote('');
+  };
+
+  return (
+    <div className="card-standard space-y-6">
+      {/* Name, Unit & Delete */}
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="block flex-1 min-w-[12rem]">
+          <span className="text-label-large block mb-1">Name</span>
+          <input
+            type="text"
+            value={nameInput ?? profile.name}
+            onChange={(e) => setNameInput(e.target.value)}
+            onBlur={handleSaveName}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            className="input-base"
+          />
+        </label>
+        <label className="block">
+          <span className="text-label-large block mb-1">Unit</span>
+          <select
+            value={profile.unit}
+            onChange={(e) => onUpdate({ unit: e.target.value as LengthUnit })}
+            className="input-base w-auto"
+          >
+            {LENGTH_UNITS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button onClick={onDelete} className="btn-danger">
+          Delete Profile
+        </button>
+      </div>
+
+      {/* Linked Plans */}
+      <div>
+        <p className="text-label-large mb-2">Linked plans</p>
+        {linkedGroups.length === 0 ? (
+          <p className="text-body-medium text-xs">
+            None yet. Link a plan to this profile in its plan details.
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {linkedGroups.map((group) => (
+              <button
+                key={group.id}
+                onClick={() => onSelectGroup(group.id)}
+                className="px-3 py-1 rounded-full text-sm bg-dark-hover border border-dark-border text-gray-200 hover:bg-dark-border"
+              >
+                {group.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Measurement Form */}
+      <div>
+        <h3 className="text-title-large mb-4">
+          {current ? 'Update Measurements' : 'First Measurements'}
+        </h3>
+        <div className="grid gap-3 grid-cols-2 sm:grid-cols-3 md:grid-cols-4">
+          {MEASUREMENT_FIELDS.map((field) => (
+            <label key={field.value} className="block" title={field.hint}>
+              <span className="text-label-large block mb-1">
+                {field.label} ({profile.unit})
+              </span>
+              <input
+                type="number"
+                min={0}
+                step="0.1"
+                value={draft[field.value] ?? ''}
+                onChange={(e) => setDraft((prev) => ({ ...prev, [field.value]: e.target.value }))}
+                placeholder="—"
+                className="input-base"
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-3 mt-4">
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="input-base w-auto"
+            aria-label="Date measured"
+            title="Date measured"
+          />
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="input-base flex-1 min-w-[12rem]"
+            aria-label="Note"
+          />
+          <button onClick={handleSaveRevision} className="btn-success">
+            Save Measurements
+          </button>
+        </div>
+      </div>
+
+      {/* Revision History */}
+      {profile.revisions.length > 0 && (
+        <div>
+          <h3 className="text-title-large mb-3">History</h3>
+          <ul className="space-y-2">
+            {profile.revisions
+              .map((revision, index) => ({
+                revision,
+                changes: getRevisionChanges(profile.revisions[index - 1] ?? null, revision)
+              }))
+              .reverse()
+              .map(({ revision, changes }) => (
+                <li key={revision.date} className="card-compact bg-dark-hover flex items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-title-medium">
+                      {formatCalendarDate(revision.date)}
+                      {revision.note && (
+                        <span className="text-body-medium"> • {revision.note}</span>
+                      )}
+                    </p>
+                    <p className="text-body-medium text-xs mt-1">
+                      {changes.length === 0
+                        ? 'No changes'
+                        : changes.map(({ key, from, to }) => {
+                          const label = measurementLabel(key);
+                          if (from === undefined) return `${label} ${formatMeasurement(to as number, profile.unit)}`;
+                          if (to === undefined) return `${label} removed`;
+                          return `${label} ${formatMeasurement(from, profile.unit)} → ${formatMeasurement(to, profile.unit)}`;
+                        }).join(' • ')}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onDeleteRevision(revision.date)}
+                    className="text-gray-400 hover:text-red-400"
+                    aria-label={`Delete measurements of ${formatCalendarDate(revision.date)}`}
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MeasurementsPanel;
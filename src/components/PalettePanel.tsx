@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { usePalette } from '../contexts/ImageGalleryContext';
+import { aggregatePalettes, contrastingTextColor } from '../services/palette';
+
+/**
+ * How long the "Copied" confirmation stays on a swatch, in milliseconds
+ */
+const COPIED_FEEDBACK_MS = 1500;
+
+/**
+ * PalettePanel Component
+ *
+ * Combined color palette of the selected costume plan (group), built
+ * from the dominant colors of its images. Renders nothing while no
+ * group is selected.
+ *
+ * Features:
+ * - Swatches with hex codes, most dominant first
+ * - Click a swatch to copy its hex code; copy all codes at once
+ * - Extract palettes of images that have none yet (e.g. added before
+ *   palettes existed) or recompute all of them
+ *
+ * @returns The rendered palette section, or null
+ */
+const PalettePanel: React.FC = () => {
+  const { selectedGroup, images, recomputePalettes } = usePalette();
+
+  /** Progress of a running extraction, or null when idle */
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  /** Hex code (or 'all') that was just copied */
+  const [copied, setCopied] = useState<string | null>(null);
+
+  /**
+   * Clears the copy confirmation after a moment
+   */
+  useEffect(() => {
+    if (copied === null) return;
+    const timer = window.setTimeout(() => setCopied(null), COPIED_FEEDBACK_MS);
+    return () => window.clearTimeout(timer);
+  }, [copied]);
+
+  if (!selectedGroup) return null;
+
+  const palette = aggregatePalettes(images);
+  const missingCount = images.filter((image) => !image.palette).length;
+
+  /**
+   * Copies text to the clipboard and confirms it on the given key
+   */
+  const handleCopy = async (text: string, key: string): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert('Failed to copy to clipboard: ' + errorMessage);
+    }
+  };
+
+  /**
+   * Extracts palettes of the group's images
+   *
+   * @param onlyMissing - Skip images that already have a palette
+   */
+  const handleRecompute = async (onlyMissing: boolean): Promise<void> => {
+    setProgress({ done: 0, total: onlyMissing ? missingCount : images.length });
+    try {
+      await recomputePalettes(selectedGroup.id, onlyMissing, (done, total) => {
+        setProgress({ done, total });
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert('Failed to extract palettes: ' + errorMessage);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <section className="mt-8">
+      {/* Section Header */}
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-display-small">Palette</h2>
+          <p className="text-body-medium mt-1">
+            {palette.length > 0
+              ? `${palette.length} colors from ${images.length - missingCount} of ${images.length} images in ${selectedGroup.name}`
+              : `No colors extracted for ${selectedGroup.name} yet`}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2 justify-end">
+          {palette.length > 0 && (
+            <button
+              onClick={() => handleCopy(palette.map((color) => color.hex).join('\n'), 'all')}
+              className="btn-text"
+            >
+              {copied === 'all' ? 'Copied!' : 'Copy all'}
+            </button>
+          )}
+          {missingCount > 0 && (
+            <button
+              onClick={() => handleRecompute(true)}
+              disabled={progress !== null}
+              className="btn-outlined"
+            >
+              Extract missing ({missingCount})
+            </button>
+          )}
+          <button
+            onClick={() => handleRecompute(false)}
+            disabled={progress !== null || images.length === 0}
+            className="btn-outlined"
+          >
+            {progress ? `Extracting ${progress.done}/${progress.total}...` : 'Recompute palettes'}
+          </button>
+        </div>
+      </div>
+
+      {/* Swatches */}
+      {palette.length === 0 ? (
+        <div className="card-standard text-center py-8">
+          <p className="text-body-medium">
+            {images.length === 0
+              ? 'Add images to this group to extract their colors.'
+              : 'Extract the palettes of this group\'s images to see its colors.'}
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-3 grid-cols-3 sm:grid-cols-4 md:grid-cols-6">
+          {palette.map((color) => (
+            <button
+              key={color.hex}
+              onClick={() => handleCopy(color.hex, color.hex)}
+              className="card-surface overflow-hidden text-left hover:ring-2 hover:ring-blue-500 transition-shadow"
+              title={`Copy ${color.hex}`}
+            >
+              <div
+                className="h-16 flex items-end p-2 text-xs font-medium"
+                style={{ backgroundColor: color.hex, color: contrastingTextColor(color.hex) }}
+              >
+                {copied === color.hex && 'Copied!'}
+              </div>
+              <div className="px-2 py-1.5 flex items-center justify-between gap-2">
+                <span className="font-mono text-sm text-gray-200">{color.hex}</span>
+                <span className="text-xs text-gray-500">{Math.round(color.weight * 100)}%</span>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default PalettePanel;
@@ -0,0 +1,39 @@
+import type { PlanStatus } from '../services/db';
+import { planStatusLabel } from '../services/plans';
+
+/**
+ * Badge colors per plan status
+ */
+const STATUS_CLASSES: Record<PlanStatus, string> = {
+  'idea': 'bg-gray-600/30 text-gray-300',
+  'planning': 'bg-blue-600/30 text-blue-300',
+  'in-progress': 'bg-yellow-600/30 text-yellow-300',
+  'complete': 'bg-green-600/30 text-green-300',
+  'retired': 'bg-purple-600/30 text-purple-300'
+};
+
+/**
+ * Props for PlanStatusBadge component
+ */
+interface PlanStatusBadgeProps {
+  /** The status to show */
+  status: PlanStatus;
+}
+
+/**
+ * PlanStatusBadge Component
+ *
+ * Small colored pill showing the status of a cosplay plan.
+ *
+ * @param props - Component props
+ * @returns The rendered badge
+ */
+const PlanStatusBadge: React.FC<PlanStatusBadgeProps> = ({ status }) => {
+  return (
+    <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${STATUS_CLASSES[status]}`}>
+      {planStatusLabel(status)}
+    </span>
+  );
+};
+
+export default PlanStatusBadge;
@@ -1,5 +1,67 @@
-import { useEffect, useState, useRef } from 'react';
-import type { StoredImage } from '../services/db';
+import { useCallback, useEffect, useEffectEvent, useState, useRef } from 'react';
+import {
+  getImageSizes,
+  type ImageAnnotations,
+  type ImageFraming,
+  type ImageGroup,
+  type ImageRole,
+  type PreviewLayout,
+  type PreviewTemplate,
+  type StoredImage,
+} from '../services/db';
+import { formatCalendarDate, IMAGE_ROLES } from '../services/plans';
+import { downloadBlob } from '../services/backup';
+import {
+  COLLAGE_EXPORT_WIDTHS,
+  COLLAGE_FORMATS,
+  DEFAULT_FRAMING,
+  DIAGONAL_SLANTS,
+  MAX_FRAMING_SCALE,
+  MIN_FRAMING_SCALE,
+  PREVIEW_TEMPLATES,
+  cellClipPath,
+  collageFileName,
+  isDefaultFraming,
+  layoutCard,
+  renderCollage,
+  resolvePreviewLayout,
+  zoomFramingAt,
+  type CardCell,
+  type CollageFormat,
+} from '../services/collage';
+import { useAnnotations, useGroups, useImages } from '../contexts/ImageGalleryContext';
+import { useImageUrl } from '../hooks/useImageUrl';
+import AnnotationOverlay from './AnnotationOverlay';
+import CompareModal from './CompareModal';
+import PlanStatusBadge from './PlanStatusBadge';
+
+/**
+ * Approximate display sizes (longest edge, CSS pixels) used to pick thumbnails
+ */
+const SINGLE_IMAGE_DISPLAY_SIZE = 1280;
+const SPLIT_IMAGE_DISPLAY_SIZE = 720;
+
+/**
+ * Delay before a changed framing is saved, in milliseconds
+ *
+ * Panning and zooming change the framing many times per second; it is
+ * saved once the image has been left alone for a moment.
+ */
+const FRAMING_SAVE_DELAY = 500;
+
+/**
+ * Collects the saved framing of each reframed image
+ *
+ * @param images - The previewed images
+ * @returns Framing by image ID (images with the default framing are left out)
+ */
+const savedFramings = (images: StoredImage[]): Record<number, ImageFraming> => {
+  const framings: Record<number, ImageFraming> = {};
+  images.forEach((image) => {
+    if (image.framing) framings[image.id] = image.framing;
+  });
+  return framings;
+};
 
 /**
  * Props for PreviewModal component
@@ -9,24 +71,33 @@ interface PreviewModalProps {
   isOpen: boolean;
   /** Callback to close the modal */
   onClose: () => void;
-  /** Title of the group */
-  groupName: string;
-  /** Array of images to preview */
+  /** The group being previewed (name and plan details are shown in the header) */
+  group: ImageGroup;
+  /** Array of images to preview, in their manual group order */
   images: StoredImage[];
+  /** Annotations of the group's images */
+  annotations: ImageAnnotations[];
 }
 
 /**
  * PreviewModal Component
  *
- * Displays a modal with group images in a diagonal split layout.
- * Images are arranged in rows of maximum 5 images, with each row
- * using alternating diagonal split patterns.
+ * Displays a modal with group images laid out as a card. The layout
+ * template is chosen per group (see ./services/collage.ts); by default
+ * images are arranged in rows of maximum 5 images, with each row using
+ * alternating diagonal split patterns.
  *
  * Features:
  * - Full-screen modal overlay
- * - Diagonal split layout for image rows
- * - Max 5 images per row
- * - Alternating diagonal directions
+ * - Header with the plan's character, series, variant, status and event date
+ * - Role toggles to build the card from chosen roles only (e.g. final photos)
+ * - Layout templates saved per group: diagonal split (images per row and
+ *   diagonal angle), uniform grid, masonry, or a hero image with thumbnails
+ * - Compare two of the group's images (side by side, split or onion skin)
+ * - Show or hide image annotations (shared with the gallery)
+ * - Pan and zoom within each image; the framing is saved per image
+ *   and can be reset per image or for the whole group
+ * - Export the card as a PNG or JPEG image, framed as shown
  * - Click outside to close
  * - ESC key to close
  *
@@ -36,22 +107,140 @@ interface PreviewModalProps {
 const PreviewModal: React.FC<PreviewModalProps> = ({
   isOpen,
   onClose,
-  groupName,
+  group,
   images,
+  annotations,
 }) => {
+  const { showAnnotations, setShowAnnotations } = useAnnotations();
+  const { setExistingImageFraming, resetGroupImageFraming } = useImages();
+  const { setExistingGroupPreviewLayout } = useGroups();
+  /** Image roles included in the preview (all by default) */
+  const [includedRoles, setIncludedRoles] = useState<ImageRole[]>(
+    () => IMAGE_ROLES.map((option) => option.value)
+  );
+  /** Whether the compare view is open on top of the preview */
+  const [isComparing, setIsComparing] = useState<boolean>(false);
+  /** Pan position and zoom of each split image, by image ID */
+  const [framings, setFramings] = useState<Record<number, ImageFraming>>(() => savedFramings(images));
+  /** IDs of the images the framings were taken from, to notice other images being previewed */
+  const [framedImageIds, setFramedImageIds] = useState<string>(() => images.map((image) => image.id).join(','));
+  /** File format of exported cards */
+  const [exportFormat, setExportFormat] = useState<CollageFormat>('image/png');
+  /** Width of exported cards in pixels */
+  const [exportWidth, setExportWidth] = useState<number>(COLLAGE_EXPORT_WIDTHS[1]);
+  /** Whether a card export is being rendered */
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  /** The card element, measured to lay out the card */
+  const [cardElement, setCardElement] = useState<HTMLDivElement | null>(null);
+  /** Width of the card on screen in CSS pixels */
+  const [cardWidth, setCardWidth] = useState<number>(0);
+  /** Original size of each image, by image ID (loaded for the masonry template) */
+  const [imageSizes, setImageSizes] = useState<Map<number, { width: number; height: number }>>(new Map());
+  /** Framings changed since the last save, by image ID */
+  const pendingFramingsRef = useRef<Map<number, ImageFraming>>(new Map());
+  const saveTimerRef = useRef<number | null>(null);
+
+  /**
+   * Saves the framings changed since the last save
+   */
+  const flushFramings = useCallback((): void => {
+    if (saveTimerRef.current !== null) {
+      window.clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const pending = Array.from(pendingFramingsRef.current.entries());
+    pendingFramingsRef.current.clear();
+    pending.forEach(([imageId, framing]) => {
+      setExistingImageFraming(imageId, isDefaultFraming(framing) ? null : framing).catch((error: unknown) => {
+        console.warn(`Could not save the framing of image ${imageId}:`, error);
+      });
+    });
+  }, [setExistingImageFraming]);
+
+  /**
+   * Show the saved framing of images added to the preview
+   *
+   * Only a change in which images are previewed counts: the framing of
+   * images still shown is kept, so a save (or a change in another tab)
+   * never moves an image that is being panned or has unsaved changes.
+   */
+  const imageIds = images.map((image) => image.id).join(',');
+  if (imageIds !== framedImageIds) {
+    setFramedImageIds(imageIds);
+    setFramings((prev) => {
+      const next = savedFramings(images);
+      images.forEach((image) => {
+        if (prev[image.id]) next[image.id] = prev[image.id];
+      });
+      return next;
+    });
+  }
+
+  /**
+   * Save pending framing changes when the preview closes
+   */
+  useEffect(() => {
+    return () => flushFramings();
+  }, [flushFramings]);
+
+  /** The group's layout template and its parameters */
+  const layout = resolvePreviewLayout(group.previewLayout);
+
+  /**
+   * Follow the card's width so the layout fits the modal
+   */
+  useEffect(() => {
+    if (!cardElement) return undefined;
+    const observer = new ResizeObserver(() => setCardWidth(cardElement.clientWidth));
+    observer.observe(cardElement);
+    setCardWidth(cardElement.clientWidth);
+    return () => observer.disconnect();
+  }, [cardElement]);
+
+  /**
+   * Load image sizes once a layout needs their proportions
+   */
+  useEffect(() => {
+    if (!isOpen || layout.template !== 'masonry') return undefined;
+    let isCancelled = false;
+    getImageSizes(images)
+      .then((sizes) => {
+        if (!isCancelled) setImageSizes(sizes);
+      })
+      .catch((error: unknown) => {
+        console.warn('Could not read image sizes:', error);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, images, layout.template]);
+
+  /**
+   * Adds or removes a role from the preview
+   *
+   * @param role - The role to toggle
+   */
+  const toggleRole = (role: ImageRole): void => {
+    setIncludedRoles((prev) =>
+      prev.includes(role) ? prev.filter((item) => item !== role) : [...prev, role]
+    );
+  };
+
   /**
    * Handle ESC key to close modal
+   *
+   * While the compare view is open, ESC only closes that.
    */
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent): void => {
-      if (e.key === 'Escape' && isOpen) {
+      if (e.key === 'Escape' && isOpen && !isComparing) {
         onClose();
       }
     };
 
     window.addEventListener('keydown', handleEscape);
     return () => window.removeEventListener('keydown', handleEscape);
-  }, [isOpen, onClose]);
+  }, [isOpen, isComparing, onClose]);
 
   /**
    * Prevent body scroll when modal is open
@@ -70,13 +259,111 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
 
   if (!isOpen) return null;
 
+  /** Images of the included roles, still in manual order */
+  const previewImages = images.filter((image) => includedRoles.includes(image.role));
+
+  /** Annotations drawn over the images (none while hidden) */
+  const shownAnnotations = showAnnotations ? annotations : [];
+
   /**
-   * Split images into rows of maximum 5 images each
+   * Lay out the card (images arrive in manual order, so cells follow that order);
+   * images whose size is not known yet are laid out as squares
    */
-  const imageRows: StoredImage[][] = [];
-  for (let i = 0; i < images.length; i += 5) {
-    imageRows.push(images.slice(i, i + 5));
-  }
+  const ratios = previewImages.map((image) => {
+    const size = imageSizes.get(image.id);
+    return size && size.width > 0 ? size.height / size.width : 1;
+  });
+  const card = cardWidth > 0 ? layoutCard(layout, ratios, cardWidth) : null;
+
+  /** The template's display labels and parameter range */
+  const templateOption = PREVIEW_TEMPLATES.find((option) => option.value === layout.template) ?? PREVIEW_TEMPLATES[0];
+
+  /**
+   * Saves a changed layout for the group
+   *
+   * @param changes - The template or parameters to change
+   */
+  const changeLayout = async (changes: Partial<PreviewLayout>): Promise<void> => {
+    try {
+      await setExistingGroupPreviewLayout(group.id, resolvePreviewLayout({ ...layout, ...changes }));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert('Failed to save layout: ' + errorMessage);
+    }
+  };
+
+  /**
+   * Switches the layout template, starting from its default parameters
+   *
+   * @param template - The new template
+   */
+  const changeTemplate = (template: PreviewTemplate): void => {
+    const option = PREVIEW_TEMPLATES.find((item) => item.value === template) ?? PREVIEW_TEMPLATES[0];
+    changeLayout({ template, perRow: option.defaultPerRow });
+  };
+
+  /**
+   * Updates the pan position and zoom of one image
+   *
+   * @param imageId - ID of the image
+   * @param update - Computes the new framing from the current one
+   */
+  const updateFraming = (imageId: number, update: (prev: ImageFraming) => ImageFraming): void => {
+    setFramings((prev) => {
+      const framing = update(prev[imageId] ?? DEFAULT_FRAMING);
+      pendingFramingsRef.current.set(imageId, framing);
+      return { ...prev, [imageId]: framing };
+    });
+
+    if (saveTimerRef.current !== null) {
+      window.clearTimeout(saveTimerRef.current);
+    }
+    saveTimerRef.current = window.setTimeout(flushFramings, FRAMING_SAVE_DELAY);
+  };
+
+  /** Whether any previewed image has been panned or zoomed */
+  const hasFraming = previewImages.some((image) => !isDefaultFraming(framings[image.id] ?? DEFAULT_FRAMING));
+
+  /**
+   * Resets the framing of every image in the group
+   */
+  const handleResetAllFraming = async (): Promise<void> => {
+    if (saveTimerRef.current !== null) {
+      window.clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    pendingFramingsRef.current.clear();
+    setFramings({});
+    try {
+      await resetGroupImageFraming(group.id);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert('Failed to reset framing: ' + errorMessage);
+    }
+  };
+
+  /**
+   * Renders the card as shown and downloads it
+   */
+  const handleExport = async (): Promise<void> => {
+    if (!card) return;
+
+    setIsExporting(true);
+    try {
+      const items = previewImages.map((image) => ({
+        image,
+        framing: framings[image.id] ?? DEFAULT_FRAMING,
+        annotations: shownAnnotations.find((record) => record.imageId === image.id),
+      }));
+      const blob = await renderCollage(items, card, { outputWidth: exportWidth, format: exportFormat });
+      downloadBlob(blob, collageFileName(group.name, exportFormat));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert('Failed to export preview: ' + errorMessage);
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   return (
     <div
@@ -90,36 +377,182 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
       >
         {/* Modal Header */}
         <div className="sticky top-0 bg-dark-surface border-b border-dark-border px-6 py-4 flex items-center justify-between z-10">
-          <div>
-            <h2 className="text-headline-large">{groupName}</h2>
-            <p className="text-body-medium mt-1">
-              {images.length} {images.length === 1 ? 'image' : 'images'}
-            </p>
+          <div className="min-w-0">
+            <h2 className="text-headline-large truncate">{group.name}</h2>
+            {(group.character || group.series || group.variant) && (
+              <p className="text-title-medium mt-1 truncate">
+                {[group.character, group.series].filter(Boolean).join(' • ')}
+                {group.variant && <span className="text-gray-400"> ({group.variant})</span>}
+              </p>
+            )}
+            <div className="flex flex-wrap items-center gap-2 mt-1">
+              <PlanStatusBadge status={group.status} />
+              <p className="text-body-medium">
+                {previewImages.length} {previewImages.length === 1 ? 'image' : 'images'}
+                {previewImages.length !== images.length && <> of {images.length}</>}
+                {group.eventDate && <> • Event {formatCalendarDate(group.eventDate)}</>}
+              </p>
+            </div>
+            {group.notes && (
+              <p className="text-body-medium mt-1 whitespace-pre-line line-clamp-2" title={group.notes}>
+                {group.notes}
+              </p>
+            )}
+            {images.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2" aria-label="Roles included in the preview">
+                {IMAGE_ROLES.map((option) => {
+                  const isIncluded = includedRoles.includes(option.value);
+                  return (
+                    <button
+                      key={option.value}
+                      onClick={() => toggleRole(option.value)}
+                      aria-pressed={isIncluded}
+                      className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                        isIncluded
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-dark-hover text-gray-400 hover:text-gray-200'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            {images.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2" aria-label="Card layout">
+                <select
+                  value={layout.template}
+                  onChange={(e) => changeTemplate(e.target.value as PreviewTemplate)}
+                  className="input-base w-auto"
+                  aria-label="Layout template"
+                >
+                  {PREVIEW_TEMPLATES.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      Layout: {option.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={layout.perRow}
+                  onChange={(e) => changeLayout({ perRow: Number(e.target.value) })}
+                  className="input-base w-auto"
+                  aria-label={templateOption.perRowLabel}
+                >
+                  {Array.from(
+                    { length: templateOption.maxPerRow - templateOption.minPerRow + 1 },
+                    (_, index) => templateOption.minPerRow + index
+                  ).map((count) => (
+                    <option key={count} value={count}>
+                      {templateOption.perRowLabel}: {count}
+                    </option>
+                  ))}
+                </select>
+                {layout.template === 'diagonal' && (
+                  <select
+                    value={layout.slant ?? ''}
+                    onChange={(e) => changeLayout({ slant: e.target.value ? Number(e.target.value) : null })}
+                    className="input-base w-auto"
+                    aria-label="Diagonal angle"
+                  >
+                    <option value="">Angle: Auto</option>
+                    {DIAGONAL_SLANTS.map((slant) => (
+                      <option key={slant} value={slant}>
+                        Angle: {slant}%
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
           </div>
-          <button
-            onClick={onClose}
-            className="btn-text p-2 hover:bg-white/10 rounded-lg"
-            aria-label="Close preview"
-          >
-            <svg
-              className="w-6 h-6"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {previewImages.length > 0 && (
+              <div className="flex items-center gap-2" aria-label="Export the card as an image">
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as CollageFormat)}
+                  className="input-base w-auto"
+                  aria-label="Export format"
+                >
+                  {COLLAGE_FORMATS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={exportWidth}
+                  onChange={(e) => setExportWidth(Number(e.target.value))}
+                  className="input-base w-auto"
+                  aria-label="Export width"
+                >
+                  {COLLAGE_EXPORT_WIDTHS.map((width) => (
+                    <option key={width} value={width}>
+                      {width} px
+                    </option>
+                  ))}
+                </select>
+                <button onClick={handleExport} disabled={isExporting} className="btn-outlined">
+                  {isExporting ? 'Exporting...' : 'Export image'}
+                </button>
+              </div>
+            )}
+            {hasFraming && (
+              <button
+                onClick={handleResetAllFraming}
+                className="btn-text"
+                title="Center and unzoom every image of the card"
+              >
+                Reset framing
+              </button>
+            )}
+            {annotations.length > 0 && (
+              <button
+                onClick={() => setShowAnnotations(!showAnnotations)}
+                aria-pressed={showAnnotations}
+                className="btn-text"
+              >
+                {showAnnotations ? 'Hide annotations' : 'Show annotations'}
+              </button>
+            )}
+            {images.length >= 2 && (
+              <button onClick={() => setIsComparing(true)} className="btn-outlined">
+                Compare
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="btn-text p-2 hover:bg-white/10 rounded-lg"
+              aria-label="Close preview"
             >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M6 18L18 6M6 6l12 12"
-              />
-            </svg>
-          </button>
+              <svg
+                className="w-6 h-6"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
         </div>
 
         {/* Modal Body */}
         <div className="p-6 space-y-6">
-          {images.length === 0 ? (
+          {images.length > 0 && previewImages.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-headline-small mb-2">No images with the selected roles</h3>
+              <p className="text-body-medium">
+                Choose one or more roles above to build the preview
+              </p>
+            </div>
+          ) : images.length === 0 ? (
             <div className="text-center py-12">
               <svg
                 className="w-16 h-16 mx-auto mb-4 text-gray-600"
@@ -140,95 +573,37 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
               </p>
             </div>
           ) : (
-            imageRows.map((row, rowIndex) => (
-              <DiagonalSplitRow
-                key={rowIndex}
-                images={row}
-                isReversed={rowIndex % 2 === 1}
-              />
-            ))
+            <div ref={setCardElement} className="relative w-full" style={{ height: `${card?.height ?? 0}px` }}>
+              {card?.cells.map((cell) => {
+                const image = previewImages[cell.index];
+                const imageAnnotations = shownAnnotations.find((record) => record.imageId === image.id);
+                return cell.kind === 'single' ? (
+                  <SingleImage key={image.id} image={image} annotations={imageAnnotations} cell={cell} />
+                ) : (
+                  <ImageWithSplit
+                    key={image.id}
+                    image={image}
+                    annotations={imageAnnotations}
+                    cell={cell}
+                    framing={framings[image.id] ?? DEFAULT_FRAMING}
+                    onFramingChange={(update) => updateFraming(image.id, update)}
+                  />
+                );
+              })}
+            </div>
           )}
         </div>
       </div>
-    </div>
-  );
-};
-
-/**
- * Props for DiagonalSplitRow component
- */
-interface DiagonalSplitRowProps {
-  /** Array of images for this row (max 5) */
-  images: StoredImage[];
-  /** Whether to reverse the diagonal direction */
-  isReversed: boolean;
-}
 
-/**
- * DiagonalSplitRow Component
- *
- * Renders a row of images with diagonal split layout.
- * Images are layered with z-index and offset horizontally.
- * Each image (except the last) has a right-angled triangle crop.
- *
- * @param props - Component props
- * @returns The rendered diagonal split row
- */
-const DiagonalSplitRow: React.FC<DiagonalSplitRowProps> = ({
-  images,
-  isReversed,
-}) => {
-  if (images.length === 0) return null;
-
-  if (images.length === 1) {
-    // Single image - no split
-    return (
-      <div className="w-full">
-        <SingleImage image={images[0]} />
-      </div>
-    );
-  }
-
-  // Calculate dimensions based on image count
-  // More images = narrower width and steeper angle
-  // Fewer images = wider width and gentler angle
-  const imageCount = images.length;
-
-  // Base width scales with image count to fill container
-  // 2 images: ~50% each, 3 images: ~40% each, 4 images: ~30% each, 5 images: ~25% each
-  const baseWidthPercentage = imageCount === 2 ? 55 :
-                               imageCount === 3 ? 42 :
-                               imageCount === 4 ? 32 : 25;
-
-  const baseWidth = baseWidthPercentage;
-
-  // Calculate offset to distribute remaining space evenly
-  const totalBaseWidth = baseWidth * imageCount;
-  const remainingSpace = 100 - totalBaseWidth;
-  const offsetPerImage = remainingSpace / (imageCount - 1);
-
-  // Triangle offset (diagonal angle) scales with image count
-  // Fewer images = gentler angle (smaller offset), More images = steeper angle (larger offset)
-  // 2 images: 15% (gentle), 3 images: 20%, 4 images: 23%, 5 images: 25% (steeper)
-  const triangleOffsetPercent = imageCount === 2 ? 15 :
-                                 imageCount === 3 ? 20 :
-                                 imageCount === 4 ? 23 : 25;
-
-  // Multiple images - layered with offsets and triangle crops
-  return (
-    <div className="relative w-full" style={{ height: '300px' }}>
-      {images.map((image, index) => (
-        <ImageWithSplit
-          key={image.id}
-          image={image}
-          index={index}
-          totalImages={images.length}
-          isReversed={isReversed}
-          baseWidth={baseWidth}
-          offsetPerImage={offsetPerImage}
-          triangleOffsetPercent={triangleOffsetPercent}
+      {/* Compare View (clicks must not reach the preview backdrop) */}
+      <div onClick={(e) => e.stopPropagation()}>
+        <CompareModal
+          isOpen={isComparing}
+          onClose={() => setIsComparing(false)}
+          images={images}
+          annotations={shownAnnotations}
         />
-      ))}
+      </div>
     </div>
   );
 };
@@ -239,6 +614,10 @@ const DiagonalSplitRow: React.FC<DiagonalSplitRowProps> = ({
 interface SingleImageProps {
   /** Image to display */
   image: StoredImage;
+  /** Annotations drawn over the image, if any */
+  annotations: ImageAnnotations | undefined;
+  /** Where the image is placed on the card */
+  cell: CardCell;
 }
 
 /**
@@ -249,25 +628,20 @@ interface SingleImageProps {
  * @param props - Component props
  * @returns The rendered single image
  */
-const SingleImage: React.FC<SingleImageProps> = ({ image }) => {
-  const [imageUrl, setImageUrl] = useState<string>('');
-
-  useEffect(() => {
-    const url = URL.createObjectURL(image.blob);
-    setImageUrl(url);
-
-    return () => {
-      URL.revokeObjectURL(url);
-    };
-  }, [image.blob]);
+const SingleImage: React.FC<SingleImageProps> = ({ image, annotations, cell }) => {
+  const imageUrl = useImageUrl(image, SINGLE_IMAGE_DISPLAY_SIZE);
 
   return (
-    <div className="relative rounded-lg overflow-hidden bg-black/20 border border-dark-border" style={{ height: '300px' }}>
+    <div
+      className="absolute rounded-lg overflow-hidden bg-black/20 border border-dark-border"
+      style={{ left: `${cell.x}px`, top: `${cell.y}px`, width: `${cell.width}px`, height: `${cell.height}px`, zIndex: cell.zIndex }}
+    >
       <img
         src={imageUrl}
         alt={image.name}
         className="w-full h-full object-cover"
       />
+      <AnnotationOverlay annotations={annotations} className="w-full h-full object-cover" />
       <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-3">
         <p className="text-body-medium text-white truncate" title={image.name}>
           {image.name}
@@ -277,214 +651,298 @@ const SingleImage: React.FC<SingleImageProps> = ({ image }) => {
   );
 };
 
+/**
+ * A pan or pinch gesture in progress on a split image
+ */
+type Gesture =
+  | {
+      kind: 'pan';
+      /** Pointer position at the last move, in client pixels */
+      last: { x: number; y: number };
+      /** Distance moved so far, to tell taps from pans */
+      moved: number;
+    }
+  | {
+      kind: 'pinch';
+      /** Framing when the pinch started */
+      startFraming: ImageFraming;
+      /** Distance between the two pointers when the pinch started */
+      startDistance: number;
+      /** Point between the two pointers when the pinch started, relative to the cell */
+      startFocus: { x: number; y: number };
+    };
+
+/** Longest time between the taps of a double tap, in milliseconds */
+const DOUBLE_TAP_DELAY = 300;
+
+/** Farthest distance between the taps of a double tap, in CSS pixels */
+const DOUBLE_TAP_SLOP = 24;
+
+/** Farthest a finger may move during a tap, in CSS pixels */
+const TAP_SLOP = 10;
+
 /**
  * Props for ImageWithSplit component
  */
 interface ImageWithSplitProps {
   /** Image to display */
   image: StoredImage;
-  /** Index of this image in the row */
-  index: number;
-  /** Total number of images in the row */
-  totalImages: number;
-  /** Whether to reverse the diagonal direction */
-  isReversed: boolean;
-  /** Base width percentage for each image */
-  baseWidth: number;
-  /** Horizontal offset percentage between images */
-  offsetPerImage: number;
-  /** Triangle offset percentage (diagonal angle) */
-  triangleOffsetPercent: number;
+  /** Annotations drawn over the image, if any */
+  annotations: ImageAnnotations | undefined;
+  /** Where the image is placed on the card, and its crop */
+  cell: CardCell;
+  /** Pan position and zoom of the image */
+  framing: ImageFraming;
+  /** Callback to update the pan position and zoom */
+  onFramingChange: (update: (prev: ImageFraming) => ImageFraming) => void;
 }
 
 /**
  * ImageWithSplit Component
  *
- * Renders an image with layering and optional triangle crop.
- * Images are stacked with z-index (first image has highest z-index).
- * Each image except the last has a right-angled triangle crop.
+ * Renders an image in a cell of the card: a slice of a diagonal split
+ * row or a rounded tile. Slices are stacked with z-index (first image
+ * has highest z-index) and each slice except the last of its row has a
+ * right-angled triangle crop.
  *
- * The triangle crop angle adjusts based on image count:
+ * The triangle crop angle adjusts based on image count unless the
+ * group's layout sets it:
  * - 2 images: 15% offset (gentler angle ~71°)
  * - 3 images: 20% offset (medium angle ~68°)
  * - 4 images: 23% offset (steeper angle ~67°)
  * - 5 images: 25% offset (steepest angle ~66°)
  * - 90° corner always at top-right or bottom-right
  *
+ * The image can be panned by dragging (mouse, pen or one finger) and
+ * zoomed with the wheel or a two-finger pinch around the spot between
+ * the fingers; its framing is kept by the preview, which saves it and
+ * uses it for card exports. Double-click, double-tap or the reset
+ * button restores the default. Touch gestures on the image only reframe
+ * it; on touch screens the preview scrolls by swiping the space around
+ * the images (e.g. between rows).
+ *
  * @param props - Component props
  * @returns The rendered image with diagonal clip
  */
 const ImageWithSplit: React.FC<ImageWithSplitProps> = ({
   image,
-  index,
-  totalImages,
-  isReversed,
-  baseWidth,
-  offsetPerImage,
-  triangleOffsetPercent,
+  annotations,
+  cell,
+  framing,
+  onFramingChange,
 }) => {
-  const [imageUrl, setImageUrl] = useState<string>('');
   const [isDragging, setIsDragging] = useState<boolean>(false);
-  const [panPosition, setPanPosition] = useState({ x: 50, y: 50 }); // Percentage (50 = center)
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
-  const [scale, setScale] = useState<number>(1);
   const containerRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  /** Pointers currently down on the image, by pointer ID */
+  const pointersRef = useRef<Map<number, { x: number; y: number }>>(new Map());
+  const gestureRef = useRef<Gesture | null>(null);
+  /** The last tap, to recognize a double tap */
+  const lastTapRef = useRef<{ time: number; x: number; y: number } | null>(null);
+  const { scale } = framing;
+  // Large tiles (like the hero image) need a larger thumbnail than split slices
+  const displaySize = cell.width > SPLIT_IMAGE_DISPLAY_SIZE ? SINGLE_IMAGE_DISPLAY_SIZE : SPLIT_IMAGE_DISPLAY_SIZE;
+  // Step up to a larger thumbnail only at whole zoom levels to avoid reloading on every wheel tick
+  const imageUrl = useImageUrl(image, displaySize * Math.ceil(scale));
 
-  useEffect(() => {
-    const url = URL.createObjectURL(image.blob);
-    setImageUrl(url);
-
-    return () => {
-      URL.revokeObjectURL(url);
-    };
-  }, [image.blob]);
+  /**
+   * Starts panning with one pointer or pinching with two, from the
+   * pointers currently down
+   */
+  const startGesture = (): void => {
+    const points = Array.from(pointersRef.current.values());
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (points.length >= 2 && rect) {
+      const [first, second] = points;
+      gestureRef.current = {
+        kind: 'pinch',
+        startFraming: framing,
+        startDistance: Math.max(1, Math.hypot(second.x - first.x, second.y - first.y)),
+        startFocus: { x: (first.x + second.x) / 2 - rect.left, y: (first.y + second.y) / 2 - rect.top },
+      };
+    } else if (points.length === 1) {
+      gestureRef.current = { kind: 'pan', last: points[0], moved: 0 };
+    } else {
+      gestureRef.current = null;
+    }
+  };
 
-  // Handle mouse down for dragging
-  const handleMouseDown = (e: React.MouseEvent) => {
-    e.preventDefault();
+  // Handle pointer down to start panning (mouse, pen or finger) or pinching (second finger)
+  const handlePointerDown = (e: React.PointerEvent<HTMLImageElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    if (e.pointerType === 'mouse') e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
     setIsDragging(true);
-    setDragStart({
-      x: e.clientX,
-      y: e.clientY,
-    });
+    startGesture();
   };
 
-  // Handle mouse move for dragging
-  const handleMouseMove = (e: MouseEvent) => {
-    if (isDragging && containerRef.current) {
-      const container = containerRef.current;
-      const rect = container.getBoundingClientRect();
+  // Handle pointer move to pan or pinch
+  const handlePointerMove = (e: React.PointerEvent<HTMLImageElement>) => {
+    if (!pointersRef.current.has(e.pointerId) || !containerRef.current) return;
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
 
-      // Guard against zero or invalid dimensions
-      if (rect.width <= 0 || rect.height <= 0) {
-        return;
-      }
+    const rect = containerRef.current.getBoundingClientRect();
+    // Guard against zero or invalid dimensions
+    if (rect.width <= 0 || rect.height <= 0) {
+      return;
+    }
 
-      // Calculate pixel delta from drag start
-      const deltaX = e.clientX - dragStart.x;
-      const deltaY = e.clientY - dragStart.y;
+    const gesture = gestureRef.current;
+    if (gesture?.kind === 'pan') {
+      // Calculate pixel delta from the last move
+      const deltaX = e.clientX - gesture.last.x;
+      const deltaY = e.clientY - gesture.last.y;
+      gesture.last = { x: e.clientX, y: e.clientY };
+      gesture.moved += Math.hypot(deltaX, deltaY);
 
       // Convert pixel delta to percentage delta
       // Negative because dragging right should pan left (move focus right)
       const percentDeltaX = -(deltaX / rect.width) * 100;
       const percentDeltaY = -(deltaY / rect.height) * 100;
 
-      // Update pan position using functional setState to avoid closure issues
-      setPanPosition((prev) => ({
+      // Update pan position using a functional update to avoid closure issues
+      onFramingChange((prev) => ({
+        ...prev,
         x: Math.max(0, Math.min(100, prev.x + percentDeltaX)),
         y: Math.max(0, Math.min(100, prev.y + percentDeltaY)),
       }));
-
-      // Update drag start for next move
-      setDragStart({
-        x: e.clientX,
-        y: e.clientY,
-      });
+    } else if (gesture?.kind === 'pinch') {
+      const [first, second] = Array.from(pointersRef.current.values());
+      const image = imageRef.current;
+      if (!second || !image || !image.naturalWidth || !image.naturalHeight) return;
+
+      const distance = Math.hypot(second.x - first.x, second.y - first.y);
+      const focus = { x: (first.x + second.x) / 2 - rect.left, y: (first.y + second.y) / 2 - rect.top };
+      onFramingChange(() => zoomFramingAt(
+        gesture.startFraming,
+        rect,
+        { width: image.naturalWidth, height: image.naturalHeight },
+        gesture.startFocus,
+        focus,
+        gesture.startFraming.scale * (distance / gesture.startDistance)
+      ));
     }
   };
 
-  // Handle mouse up to stop dragging
-  const handleMouseUp = () => {
-    setIsDragging(false);
+  // Handle pointer up (or a cancelled touch, e.g. when the page scrolls instead) to end the gesture
+  const handlePointerUp = (e: React.PointerEvent<HTMLImageElement>) => {
+    if (!pointersRef.current.has(e.pointerId)) return;
+    const gesture = gestureRef.current;
+    pointersRef.current.delete(e.pointerId);
+
+    // A short touch that barely moved is a tap; two taps close together reset the framing
+    if (e.type === 'pointerup' && e.pointerType !== 'mouse' && gesture?.kind === 'pan' && gesture.moved < TAP_SLOP) {
+      const lastTap = lastTapRef.current;
+      const isDoubleTap = lastTap !== null &&
+        e.timeStamp - lastTap.time < DOUBLE_TAP_DELAY &&
+        Math.hypot(e.clientX - lastTap.x, e.clientY - lastTap.y) < DOUBLE_TAP_SLOP;
+      lastTapRef.current = isDoubleTap ? null : { time: e.timeStamp, x: e.clientX, y: e.clientY };
+      if (isDoubleTap) handleResetFraming();
+    }
+
+    // Lifting one finger of a pinch continues as a pan with the other
+    startGesture();
+    if (pointersRef.current.size === 0) {
+      setIsDragging(false);
+    }
   };
 
+  /**
+   * Zooms by a step, using the latest framing callback
+   */
+  const zoomBy = useEffectEvent((delta: number): void => {
+    // Round to whole steps so zooming back out returns exactly to the default
+    onFramingChange((prev) => ({
+      ...prev,
+      scale: Math.round(Math.max(MIN_FRAMING_SCALE, Math.min(MAX_FRAMING_SCALE, prev.scale + delta)) * 10) / 10,
+    }));
+  });
+
   // Handle wheel for zoom
-  const handleWheel = (e: React.WheelEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
+  /**
+   * Zoom with the mouse wheel
+   *
+   * React attaches wheel listeners as passive, so this native listener
+   * is needed to keep the wheel from also scrolling the preview.
+   */
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
 
-    // Guard against NaN or invalid deltaY
-    if (typeof e.deltaY !== 'number' || isNaN(e.deltaY)) {
-      return;
-    }
+    const handleWheel = (e: WheelEvent): void => {
+      e.preventDefault();
+      e.stopPropagation();
 
-    const delta = e.deltaY > 0 ? -0.1 : 0.1;
-    setScale(prev => Math.max(0.5, Math.min(3, prev + delta)));
-  };
+      // Guard against NaN or invalid deltaY
+      if (typeof e.deltaY !== 'number' || isNaN(e.deltaY)) {
+        return;
+      }
+
+      zoomBy(e.deltaY > 0 ? -0.1 : 0.1);
+    };
 
-  // Handle double click to reset
-  const handleDoubleClick = () => {
-    setPanPosition({ x: 50, y: 50 });
-    setScale(1);
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Handle double click or double tap (or the reset button) to reset
+  const handleResetFraming = () => {
+    onFramingChange(() => DEFAULT_FRAMING);
   };
 
-  // Add and remove mouse event listeners
-  useEffect(() => {
-    if (isDragging) {
-      window.addEventListener('mousemove', handleMouseMove);
-      window.addEventListener('mouseup', handleMouseUp);
-      return () => {
-        window.removeEventListener('mousemove', handleMouseMove);
-        window.removeEventListener('mouseup', handleMouseUp);
-      };
-    }
-    return undefined;
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isDragging]);
-
-  // Calculate position and z-index
-  // First image has highest z-index, positioned at left
-  // Each subsequent image is offset to the right with lower z-index
-  const zIndex = totalImages - index;
-
-  // Position = (base width × index) + (offset × index)
-  // This accounts for both the width of previous images AND the gaps between them
-  const leftPosition = (baseWidth * index) + (offsetPerImage * index);
-  const isLastImage = index === totalImages - 1;
-
-  // Create clip path - right-angled triangle crop at corner
-  // The diagonal line extends from corner to opposite edge
-  // The angle adjusts based on image count (passed via triangleOffsetPercent)
-  let clipPath: string | undefined;
-  if (!isLastImage) {
-    if (isReversed) {
-      // Reversed: diagonal from bottom-right to top-left direction
-      // The diagonal line goes from (100%, 100%) to (100% - offset, 0%)
-      clipPath = `polygon(
-        0 0,
-        calc(100% - ${triangleOffsetPercent}%) 0,
-        100% 100%,
-        0 100%
-      )`;
-    } else {
-      // Normal: diagonal from top-right to bottom-left direction
-      // The diagonal line goes from (100%, 0%) to (100% - offset, 100%)
-      clipPath = `polygon(
-        0 0,
-        100% 0,
-        calc(100% - ${triangleOffsetPercent}%) 100%,
-        0 100%
-      )`;
-    }
-  }
+  /** Sizing shared by the image and its annotation overlay */
+  const imageStyle: React.CSSProperties = {
+    width: `${scale * 100}%`,
+    height: `${scale * 100}%`,
+    objectPosition: `${framing.x}% ${framing.y}%`,
+    transition: isDragging ? 'none' : 'width 0.1s ease-out, height 0.1s ease-out',
+  };
 
   return (
     <div
       ref={containerRef}
-      className="absolute top-0 h-full group/preview-image"
+      className={`absolute overflow-hidden group/preview-image ${cell.kind === 'tile' ? 'rounded-lg' : ''}`}
       style={{
-        left: `${leftPosition}%`,
-        width: `${baseWidth}%`,
-        zIndex,
-        clipPath,
+        left: `${cell.x}px`,
+        top: `${cell.y}px`,
+        width: `${cell.width}px`,
+        height: `${cell.height}px`,
+        zIndex: cell.zIndex,
+        clipPath: cellClipPath(cell),
       }}
-      onWheel={handleWheel}
     >
       <img
         src={imageUrl}
         alt={image.name}
         className="object-cover"
         style={{
-          width: `${scale * 100}%`,
-          height: `${scale * 100}%`,
-          objectPosition: `${panPosition.x}% ${panPosition.y}%`,
+          ...imageStyle,
           cursor: isDragging ? 'grabbing' : 'grab',
-          transition: isDragging ? 'none' : 'width 0.1s ease-out, height 0.1s ease-out',
+          // Every touch gesture on the image reframes it, vertical drags included
+          touchAction: 'none',
         }}
-        onMouseDown={handleMouseDown}
-        onDoubleClick={handleDoubleClick}
+        ref={imageRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleResetFraming}
         draggable={false}
       />
+      <AnnotationOverlay annotations={annotations} className="object-cover" style={imageStyle} />
+
+      {/* Reset framing - shows on hover once the image was panned or zoomed */}
+      {!isDefaultFraming(framing) && (
+        <button
+          onClick={handleResetFraming}
+          className="absolute top-2 left-2 px-2 py-1 rounded bg-black/70 text-xs text-white opacity-0 group-hover/preview-image:opacity-100 focus:opacity-100 transition-opacity duration-200 hover:bg-black/90"
+          style={{ zIndex: 9999 }}
+          title="Center and unzoom this image"
+        >
+          Reset framing
+        </button>
+      )}
 
       {/* Image name tooltip - shows on hover, highest z-index in row */}
       <div
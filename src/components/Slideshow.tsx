@@ -0,0 +1,402 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ImageAnnotations, StoredImage } from '../services/db';
+import {
+  getSlideshowSettings,
+  setSlideshowSettings,
+  SLIDESHOW_INTERVAL_OPTIONS,
+  type SlideshowSettings
+} from '../services/preferences';
+import { useImageUrl } from '../hooks/useImageUrl';
+import AnnotationOverlay from './AnnotationOverlay';
+
+/**
+ * Duration of the crossfade between two images, in milliseconds
+ */
+const FADE_MS = 800;
+
+/**
+ * How long the controls stay visible after the pointer last moved, in milliseconds
+ */
+const CONTROLS_HIDE_MS = 2500;
+
+/**
+ * Props for Slideshow component
+ */
+interface SlideshowProps {
+  /** Name of the presented group */
+  groupName: string;
+  /** Images to present, in order */
+  images: StoredImage[];
+  /** Annotations drawn over the images (none if omitted) */
+  annotations?: ImageAnnotations[];
+  /** Callback to end the slideshow */
+  onClose: () => void;
+}
+
+/**
+ * Slideshow Component
+ *
+ * Presents a group's images full screen, e.g. to pitch a group cosplay
+ * to teammates. Everything is read from IndexedDB, so it also runs
+ * offline in the installed app.
+ *
+ * Features:
+ * - Plays automatically at a chosen interval, looping at the end
+ * - Crossfades between images
+ * - Space to pause or resume, arrow keys for previous / next,
+ *   F to toggle full screen, ESC to end
+ * - Optional group name and image captions (the image's name)
+ * - Controls hide while playing until the pointer moves
+ *
+ * The interval and caption choices are remembered on this device.
+ *
+ * @param props - Component props
+ * @returns The rendered slideshow
+ */
+const Slideshow: React.FC<SlideshowProps> = ({
+  groupName,
+  images,
+  annotations = [],
+  onClose
+}) => {
+  /** Interval and captions, remembered across slideshows */
+  const [settings, setSettings] = useState<SlideshowSettings>(getSlideshowSettings);
+  /** Position of the current image */
+  const [index, setIndex] = useState<number>(0);
+  /** Image fading out underneath the current one, or null */
+  const [previousImageId, setPreviousImageId] = useState<number | null>(null);
+  /** Current image once it has loaded (the interval starts from then) */
+  const [loadedImageId, setLoadedImageId] = useState<number | null>(null);
+  /** Whether the slideshow advances on its own */
+  const [isPlaying, setIsPlaying] = useState<boolean>(true);
+  /** Whether the controls are shown while playing */
+  const [isControlsVisible, setIsControlsVisible] = useState<boolean>(true);
+  /** Whether the slideshow fills the screen */
+  const [isFullscreen, setIsFullscreen] = useState<boolean>(false);
+  /** Root element, shown full screen */
+  const containerRef = useRef<HTMLDivElement>(null);
+  /** Timer hiding the controls again */
+  const hideControlsTimerRef = useRef<number | null>(null);
+
+  // Images may be deleted elsewhere while presenting
+  const position = Math.min(index, images.length - 1);
+  const currentImage = images[position] as StoredImage | undefined;
+  const previousImage = images.find((image) => image.id === previousImageId);
+
+  /**
+   * Shows the image `offset` positions away, wrapping around at either end
+   */
+  const step = useCallback((offset: number): void => {
+    if (images.length === 0) return;
+    setPreviousImageId(currentImage?.id ?? null);
+    setIndex((position + offset + images.length) % images.length);
+  }, [images.length, position, currentImage]);
+
+  /**
+   * Updates and remembers the settings
+   */
+  const updateSettings = (changes: Partial<SlideshowSettings>): void => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    setSlideshowSettings(next);
+  };
+
+  /**
+   * Enters or leaves full screen
+   */
+  const toggleFullscreen = useCallback((): void => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => undefined);
+    } else {
+      containerRef.current?.requestFullscreen?.().catch(() => undefined);
+    }
+  }, []);
+
+  /**
+   * End the slideshow once every image is gone
+   */
+  useEffect(() => {
+    if (images.length === 0) {
+      onClose();
+    }
+  }, [images.length, onClose]);
+
+  /**
+   * Advance after the interval, counted from when the image has loaded
+   */
+  useEffect(() => {
+    if (!isPlaying || !currentImage || loadedImageId !== currentImage.id || images.length < 2) return;
+    const timer = window.setTimeout(() => step(1), settings.interval * 1000);
+    return () => window.clearTimeout(timer);
+  }, [isPlaying, currentImage, loadedImageId, images.length, settings.interval, step]);
+
+  /**
+   * Drop the previous image once the current one has faded in over it
+   */
+  useEffect(() => {
+    if (previousImageId === null || !currentImage || loadedImageId !== currentImage.id) return;
+    const timer = window.setTimeout(() => setPreviousImageId(null), FADE_MS);
+    return () => window.clearTimeout(timer);
+  }, [previousImageId, currentImage, loadedImageId]);
+
+  /**
+   * Keyboard controls
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      // Form controls keep their own keys
+      if (e.target instanceof HTMLSelectElement || e.target instanceof HTMLInputElement) return;
+
+      if (e.key === 'Escape') {
+        onClose();
+      } else if (e.key === 'ArrowLeft') {
+        e.preventDefault();
+        step(-1);
+      } else if (e.key === 'ArrowRight') {
+        e.preventDefault();
+        step(1);
+      } else if (e.key === ' ' && !(e.target instanceof HTMLButtonElement)) {
+        e.preventDefault();
+        setIsPlaying((prev) => !prev);
+      } else if (e.key === 'f' || e.key === 'F') {
+        toggleFullscreen();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [step, toggleFullscreen, onClose]);
+
+  /**
+   * Start full screen, and leave it and restore body scroll when ending
+   *
+   * Opening the slideshow is a click, so the browser allows the request.
+   */
+  useEffect(() => {
+    const handleFullscreenChange = (): void => {
+      setIsFullscreen(document.fullscreenElement !== null);
+    };
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    containerRef.current?.requestFullscreen?.().catch(() => undefined);
+
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+
+    return () => {
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => undefined);
+      }
+      document.body.style.overflow = previousOverflow;
+    };
+  }, []);
+
+  /**
+   * Hide the controls shortly after starting, and clear the timer when ending
+   */
+  useEffect(() => {
+    hideControlsTimerRef.current = window.setTimeout(() => {
+      setIsControlsVisible(false);
+    }, CONTROLS_HIDE_MS);
+
+    return () => {
+      if (hideControlsTimerRef.current !== null) {
+        window.clearTimeout(hideControlsTimerRef.current);
+      }
+    };
+  }, []);
+
+  /**
+   * Shows the controls, hiding them again after a while
+   */
+  const handlePointerMove = (): void => {
+    setIsControlsVisible(true);
+    if (hideControlsTimerRef.current !== null) {
+      window.clearTimeout(hideControlsTimerRef.current);
+    }
+    hideControlsTimerRef.current = window.setTimeout(() => {
+      setIsControlsVisible(false);
+    }, CONTROLS_HIDE_MS);
+  };
+
+  if (!currentImage) return null;
+
+  // Controls stay up while paused
+  const showControls = isControlsVisible || !isPlaying;
+  // The previous image stays underneath until the current one has faded in
+  const slides = previousImage && previousImage.id !== currentImage.id
+    ? [previousImage, currentImage]
+    : [currentImage];
+
+  /**
+   * Finds the annotations drawn over an image
+   */
+  const annotationsOf = (image: StoredImage): ImageAnnotations | undefined => {
+    return annotations.find((record) => record.imageId === image.id);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`fixed inset-0 bg-black z-50 select-none ${showControls ? '' : 'cursor-none'}`}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Slideshow of ${groupName}`}
+      onPointerMove={handlePointerMove}
+      onPointerDown={handlePointerMove}
+    >
+      {/* Slides - the current image fades in over the previous one */}
+      {slides.map((image) => (
+        <Slide
+          key={image.id}
+          image={image}
+          annotations={annotationsOf(image)}
+          onLoad={image === currentImage ? setLoadedImageId : undefined}
+        />
+      ))}
+
+      {/* Group Name */}
+      {settings.showGroupName && (
+        <div className="absolute top-0 left-0 right-0 p-6 bg-gradient-to-b from-black/70 to-transparent pointer-events-none">
+          <h2 className="text-headline-small text-white">{groupName}</h2>
+        </div>
+      )}
+
+      {/* Caption */}
+      {settings.showCaptions && (
+        <div className="absolute bottom-0 left-0 right-0 px-6 pt-10 pb-6 bg-gradient-to-t from-black/70 to-transparent pointer-events-none text-center">
+          <p className="text-title-large text-white truncate">{currentImage.name}</p>
+        </div>
+      )}
+
+      {/* Controls */}
+      <div
+        className={`absolute top-4 right-4 flex flex-wrap items-center justify-end gap-2 rounded-lg bg-black/70 px-3 py-2 transition-opacity ${
+          showControls ? 'opacity-100' : 'opacity-0 pointer-events-none'
+        }`}
+      >
+        <span className="text-body-medium text-gray-300 px-1">
+          {position + 1} / {images.length}
+        </span>
+        <button onClick={() => step(-1)} className="btn-text px-2" aria-label="Previous image">
+          ‹
+        </button>
+        <button
+          onClick={() => setIsPlaying((prev) => !prev)}
+          className="btn-text px-2 min-w-[4.5rem]"
+        >
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <button onClick={() => step(1)} className="btn-text px-2" aria-label="Next image">
+          ›
+        </button>
+        <select
+          value={settings.interval}
+          onChange={(e) => updateSettings({ interval: Number(e.target.value) })}
+          className="bg-dark-hover border border-dark-border rounded text-sm text-gray-200 px-2 py-1"
+          aria-label="Seconds per image"
+        >
+          {SLIDESHOW_INTERVAL_OPTIONS.map((seconds) => (
+            <option key={seconds} value={seconds}>
+              {seconds} s
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1.5 text-body-medium text-gray-200 px-1">
+          <input
+            type="checkbox"
+            checked={settings.showGroupName}
+            onChange={(e) => updateSettings({ showGroupName: e.target.checked })}
+          />
+          Group name
+        </label>
+        <label className="flex items-center gap-1.5 text-body-medium text-gray-200 px-1">
+          <input
+            type="checkbox"
+            checked={settings.showCaptions}
+            onChange={(e) => updateSettings({ showCaptions: e.target.checked })}
+          />
+          Captions
+        </label>
+        <button onClick={toggleFullscreen} className="btn-text px-2">
+          {isFullscreen ? 'Exit full screen' : 'Full screen'}
+        </button>
+        <button
+          onClick={onClose}
+          className="btn-text p-2 hover:bg-white/10 rounded-lg"
+          aria-label="End slideshow"
+        >
+          <svg
+            className="w-5 h-5"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Props for the Slide component
+ */
+interface SlideProps {
+  /** Image shown on the slide */
+  image: StoredImage;
+  /** Annotations drawn over the image */
+  annotations: ImageAnnotations | undefined;
+  /** Callback once the image has loaded and starts fading in (or when given, if already loaded) */
+  onLoad?: (imageId: number) => void;
+}
+
+/**
+ * Slide Component
+ *
+ * One image of the slideshow, fitted to the screen. It stays transparent
+ * until the original has loaded, then fades in.
+ *
+ * @param props - Component props
+ * @returns The rendered slide
+ */
+const Slide: React.FC<SlideProps> = ({ image, annotations, onLoad }) => {
+  /** Object URL of the original image */
+  const imageUrl = useImageUrl(image);
+  /** Whether the image has loaded */
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+
+  /**
+   * Report the image as shown, also when going back to a slide that is
+   * still fading out (it is loaded already)
+   */
+  useEffect(() => {
+    if (isLoaded) {
+      onLoad?.(image.id);
+    }
+  }, [isLoaded, onLoad, image.id]);
+
+  return (
+    <div
+      className="absolute inset-0 transition-opacity ease-in-out"
+      style={{ opacity: isLoaded ? 1 : 0, transitionDuration: `${FADE_MS}ms` }}
+    >
+      <img
+        src={imageUrl}
+        alt={image.name}
+        className="w-full h-full object-contain"
+        onLoad={() => setIsLoaded(true)}
+        draggable={false}
+      />
+      <AnnotationOverlay annotations={annotations} className="w-full h-full object-contain" />
+    </div>
+  );
+};
+
+export default Slideshow;
@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getStorageBreakdown, type StorageBreakdown } from '../services/db';
+import {
+  formatBytes,
+  getStorageEstimate,
+  isStoragePersisted,
+  requestPersistentStorage,
+  NEAR_QUOTA_RATIO,
+  type StorageEstimate
+} from '../services/storage';
+import { useImageGallery } from '../contexts/ImageGalleryContext';
+
+/**
+ * StoragePanel Component
+ *
+ * Shows how much browser storage the gallery uses, how much is still
+ * available, and which groups take up the most space. Also shows whether
+ * the browser has granted persistent storage (which protects the data
+ * from automatic eviction) and offers a one-click request for it.
+ *
+ * Features:
+ * - Used / available space with a usage bar (warns near the quota)
+ * - Persistent storage status indicator and request button
+ * - Per-group size breakdown computed from the stored image blobs
+ * - Refreshes automatically when groups, images or the trash change
+ *
+ * @returns The rendered storage section
+ */
+const StoragePanel: React.FC = () => {
+  const { groups, images, trash } = useImageGallery();
+
+  /** Browser-reported usage and quota (null while unknown/unsupported) */
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  /** Persistent storage state (null while unknown/unsupported) */
+  const [isPersisted, setIsPersisted] = useState<boolean | null>(null);
+  /** Per-group usage */
+  const [breakdown, setBreakdown] = useState<StorageBreakdown>({ groups: [], trashBytes: 0 });
+  /** Whether a persistence request is in progress */
+  const [isRequesting, setIsRequesting] = useState<boolean>(false);
+
+  /**
+   * Reloads all storage figures
+   */
+  const refresh = useCallback(async (): Promise<void> => {
+    const [nextEstimate, nextPersisted] = await Promise.all([
+      getStorageEstimate(),
+      isStoragePersisted(),
+    ]);
+    setEstimate(nextEstimate);
+    setIsPersisted(nextPersisted);
+
+    try {
+      setBreakdown(await getStorageBreakdown());
+    } catch (error) {
+      console.error('Failed to load storage breakdown:', error);
+    }
+  }, []);
+
+  /**
+   * Refresh whenever the gallery contents change
+   */
+  useEffect(() => {
+    refresh();
+  }, [refresh, groups, images, trash]);
+
+  /**
+   * Requests persistent storage from the browser
+   */
+  const handleRequestPersist = async (): Promise<void> => {
+    setIsRequesting(true);
+    try {
+      const granted = await requestPersistentStorage();
+      setIsPersisted(granted);
+      if (!granted) {
+        alert(
+          'The browser declined persistent storage. Installing the app or bookmarking it can help; ' +
+          'in the meantime, export backups regularly.'
+        );
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert('Failed to request persistent storage: ' + errorMessage);
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  const usageRatio = estimate && estimate.quota > 0 ? estimate.usage / estimate.quota : 0;
+  const isNearQuota = usageRatio >= NEAR_QUOTA_RATIO;
+  const totalGroupBytes = breakdown.groups.reduce((sum, group) => sum + group.bytes, 0);
+  const groupNameOf = (groupId: number): string =>
+    groups.find((group) => group.id === groupId)?.name ?? `Group ${groupId}`;
+
+  return (
+    <section className="mt-8">
+      <div className="mb-6">
+        <h2 className="text-display-small">Storage</h2>
+        <p className="text-body-medium mt-1">
+          Space used by your images in this browser
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {/* Usage & Persistence */}
+        <div className="card-standard space-y-4">
+          {estimate ? (
+            <div>
+              <div className="flex justify-between text-body-medium mb-2">
+                <span>{formatBytes(estimate.usage)} used</span>
+                <span>{formatBytes(Math.max(0, estimate.quota - estimate.usage))} available</span>
+              </div>
+              <div className="h-2 rounded-full bg-dark-hover overflow-hidden">
+                <div
+                  className={`h-full ${isNearQuota ? 'bg-red-500' : 'bg-blue-500'}`}
+                  style={{ width: `${Math.min(100, usageRatio * 100)}%` }}
+                />
+              </div>
+              {isNearQuota && (
+                <p className="text-body-medium text-red-400 mt-2">
+                  Storage is almost full. Delete unused images or empty the trash.
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-body-medium">This browser does not report storage usage.</p>
+          )}
+
+          <div className="flex items-center gap-3">
+            <span
+              className={`w-3 h-3 rounded-full flex-shrink-0 ${
+                isPersisted ? 'bg-green-500' : isPersisted === false ? 'bg-yellow-500' : 'bg-gray-500'
+              }`}
+            />
+            <p className="text-body-medium flex-1">
+              {isPersisted
+                ? 'Persistent storage granted – the browser will not evict your data automatically'
+                : isPersisted === false
+                  ? 'Best-effort storage – the browser may clear your data when space runs low'
+                  : 'Persistent storage is not supported by this browser'}
+            </p>
+            {isPersisted === false && (
+              <button
+                onClick={handleRequestPersist}
+                disabled={isRequesting}
+                className="btn-outlined px-3 py-1.5 text-xs"
+              >
+                {isRequesting ? 'Requesting...' : 'Make persistent'}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Per-Group Breakdown */}
+        <div className="card-standard space-y-2">
+          <h3 className="text-title-large mb-2">By group</h3>
+          {breakdown.groups.length === 0 ? (
+            <p className="text-body-medium">No images stored yet.</p>
+          ) : (
+            breakdown.groups.map((usage) => (
+              <div key={usage.groupId} className="text-body-medium">
+                <div className="flex justify-between gap-3">
+                  <span className="truncate" title={groupNameOf(usage.groupId)}>
+                    {groupNameOf(usage.groupId)}
+                  </span>
+                  <span className="flex-shrink-0">
+                    {usage.imageCount} {usage.imageCount === 1 ? 'image' : 'images'} • {formatBytes(usage.bytes)}
+                  </span>
+                </div>
+                <div className="h-1 rounded-full bg-dark-hover overflow-hidden mt-1">
+                  <div
+                    className="h-full bg-purple-500"
+                    style={{ width: `${totalGroupBytes > 0 ? (usage.bytes / totalGroupBytes) * 100 : 0}%` }}
+                  />
+                </div>
+              </div>
+            ))
+          )}
+          {breakdown.trashBytes > 0 && (
+            <p className="text-body-medium text-gray-500 pt-2">
+              Trash: {formatBytes(breakdown.trashBytes)}
+            </p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default StoragePanel;
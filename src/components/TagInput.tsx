@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { normalizeTag, normalizeTags } from '../services/search';
+
+/**
+ * Props for TagInput component
+ */
+interface TagInputProps {
+  /** Current tags */
+  tags: string[];
+  /** Callback with the new tags */
+  onChange: (tags: string[]) => void;
+  /** Placeholder of the text field */
+  placeholder?: string;
+  /** Whether to focus the text field on mount */
+  autoFocus?: boolean;
+}
+
+/**
+ * TagInput Component
+ *
+ * Editable list of tags shown as removable chips.
+ *
+ * Features:
+ * - Enter or comma adds the typed tag (normalized, no duplicates)
+ * - Backspace in the empty field removes the last tag
+ * - A pending typed tag is added when the field loses focus
+ *
+ * @param props - Component props
+ * @returns The rendered tag editor
+ */
+const TagInput: React.FC<TagInputProps> = ({
+  tags,
+  onChange,
+  placeholder = 'Add tags...',
+  autoFocus = false
+}) => {
+  /** Text of the tag being typed */
+  const [draft, setDraft] = useState<string>('');
+
+  /**
+   * Adds the typed tag, if any, and clears the field
+   */
+  const commitDraft = (): void => {
+    const tag = normalizeTag(draft);
+    setDraft('');
+    if (tag && !tags.includes(tag)) {
+      onChange(normalizeTags([...tags, tag]));
+    }
+  };
+
+  /**
+   * Handles the keys that add or remove tags
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commitDraft();
+    } else if (e.key === 'Backspace' && draft === '' && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="input-base flex flex-wrap items-center gap-1.5">
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className="inline-flex items-center gap-1 px-2 py-0.5 rounded bg-blue-600/30 text-blue-300 text-xs"
+        >
+          #{tag}
+          <button
+            type="button"
+            onClick={() => onChange(tags.filter((item) => item !== tag))}
+            className="hover:text-white"
+            aria-label={`Remove tag ${tag}`}
+          >
+            ✕
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={commitDraft}
+        placeholder={tags.length === 0 ? placeholder : ''}
+        className="flex-1 min-w-[6rem] bg-transparent outline-none text-sm"
+        aria-label="Add tag"
+        autoFocus={autoFocus}
+      />
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,395 @@
+import { useState } from 'react';
+import type { BuildTask, StoredImage, TaskInput } from '../services/db';
+import { useTasks } from '../contexts/ImageGalleryContext';
+import { useImageUrl } from '../hooks/useImageUrl';
+import { formatCalendarDate, getTaskProgress, isOverdue } from '../services/plans';
+
+/**
+ * Longest edge of an attached progress image thumbnail in CSS pixels
+ */
+const TASK_THUMBNAIL_SIZE = 48;
+
+/**
+ * TaskChecklist Component
+ *
+ * Build task checklist of the selected costume plan (group), e.g.
+ * "Pattern bodice", "Style wig", "Paint armor". Renders nothing while
+ * no group is selected.
+ *
+ * Features:
+ * - Add tasks with an optional due date
+ * - Tick tasks off, with an overall completion bar
+ * - Reorder tasks with the up/down buttons
+ * - Overdue due dates are highlighted
+ * - Attach progress images of the group to a task
+ * - Edit and delete tasks
+ *
+ * @returns The rendered checklist section, or null
+ */
+const TaskChecklist: React.FC = () => {
+  const {
+    selectedGroup,
+    images,
+    tasks,
+    createNewTask,
+    updateExistingTask,
+    moveExistingTask,
+    deleteExistingTask
+  } = useTasks();
+
+  /** Title of the task being added */
+  const [newTitle, setNewTitle] = useState<string>('');
+  /** Due date of the task being added */
+  const [newDueDate, setNewDueDate] = useState<string>('');
+
+  if (!selectedGroup) return null;
+
+  const progress = getTaskProgress(tasks, selectedGroup.id);
+
+  /**
+   * Runs a task action and reports failures
+   */
+  const runAction = async (action: () => Promise<void>, failureMessage: string): Promise<void> => {
+    try {
+      await action();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(failureMessage + ': ' + errorMessage);
+    }
+  };
+
+  /**
+   * Adds the task from the form and resets it
+   */
+  const handleAddTask = async (): Promise<void> => {
+    const title = newTitle.trim();
+    if (!title) {
+      alert('Please enter a task');
+      return;
+    }
+
+    await runAction(async () => {
+      await createNewTask(selectedGroup.id, {
+        title,
+        completed: false,
+        dueDate: newDueDate || null,
+        imageIds: []
+      });
+      setNewTitle('');
+      setNewDueDate('');
+    }, 'Failed to add task');
+  };
+
+  return (
+    <section className="mt-8">
+      {/* Section Header */}
+      <div className="mb-6">
+        <h2 className="text-display-small">Build Tasks</h2>
+        <p className="text-body-medium mt-1">
+          {progress.total === 0
+            ? `Break ${selectedGroup.name} down into steps`
+            : `${progress.completed} of ${progress.total} done • ${progress.percent}%`}
+        </p>
+      </div>
+
+      {/* Completion Bar */}
+      {progress.total > 0 && (
+        <div className="h-2 rounded-full bg-dark-hover overflow-hidden mb-6">
+          <div
+            className="h-full bg-green-500 transition-all duration-300"
+            style={{ width: `${progress.percent}%` }}
+          />
+        </div>
+      )}
+
+      {/* Add Task Form */}
+      <div className="card-standard mb-6 flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddTask()}
+          placeholder="New task (e.g. Pattern bodice)"
+          className="input-base flex-1"
+        />
+        <input
+          type="date"
+          value={newDueDate}
+          onChange={(e) => setNewDueDate(e.target.value)}
+          className="input-base sm:w-44"
+          aria-label="Due date"
+        />
+        <button onClick={handleAddTask} className="btn-filled">
+          + Add Task
+        </button>
+      </div>
+
+      {/* Task List */}
+      {tasks.length > 0 && (
+        <div className="space-y-3">
+          {tasks.map((task, index) => (
+            <TaskRow
+              key={task.id}
+              task={task}
+              images={images}
+              index={index}
+              isFirst={index === 0}
+              isLast={index === tasks.length - 1}
+              onUpdate={(changes) => runAction(() => updateExistingTask(task.id, changes), 'Failed to update task')}
+              onMove={(toIndex) => runAction(() => moveExistingTask(task.id, toIndex), 'Failed to move task')}
+              onDelete={() => {
+                if (window.confirm(`Delete the task "${task.title}"?`)) {
+                  runAction(() => deleteExistingTask(task.id), 'Failed to delete task');
+                }
+              }}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+/**
+ * Props for the TaskRow component
+ */
+interface TaskRowProps {
+  /** The task to show */
+  task: BuildTask;
+  /** Images of the group that can be attached */
+  images: StoredImage[];
+  /** Index of the task within the checklist */
+  index: number;
+  /** Whether this is the first task (cannot move up) */
+  isFirst: boolean;
+  /** Whether this is the last task (cannot move down) */
+  isLast: boolean;
+  /** Callback with changed fields */
+  onUpdate: (changes: Partial<TaskInput>) => Promise<void>;
+  /** Callback to move the task to a new index */
+  onMove: (toIndex: number) => Promise<void>;
+  /** Callback when delete is requested */
+  onDelete: () => void;
+}
+
+/**
+ * TaskRow Component
+ *
+ * One task of the checklist with a completion checkbox, due date,
+ * attached progress images and inline editing.
+ *
+ * @param props - Component props
+ * @returns The rendered task row
+ */
+const TaskRow: React.FC<TaskRowProps> = ({
+  task,
+  images,
+  index,
+  isFirst,
+  isLast,
+  onUpdate,
+  onMove,
+  onDelete
+}) => {
+  /** Whether the row is in edit mode */
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  /** Title while editing */
+  const [title, setTitle] = useState<string>(task.title);
+  /** Due date while editing */
+  const [dueDate, setDueDate] = useState<string>(task.dueDate ?? '');
+  /** Attached image IDs while editing */
+  const [imageIds, setImageIds] = useState<number[]>(task.imageIds);
+
+  /** Attached images that still exist in the group */
+  const attachedImages = images.filter((image) => task.imageIds.includes(image.id));
+  /** Progress images are offered first when attaching */
+  const attachableImages = [...images].sort(
+    (a, b) => Number(b.role === 'progress') - Number(a.role === 'progress')
+  );
+
+  /**
+   * Enters edit mode with the current values
+   */
+  const startEditing = (): void => {
+    setTitle(task.title);
+    setDueDate(task.dueDate ?? '');
+    setImageIds(task.imageIds);
+    setIsEditing(true);
+  };
+
+  /**
+   * Saves the edited fields
+   */
+  const handleSave = async (): Promise<void> => {
+    const trimmedTitle = title.trim();
+    if (!trimmedTitle) {
+      alert('Please enter a task');
+      return;
+    }
+    await onUpdate({ title: trimmedTitle, dueDate: dueDate || null, imageIds });
+    setIsEditing(false);
+  };
+
+  /**
+   * Attaches or detaches an image while editing
+   */
+  const toggleImage = (imageId: number): void => {
+    setImageIds((prev) =>
+      prev.includes(imageId) ? prev.filter((id) => id !== imageId) : [...prev, imageId]
+    );
+  };
+
+  if (isEditing) {
+    return (
+      <div className="card-standard space-y-3">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+              if (e.key === 'Escape') setIsEditing(false);
+            }}
+            className="input-base flex-1"
+            autoFocus
+          />
+          <input
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            className="input-base sm:w-44"
+            aria-label="Due date"
+          />
+        </div>
+
+        {attachableImages.length > 0 && (
+          <div>
+            <p className="text-label-large mb-2">Attached images</p>
+            <div className="flex flex-wrap gap-2">
+              {attachableImages.map((image) => (
+                <button
+                  key={image.id}
+                  onClick={() => toggleImage(image.id)}
+                  aria-pressed={imageIds.includes(image.id)}
+                  className={`rounded ring-2 transition-all ${
+                    imageIds.includes(image.id) ? 'ring-blue-500' : 'ring-transparent opacity-60 hover:opacity-100'
+                  }`}
+                >
+                  <TaskThumbnail image={image} />
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button onClick={handleSave} className="btn-success flex-1 px-2 py-1 text-xs">
+            Save
+          </button>
+          <button onClick={() => setIsEditing(false)} className="btn-outlined flex-1 px-2 py-1 text-xs">
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card-standard flex items-center gap-4">
+      <input
+        type="checkbox"
+        checked={task.completed}
+        onChange={(e) => onUpdate({ completed: e.target.checked })}
+        className="w-5 h-5 flex-shrink-0 accent-green-500"
+        aria-label={`Mark "${task.title}" as done`}
+      />
+
+      <div className="flex-1 min-w-0">
+        <p
+          className={`text-title-medium truncate ${task.completed ? 'line-through text-gray-500' : ''}`}
+          title={task.title}
+        >
+          {task.title}
+        </p>
+        {task.dueDate && (
+          <p
+            className={`text-body-medium ${
+              !task.completed && isOverdue(task.dueDate) ? 'text-red-400' : ''
+            }`}
+          >
+            Due {formatCalendarDate(task.dueDate)}
+            {!task.completed && isOverdue(task.dueDate) && ' (overdue)'}
+          </p>
+        )}
+      </div>
+
+      {attachedImages.length > 0 && (
+        <div className="flex gap-1 flex-shrink-0">
+          {attachedImages.slice(0, 3).map((image) => (
+            <TaskThumbnail key={image.id} image={image} />
+          ))}
+          {attachedImages.length > 3 && (
+            <span className="text-body-medium self-center">+{attachedImages.length - 3}</span>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-1 flex-shrink-0">
+        <button
+          onClick={() => onMove(index - 1)}
+          disabled={isFirst}
+          className="btn-text px-2 py-1 disabled:opacity-30"
+          aria-label="Move task up"
+        >
+          ↑
+        </button>
+        <button
+          onClick={() => onMove(index + 1)}
+          disabled={isLast}
+          className="btn-text px-2 py-1 disabled:opacity-30"
+          aria-label="Move task down"
+        >
+          ↓
+        </button>
+        <button onClick={startEditing} className="btn-outlined px-3 py-1.5 text-xs">
+          Edit
+        </button>
+        <button onClick={onDelete} className="btn-danger px-3 py-1.5 text-xs">
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Props for the TaskThumbnail component
+ */
+interface TaskThumbnailProps {
+  /** The attached image */
+  image: StoredImage;
+}
+
+/**
+ * TaskThumbnail Component
+ *
+ * Small thumbnail of an image attached to a task.
+ *
+ * @param props - Component props
+ * @returns The rendered thumbnail
+ */
+const TaskThumbnail: React.FC<TaskThumbnailProps> = ({ image }) => {
+  const imageUrl = useImageUrl(image, TASK_THUMBNAIL_SIZE);
+
+  return (
+    <img
+      src={imageUrl}
+      alt={image.name}
+      title={image.name}
+      className="w-12 h-12 object-cover rounded bg-black/20"
+    />
+  );
+};
+
+export default TaskChecklist;
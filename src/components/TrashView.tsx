@@ -0,0 +1,284 @@
+import { useState } from 'react';
+import type { StoredImage, TrashedGroup } from '../services/db';
+import { useGroups, useTrash } from '../contexts/ImageGalleryContext';
+import { useImageUrl } from '../hooks/useImageUrl';
+import { TRASH_RETENTION_OPTIONS } from '../services/preferences';
+
+/** Milliseconds in one day */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Longest edge of a trashed image thumbnail in CSS pixels
+ */
+const TRASH_THUMBNAIL_SIZE = 64;
+
+/**
+ * Formats how long until a trashed item is purged
+ *
+ * @param deletedAt - ISO timestamp when the item was trashed
+ * @param retentionDays - Current retention period
+ * @returns Human-readable remaining time
+ */
+const formatExpiry = (deletedAt: string | null, retentionDays: number): string => {
+  if (!deletedAt) return '';
+  const remainingMs = new Date(deletedAt).getTime() + retentionDays * DAY_MS - Date.now();
+  const remainingDays = Math.max(0, Math.ceil(remainingMs / DAY_MS));
+  return remainingDays === 0
+    ? 'Deleted permanently soon'
+    : `Deleted permanently in ${remainingDays} ${remainingDays === 1 ? 'day' : 'days'}`;
+};
+
+/**
+ * TrashView Component
+ *
+ * Lists deleted groups and images, which stay recoverable until the
+ * retention period runs out and they are purged automatically.
+ *
+ * Features:
+ * - Expandable/collapsible section (collapsed by default)
+ * - Restore or permanently delete individual groups and images
+ * - Restoring an image also restores its trashed group
+ * - Configurable retention period
+ * - Empty trash with confirmation
+ *
+ * @returns The rendered trash section
+ */
+const TrashView: React.FC = () => {
+  const {
+    trash,
+    trashRetentionDays,
+    restoreTrashedGroup,
+    restoreTrashedImage,
+    permanentlyDeleteGroup,
+    permanentlyDeleteImage,
+    emptyTrash,
+    setTrashRetentionDays,
+  } = useTrash();
+  const { groups } = useGroups();
+
+  /** Whether the trash section is expanded */
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+
+  const itemCount = trash.groups.length + trash.images.length;
+
+  /**
+   * Runs a trash action and reports failures
+   */
+  const runAction = async (action: () => Promise<void>, failureMessage: string): Promise<void> => {
+    try {
+      await action();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(failureMessage + ': ' + errorMessage);
+    }
+  };
+
+  /**
+   * Finds the display name of an image's group (active or trashed)
+   */
+  const groupNameOf = (groupId: number): string => {
+    return groups.find((g) => g.id === groupId)?.name
+      ?? trash.groups.find((g) => g.id === groupId)?.name
+      ?? 'Unknown group';
+  };
+
+  const handleDeleteGroup = (group: TrashedGroup): void => {
+    if (window.confirm(`Permanently delete "${group.name}" and all its images? This cannot be undone.`)) {
+      runAction(() => permanentlyDeleteGroup(group.id), 'Failed to delete group');
+    }
+  };
+
+  const handleDeleteImage = (image: StoredImage): void => {
+    if (window.confirm(`Permanently delete "${image.name}"? This cannot be undone.`)) {
+      runAction(() => permanentlyDeleteImage(image.id), 'Failed to delete image');
+    }
+  };
+
+  const handleEmptyTrash = (): void => {
+    if (window.confirm(`Permanently delete all ${itemCount} items in the trash? This cannot be undone.`)) {
+      runAction(emptyTrash, 'Failed to empty trash');
+    }
+  };
+
+  return (
+    <section className="mt-8">
+      {/* Section Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex-1">
+          <h2 className="text-display-small">Trash</h2>
+          <p className="text-body-medium mt-1">
+            {itemCount} {itemCount === 1 ? 'item' : 'items'} • Deleted items are kept for{' '}
+            {trashRetentionDays} days
+          </p>
+        </div>
+
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="btn-text ml-4"
+          aria-label={isExpanded ? 'Collapse trash' : 'Expand trash'}
+        >
+          <svg
+            className={`w-6 h-6 transition-transform duration-200 ${isExpanded ? 'rotate-180' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="space-y-6">
+          {/* Trash Settings */}
+          <div className="card-standard flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-3 text-body-medium">
+              Keep deleted items for
+              <select
+                value={trashRetentionDays}
+                onChange={(e) =>
+                  runAction(
+                    () => setTrashRetentionDays(Number(e.target.value)),
+                    'Failed to update retention'
+                  )
+                }
+                className="input-base w-auto py-1.5"
+              >
+                {TRASH_RETENTION_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    {days} days
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={handleEmptyTrash}
+              disabled={itemCount === 0}
+              className="btn-danger ml-auto"
+            >
+              Empty trash
+            </button>
+          </div>
+
+          {itemCount === 0 ? (
+            <div className="card-spacious text-center">
+              <h3 className="text-headline-small mb-2">Trash is empty</h3>
+              <p className="text-body-medium">Deleted groups and images will appear here</p>
+            </div>
+          ) : (
+            <>
+              {/* Trashed Groups */}
+              {trash.groups.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="text-title-large">Groups</h3>
+                  {trash.groups.map((group) => (
+                    <div key={group.id} className="card-compact flex items-center gap-4">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-title-medium truncate" title={group.name}>
+                          {group.name}
+                        </p>
+                        <p className="text-body-medium text-xs">
+                          {group.imageCount} {group.imageCount === 1 ? 'image' : 'images'} •{' '}
+                          {formatExpiry(group.deletedAt, trashRetentionDays)}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => runAction(() => restoreTrashedGroup(group.id), 'Failed to restore group')}
+                        className="btn-outlined px-3 py-1.5 text-xs"
+                      >
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => handleDeleteGroup(group)}
+                        className="btn-danger px-3 py-1.5 text-xs"
+                      >
+                        Delete forever
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Trashed Images */}
+              {trash.images.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="text-title-large">Images</h3>
+                  {trash.images.map((image) => (
+                    <TrashedImageRow
+                      key={image.id}
+                      image={image}
+                      groupName={groupNameOf(image.groupId)}
+                      expiry={formatExpiry(image.deletedAt, trashRetentionDays)}
+                      onRestore={() => runAction(() => restoreTrashedImage(image.id), 'Failed to restore image')}
+                      onDelete={() => handleDeleteImage(image)}
+                    />
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+/**
+ * Props for the TrashedImageRow component
+ */
+interface TrashedImageRowProps {
+  /** The trashed image */
+  image: StoredImage;
+  /** Name of the group the image belongs to */
+  groupName: string;
+  /** Remaining retention text */
+  expiry: string;
+  /** Callback to restore the image */
+  onRestore: () => void;
+  /** Callback to permanently delete the image */
+  onDelete: () => void;
+}
+
+/**
+ * TrashedImageRow Component
+ *
+ * Displays a single trashed image with a small thumbnail.
+ *
+ * @param props - Component props
+ * @returns The rendered row
+ */
+const TrashedImageRow: React.FC<TrashedImageRowProps> = ({
+  image,
+  groupName,
+  expiry,
+  onRestore,
+  onDelete,
+}) => {
+  const imageUrl = useImageUrl(image, TRASH_THUMBNAIL_SIZE);
+
+  return (
+    <div className="card-compact flex items-center gap-4">
+      <img
+        src={imageUrl}
+        alt={image.name}
+        className="w-12 h-12 rounded object-cover bg-black/20 flex-shrink-0"
+      />
+      <div className="flex-1 min-w-0">
+        <p className="text-title-medium truncate" title={image.name}>
+          {image.name}
+        </p>
+        <p className="text-body-medium text-xs">
+          From "{groupName}" • {expiry}
+        </p>
+      </div>
+      <button onClick={onRestore} className="btn-outlined px-3 py-1.5 text-xs">
+        Restore
+      </button>
+      <button onClick={onDelete} className="btn-danger px-3 py-1.5 text-xs">
+        Delete forever
+      </button>
+    </div>
+  );
+};
+
+export default TrashView;
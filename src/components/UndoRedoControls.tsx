@@ -0,0 +1,43 @@
+import { useHistory } from '../contexts/ImageGalleryContext';
+
+/**
+ * UndoRedoControls Component
+ *
+ * Undo and redo buttons for the app bar. Tooltips name the action that
+ * would be reverted or re-applied. The same actions are available with
+ * Ctrl+Z and Ctrl+Shift+Z (Cmd on macOS).
+ *
+ * @returns The rendered undo/redo buttons
+ */
+const UndoRedoControls: React.FC = () => {
+  const { canUndo, canRedo, undoLabel, redoLabel, undo, redo } = useHistory();
+
+  return (
+    <div className="flex gap-2">
+      <button
+        onClick={() => undo()}
+        disabled={!canUndo}
+        className="btn-text px-3"
+        title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+        aria-label="Undo"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+        </svg>
+      </button>
+      <button
+        onClick={() => redo()}
+        disabled={!canRedo}
+        className="btn-text px-3"
+        title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+        aria-label="Redo"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+export default UndoRedoControls;
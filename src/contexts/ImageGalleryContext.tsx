@@ -1,16 +1,100 @@
-import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
 import {
+  initDB,
+  onConnectionEvent,
   getAllGroups,
   createGroup,
   renameGroup,
+  updateGroupDetails,
   deleteGroup,
   getImagesByGroup,
   addImage,
   renameImage,
+  setImageRole,
+  setImageTags,
+  setImageFraming,
+  setGroupPreviewLayout,
+  resetGroupFraming,
+  recomputeGroupPalettes,
+  moveImage,
   deleteImage,
+  trashGroup,
+  trashImage,
+  restoreGroup,
+  restoreImage,
+  getTrash,
+  purgeTrash,
+  getMaterialsByGroup,
+  addMaterial,
+  updateMaterial,
+  deleteMaterial,
+  getAllTasks,
+  addTask,
+  updateTask,
+  moveTask,
+  deleteTask,
+  getAllEvents,
+  addEvent,
+  updateEvent,
+  deleteEvent,
+  getAllMeasurementProfiles,
+  addMeasurementProfile,
+  updateMeasurementProfile,
+  addMeasurementRevision,
+  deleteMeasurementRevision,
+  deleteMeasurementProfile,
+  getAnnotationsByGroup,
+  saveAnnotations,
+  searchGallery,
+  getAllTags,
+  type AnnotationsInput,
+  type BuildTask,
+  type ConventionEvent,
+  type EventInput,
+  type GroupDetails,
+  type ImageAnnotations,
+  type ImageFraming,
   type ImageGroup,
-  type StoredImage
+  type ImageRole,
+  type PreviewLayout,
+  type MaterialInput,
+  type MaterialItem,
+  type MeasurementProfile,
+  type MeasurementRevision,
+  type ProfileInput,
+  type RestoreMode,
+  type StoredImage,
+  type TaskInput,
+  type TrashContents
 } from '../services/db';
+import { importBackup, type ImportReport } from '../services/backup';
+import type { SearchResults } from '../services/search';
+import { onRemoteChange } from '../services/sync';
+import { pickGroupDetails } from '../services/plans';
+import {
+  describeEntry,
+  loadHistory,
+  redoEntry,
+  saveHistory,
+  undoEntry,
+  MAX_HISTORY_ENTRIES,
+  type HistoryEntry,
+  type HistoryState
+} from '../services/history';
+import {
+  getShowAnnotations,
+  getTrashRetentionDays,
+  setShowAnnotations as saveShowAnnotations,
+  setTrashRetentionDays as saveTrashRetentionDays
+} from '../services/preferences';
+
+/** Milliseconds in one day, used for trash retention */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * State of the shared database connection, as shown to the user
+ */
+export type ConnectionStatus = 'ok' | 'blocked' | 'superseded';
 
 /**
  * Shape of the ImageGallery context state
@@ -22,12 +106,54 @@ interface ImageGalleryContextState {
   selectedGroupId: number | null;
   /** Images in the currently selected group */
   images: StoredImage[];
+  /** Materials list of the currently selected group */
+  materials: MaterialItem[];
+  /** Annotations of the currently selected group's images (annotated images only) */
+  annotations: ImageAnnotations[];
+  /** Whether annotations are drawn over images in the gallery and preview */
+  showAnnotations: boolean;
+  /** Build tasks of all groups, in checklist order */
+  tasks: BuildTask[];
+  /** All conventions / events, soonest first */
+  events: ConventionEvent[];
+  /** All body measurement profiles, by name */
+  measurementProfiles: MeasurementProfile[];
+  /** Image to scroll to and highlight in the gallery (e.g. a search result), or null */
+  focusedImageId: number | null;
   /** Loading state for groups */
   isLoadingGroups: boolean;
+  /** Whether the groups have been loaded at least once (false while the database opens) */
+  hasLoadedGroups: boolean;
   /** Loading state for images */
   isLoadingImages: boolean;
   /** Error state */
   error: string | null;
+  /**
+   * Fatal database error (e.g. a failed schema migration)
+   *
+   * When set, the database could not be opened and no data was loaded.
+   */
+  databaseError: string | null;
+  /**
+   * State of the shared database connection
+   *
+   * - 'ok': connected (or not yet needed)
+   * - 'blocked': waiting for other tabs to close so the schema can be upgraded
+   * - 'superseded': another tab upgraded the database; this tab must reload
+   */
+  connectionStatus: ConnectionStatus;
+  /** Groups and images currently in the trash */
+  trash: TrashContents;
+  /** Days trashed items are kept before automatic purge */
+  trashRetentionDays: number;
+  /** Whether there is an action that can be undone */
+  canUndo: boolean;
+  /** Whether there is an undone action that can be redone */
+  canRedo: boolean;
+  /** Description of the action `undo` would revert, or null */
+  undoLabel: string | null;
+  /** Description of the action `redo` would re-apply, or null */
+  redoLabel: string | null;
 }
 
 /**
@@ -40,14 +166,98 @@ interface ImageGalleryContextActions {
   createNewGroup: (name: string) => Promise<void>;
   /** Rename an existing group */
   renameExistingGroup: (groupId: number, newName: string) => Promise<void>;
-  /** Delete a group */
+  /** Update the cosplay plan details of a group */
+  updateExistingGroupDetails: (groupId: number, details: GroupDetails) => Promise<void>;
+  /** Save the layout template of a group's preview card (null restores the default) */
+  setExistingGroupPreviewLayout: (groupId: number, layout: PreviewLayout | null) => Promise<void>;
+  /** Move a group to the trash */
   deleteExistingGroup: (groupId: number) => Promise<void>;
+  /** Add a task to the end of a group's checklist */
+  createNewTask: (groupId: number, input: TaskInput) => Promise<void>;
+  /** Update fields of a task */
+  updateExistingTask: (taskId: number, changes: Partial<TaskInput>) => Promise<void>;
+  /** Move a task to a new zero-based index within its group's checklist */
+  moveExistingTask: (taskId: number, toIndex: number) => Promise<void>;
+  /** Permanently delete a task */
+  deleteExistingTask: (taskId: number) => Promise<void>;
+  /** Create a new event */
+  createNewEvent: (input: EventInput) => Promise<void>;
+  /** Update fields of an event, including its assigned groups */
+  updateExistingEvent: (eventId: number, changes: Partial<EventInput>) => Promise<void>;
+  /** Permanently delete an event */
+  deleteExistingEvent: (eventId: number) => Promise<void>;
+  /** Create a new measurement profile, resolving to its ID */
+  createNewProfile: (input: ProfileInput) => Promise<number>;
+  /** Rename a measurement profile or change its unit */
+  updateExistingProfile: (profileId: number, changes: Partial<ProfileInput>) => Promise<void>;
+  /** Save a dated revision of a profile's measurements (replacing one of the same date) */
+  saveProfileRevision: (profileId: number, revision: MeasurementRevision) => Promise<void>;
+  /** Remove a profile's revision of the given date */
+  deleteProfileRevision: (profileId: number, date: string) => Promise<void>;
+  /** Permanently delete a measurement profile, unlinking its groups */
+  deleteExistingProfile: (profileId: number) => Promise<void>;
   /** Add an image to a group */
-  addImageToGroup: (groupId: number, name: string, blob: Blob) => Promise<void>;
+  addImageToGroup: (groupId: number, name: string, blob: Blob, role?: ImageRole) => Promise<void>;
   /** Rename an existing image */
   renameExistingImage: (imageId: number, newName: string) => Promise<void>;
-  /** Delete an image */
+  /** Change what an existing image is used for */
+  setExistingImageRole: (imageId: number, role: ImageRole) => Promise<void>;
+  /** Replace the tags of an image */
+  setExistingImageTags: (imageId: number, tags: string[]) => Promise<void>;
+  /** Save how an image is framed in the preview card (null resets it) */
+  setExistingImageFraming: (imageId: number, framing: ImageFraming | null) => Promise<void>;
+  /** Reset the preview framing of every image in a group */
+  resetGroupImageFraming: (groupId: number) => Promise<void>;
+  /**
+   * Extract the color palettes of a group's images again
+   *
+   * Resolves to the number of palettes saved.
+   */
+  recomputePalettes: (
+    groupId: number,
+    onlyMissing?: boolean,
+    onProgress?: (done: number, total: number) => void
+  ) => Promise<number>;
+  /** Save the annotations drawn on an image (an empty shape list removes them) */
+  saveImageAnnotations: (input: AnnotationsInput) => Promise<void>;
+  /** Show or hide annotations over images */
+  setShowAnnotations: (show: boolean) => void;
+  /** Move an image to a new zero-based index within its group */
+  moveExistingImage: (imageId: number, toIndex: number) => Promise<void>;
+  /** Move an image to the trash */
   deleteExistingImage: (imageId: number) => Promise<void>;
+  /** Add an item to the selected group's materials list */
+  addMaterialItem: (input: MaterialInput) => Promise<void>;
+  /** Update fields of a material item */
+  updateMaterialItem: (materialId: number, changes: Partial<MaterialInput>) => Promise<void>;
+  /** Permanently delete a material item */
+  deleteMaterialItem: (materialId: number) => Promise<void>;
+  /** Restore a trashed group */
+  restoreTrashedGroup: (groupId: number) => Promise<void>;
+  /** Restore a trashed image (and its group, if that is trashed too) */
+  restoreTrashedImage: (imageId: number) => Promise<void>;
+  /** Permanently delete a trashed group and all its images */
+  permanentlyDeleteGroup: (groupId: number) => Promise<void>;
+  /** Permanently delete a trashed image */
+  permanentlyDeleteImage: (imageId: number) => Promise<void>;
+  /** Permanently delete everything in the trash */
+  emptyTrash: () => Promise<void>;
+  /** Change the trash retention period (and purge items now past it) */
+  setTrashRetentionDays: (days: number) => Promise<void>;
+  /** Revert the most recent action */
+  undo: () => Promise<void>;
+  /** Re-apply the most recently undone action */
+  redo: () => Promise<void>;
+  /** Restore a backup archive, merging into or replacing the current data */
+  restoreBackup: (archive: Blob, mode: RestoreMode) => Promise<ImportReport>;
+  /** Search groups and images across the whole gallery */
+  searchLibrary: (query: string) => Promise<SearchResults>;
+  /** List every tag in use */
+  listTags: () => Promise<string[]>;
+  /** Select a search result's group and focus the image, if any */
+  openSearchResult: (groupId: number, imageId: number | null) => void;
+  /** Stop focusing the image set by openSearchResult */
+  clearFocusedImage: () => void;
 }
 
 /**
@@ -75,8 +285,19 @@ interface ImageGalleryProviderProps {
  * and exposes clean hooks for components to consume.
  *
  * Features:
+ * - Database schema migration on mount, with failures surfaced via `databaseError`
+ * - Connection status tracking so other tabs' upgrades prompt a reload
+ * - Live refresh when another tab or window changes groups or images
  * - Automatic loading of groups on mount
- * - Automatic loading of images when group is selected
+ * - Cosplay plan details (character, series, status, event date, ...) per group
+ * - Build task checklist per group, loaded for all groups for progress display
+ * - Convention / event calendar with costume plans assigned to events
+ * - Body measurement profiles with dated revisions, linked to groups
+ * - Vector annotations on images, kept apart from the image data
+ * - Tags on groups and images, and search across the whole gallery
+ * - Deletes go to a trash with restore and automatic purge after the retention period
+ * - Undo/redo of gallery actions (Ctrl+Z / Ctrl+Shift+Z), kept for the browser session
+ * - Automatic loading of images and materials list when group is selected
  * - Error handling for all database operations
  * - Loading states for async operations
  * - Optimistic UI updates where appropriate
@@ -89,9 +310,24 @@ export const ImageGalleryProvider: React.FC<ImageGalleryProviderProps> = ({ chil
   const [groups, setGroups] = useState<ImageGroup[]>([]);
   const [selectedGroupId, setSelectedGroupId] = useState<number | null>(null);
   const [images, setImages] = useState<StoredImage[]>([]);
+  const [materials, setMaterials] = useState<MaterialItem[]>([]);
+  const [annotations, setAnnotations] = useState<ImageAnnotations[]>([]);
+  const [showAnnotations, setShowAnnotationsState] = useState<boolean>(getShowAnnotations);
+  const [tasks, setTasks] = useState<BuildTask[]>([]);
+  const [events, setEvents] = useState<ConventionEvent[]>([]);
+  const [measurementProfiles, setMeasurementProfiles] = useState<MeasurementProfile[]>([]);
+  const [focusedImageId, setFocusedImageId] = useState<number | null>(null);
   const [isLoadingGroups, setIsLoadingGroups] = useState<boolean>(false);
+  const [hasLoadedGroups, setHasLoadedGroups] = useState<boolean>(false);
   const [isLoadingImages, setIsLoadingImages] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [databaseError, setDatabaseError] = useState<string | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('ok');
+  const [trash, setTrash] = useState<TrashContents>({ groups: [], images: [] });
+  const [trashRetentionDays, setTrashRetentionDaysState] = useState<number>(getTrashRetentionDays);
+  const [history, setHistory] = useState<HistoryState>(loadHistory);
+  /** Guards against overlapping undo/redo runs (e.g. a held-down shortcut) */
+  const isApplyingHistoryRef = useRef<boolean>(false);
 
   /**
    * Loads all groups from IndexedDB
@@ -102,6 +338,7 @@ export const ImageGalleryProvider: React.FC<ImageGalleryProviderProps> = ({ chil
     try {
       const allGroups = await getAllGroups();
       setGroups(allGroups);
+      setHasLoadedGroups(true);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load groups';
       setError(errorMessage);
@@ -130,28 +367,258 @@ export const ImageGalleryProvider: React.FC<ImageGalleryProviderProps> = ({ chil
   }, []);
 
   /**
-   * Load groups on mount
+   * Loads the materials list of a specific group
+   */
+  const loadMaterials = useCallback(async (groupId: number): Promise<void> => {
+    try {
+      setMaterials(await getMaterialsByGroup(groupId));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load materials';
+      setError(errorMessage);
+      console.error('Failed to load materials:', err);
+    }
+  }, []);
+
+  /**
+   * Loads the annotations of a specific group's images
+   */
+  const loadAnnotations = useCallback(async (groupId: number): Promise<void> => {
+    try {
+      setAnnotations(await getAnnotationsByGroup(groupId));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load annotations';
+      setError(errorMessage);
+      console.error('Failed to load annotations:', err);
+    }
+  }, []);
+
+  /**
+   * Loads the build tasks of all groups
+   */
+  const loadTasks = useCallback(async (): Promise<void> => {
+    try {
+      setTasks(await getAllTasks());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load tasks';
+      setError(errorMessage);
+      console.error('Failed to load tasks:', err);
+    }
+  }, []);
+
+  /**
+   * Loads all events
+   */
+  const loadEvents = useCallback(async (): Promise<void> => {
+    try {
+      setEvents(await getAllEvents());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load events';
+      setError(errorMessage);
+      console.error('Failed to load events:', err);
+    }
+  }, []);
+
+  /**
+   * Loads all measurement profiles
+   */
+  const loadMeasurementProfiles = useCallback(async (): Promise<void> => {
+    try {
+      setMeasurementProfiles(await getAllMeasurementProfiles());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load measurement profiles';
+      setError(errorMessage);
+      console.error('Failed to load measurement profiles:', err);
+    }
+  }, []);
+
+  /**
+   * Loads the trash contents
+   */
+  const loadTrash = useCallback(async (): Promise<void> => {
+    try {
+      setTrash(await getTrash());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load trash';
+      setError(errorMessage);
+      console.error('Failed to load trash:', err);
+    }
+  }, []);
+
+  /**
+   * Records a completed mutation on the undo stack
+   *
+   * A new action invalidates everything that was undone before it.
+   */
+  const recordHistory = useCallback((entry: HistoryEntry): void => {
+    setHistory((prev) => ({
+      undoStack: [...prev.undoStack, entry].slice(-MAX_HISTORY_ENTRIES),
+      redoStack: []
+    }));
+  }, []);
+
+  /**
+   * Persist the history for the rest of the browser session
    */
   useEffect(() => {
-    loadGroups();
-  }, [loadGroups]);
+    saveHistory(history);
+  }, [history]);
+
+  /**
+   * Track connection lifecycle events (blocked upgrades, upgrades in other tabs)
+   */
+  useEffect(() => {
+    return onConnectionEvent((event) => {
+      if (event === 'blocked') {
+        setConnectionStatus('blocked');
+      } else if (event === 'open') {
+        setConnectionStatus('ok');
+      } else {
+        setConnectionStatus('superseded');
+      }
+    });
+  }, []);
+
+  /**
+   * Open the database (running any pending migrations) and load groups on mount
+   *
+   * A failed migration leaves the database at its previous version, so
+   * nothing is loaded and the error is exposed through `databaseError`.
+   * Trashed items older than the retention period are purged first.
+   */
+  useEffect(() => {
+    const initialize = async (): Promise<void> => {
+      try {
+        await initDB();
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to open database';
+        setDatabaseError(errorMessage);
+        console.error('Failed to open database:', err);
+        return;
+      }
+
+      try {
+        await purgeTrash(new Date(Date.now() - getTrashRetentionDays() * DAY_MS));
+      } catch (err) {
+        console.error('Failed to purge expired trash:', err);
+      }
+
+      await Promise.all([loadGroups(), loadTrash(), loadTasks(), loadEvents(), loadMeasurementProfiles()]);
+    };
+
+    initialize();
+  }, [loadEvents, loadGroups, loadMeasurementProfiles, loadTasks, loadTrash]);
 
   /**
-   * Load images when selected group changes
+   * Load images, materials and annotations when selected group changes
    */
   useEffect(() => {
     if (selectedGroupId !== null) {
       loadImages(selectedGroupId);
+      loadMaterials(selectedGroupId);
+      loadAnnotations(selectedGroupId);
     } else {
       setImages([]);
+      setMaterials([]);
+      setAnnotations([]);
     }
-  }, [selectedGroupId, loadImages]);
+  }, [selectedGroupId, loadAnnotations, loadImages, loadMaterials]);
+
+  /**
+   * Refresh data changed by other tabs or windows
+   *
+   * Only the affected lists are reloaded. If the selected group was
+   * deleted elsewhere, the reloaded group list no longer contains it
+   * and the selection is cleared by the effect below.
+   */
+  useEffect(() => {
+    return onRemoteChange((change) => {
+      if (change.scopes.includes('groups')) {
+        loadGroups();
+      }
+      if (change.scopes.includes('trash')) {
+        loadTrash();
+      }
+      if (change.scopes.includes('tasks')) {
+        loadTasks();
+      }
+      if (change.scopes.includes('events')) {
+        loadEvents();
+      }
+      if (change.scopes.includes('measurements')) {
+        loadMeasurementProfiles();
+      }
+      if (
+        change.scopes.includes('images') &&
+        selectedGroupId !== null &&
+        (change.groupId === undefined || change.groupId === selectedGroupId)
+      ) {
+        loadImages(selectedGroupId);
+      }
+      if (
+        change.scopes.includes('materials') &&
+        selectedGroupId !== null &&
+        (change.groupId === undefined || change.groupId === selectedGroupId)
+      ) {
+        loadMaterials(selectedGroupId);
+      }
+      if (
+        change.scopes.includes('annotations') &&
+        selectedGroupId !== null &&
+        (change.groupId === undefined || change.groupId === selectedGroupId)
+      ) {
+        loadAnnotations(selectedGroupId);
+      }
+    });
+  }, [
+    loadAnnotations,
+    loadEvents,
+    loadGroups,
+    loadImages,
+    loadMaterials,
+    loadMeasurementProfiles,
+    loadTasks,
+    loadTrash,
+    selectedGroupId
+  ]);
+
+  /**
+   * Clear the selection when the selected group disappears
+   * (trashed here or in another tab, undone, or removed by a restore)
+   */
+  useEffect(() => {
+    if (
+      selectedGroupId !== null &&
+      !isLoadingGroups &&
+      !groups.some((group) => group.id === selectedGroupId)
+    ) {
+      setSelectedGroupId(null);
+    }
+  }, [groups, isLoadingGroups, selectedGroupId]);
 
   /**
    * Select a group
    */
   const selectGroup = useCallback((groupId: number | null): void => {
     setSelectedGroupId(groupId);
+    setFocusedImageId(null);
+  }, []);
+
+  /**
+   * Select a search result's group and focus the image, if any
+   *
+   * The gallery scrolls to the focused image once the group's images
+   * have loaded, then clears the focus.
+   */
+  const openSearchResult = useCallback((groupId: number, imageId: number | null): void => {
+    setSelectedGroupId(groupId);
+    setFocusedImageId(imageId);
+  }, []);
+
+  /**
+   * Stop focusing the image set by openSearchResult
+   */
+  const clearFocusedImage = useCallback((): void => {
+    setFocusedImageId(null);
   }, []);
 
   /**
@@ -161,6 +628,7 @@ export const ImageGalleryProvider: React.FC<ImageGalleryProviderProps> = ({ chil
     setError(null);
     try {
       const newGroupId = await createGroup(name);
+      recordHistory({ type: 'createGroup', groupId: newGroupId, name });
       await loadGroups();
       // Automatically select the newly created group
       setSelectedGroupId(newGroupId);
@@ -169,7 +637,7 @@ export const ImageGalleryProvider: React.FC<ImageGalleryProviderProps> = ({ chil
       setError(errorMessage);
       throw err;
     }
-  }, [loadGroups]);
+  }, [loadGroups, recordHistory]);
 
   /**
    * Rename an existing group
@@ -177,23 +645,70 @@ export const ImageGalleryProvider: React.FC<ImageGalleryProviderProps> = ({ chil
   const renameExistingGroup = useCallback(async (groupId: number, newName: string): Promise<void> => {
     setError(null);
     try {
+      const previousName = groups.find((group) => group.id === groupId)?.name ?? newName;
       await renameGroup(groupId, newName);
+      recordHistory({ type: 'renameGroup', groupId, from: previousName, to: newName });
       await loadGroups();
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to rename group';
       setError(errorMessage);
       throw err;
     }
+  }, [groups, loadGroups, recordHistory]);
+
+  /**
+   * Save the layout template of a group's preview card
+   */
+  const setExistingGroupPreviewLayout = useCallback(async (
+    groupId: number,
+    layout: PreviewLayout | null
+  ): Promise<void> => {
+    setError(null);
+    try {
+      await setGroupPreviewLayout(groupId, layout);
+      await loadGroups();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save preview layout';
+      setError(errorMessage);
+      throw err;
+    }
   }, [loadGroups]);
 
   /**
-   * Delete a group
+   * Update the cosplay plan details of a group
    */
-  const deleteExistingGroup = useCallback(async (groupId: number): Promise<void> => {
+  const updateExistingGroupDetails = useCallback(async (groupId: number, details: GroupDetails): Promise<void> => {
     setError(null);
     try {
-      await deleteGroup(groupId);
+      const group = groups.find((item) => item.id === groupId);
+      await updateGroupDetails(groupId, details);
+      if (group) {
+        recordHistory({
+          type: 'updateGroupDetails',
+          groupId,
+          name: group.name,
+          from: pickGroupDetails(group),
+          to: details
+        });
+      }
       await loadGroups();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update group details';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [groups, loadGroups, recordHistory]);
+
+  /**
+   * Move a group to the trash
+   */
+  const deleteExistingGroup = useCallback(async (groupId: number): Promise<void> => {
+    setError(null);
+    try {
+      const name = groups.find((group) => group.id === groupId)?.name ?? '';
+      await trashGroup(groupId);
+      recordHistory({ type: 'deleteGroup', groupId, name });
+      await Promise.all([loadGroups(), loadTrash()]);
 
       // If we deleted the selected group, clear selection
       if (selectedGroupId === groupId) {
@@ -204,22 +719,211 @@ export const ImageGalleryProvider: React.FC<ImageGalleryProviderProps> = ({ chil
       setError(errorMessage);
       throw err;
     }
-  }, [loadGroups, selectedGroupId]);
+  }, [groups, loadGroups, loadTrash, recordHistory, selectedGroupId]);
+
+  /**
+   * Add a task to a group's checklist
+   */
+  const createNewTask = useCallback(async (groupId: number, input: TaskInput): Promise<void> => {
+    setError(null);
+    try {
+      await addTask(groupId, input);
+      await loadTasks();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to add task';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadTasks]);
+
+  /**
+   * Update fields of a task
+   */
+  const updateExistingTask = useCallback(async (taskId: number, changes: Partial<TaskInput>): Promise<void> => {
+    setError(null);
+    try {
+      await updateTask(taskId, changes);
+      await loadTasks();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update task';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadTasks]);
+
+  /**
+   * Move a task within its group's checklist
+   */
+  const moveExistingTask = useCallback(async (taskId: number, toIndex: number): Promise<void> => {
+    setError(null);
+    try {
+      await moveTask(taskId, toIndex);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to move task';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      await loadTasks();
+    }
+  }, [loadTasks]);
+
+  /**
+   * Permanently delete a task
+   */
+  const deleteExistingTask = useCallback(async (taskId: number): Promise<void> => {
+    setError(null);
+    try {
+      await deleteTask(taskId);
+      await loadTasks();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete task';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadTasks]);
+
+  /**
+   * Create a new event
+   */
+  const createNewEvent = useCallback(async (input: EventInput): Promise<void> => {
+    setError(null);
+    try {
+      await addEvent(input);
+      await loadEvents();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to add event';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadEvents]);
+
+  /**
+   * Update fields of an event
+   */
+  const updateExistingEvent = useCallback(async (eventId: number, changes: Partial<EventInput>): Promise<void> => {
+    setError(null);
+    try {
+      await updateEvent(eventId, changes);
+      await loadEvents();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update event';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadEvents]);
+
+  /**
+   * Permanently delete an event
+   */
+  const deleteExistingEvent = useCallback(async (eventId: number): Promise<void> => {
+    setError(null);
+    try {
+      await deleteEvent(eventId);
+      await loadEvents();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete event';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadEvents]);
+
+  /**
+   * Create a new measurement profile
+   */
+  const createNewProfile = useCallback(async (input: ProfileInput): Promise<number> => {
+    setError(null);
+    try {
+      const profileId = await addMeasurementProfile(input);
+      await loadMeasurementProfiles();
+      return profileId;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to add measurement profile';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadMeasurementProfiles]);
+
+  /**
+   * Rename a measurement profile or change its unit
+   */
+  const updateExistingProfile = useCallback(async (profileId: number, changes: Partial<ProfileInput>): Promise<void> => {
+    setError(null);
+    try {
+      await updateMeasurementProfile(profileId, changes);
+      await loadMeasurementProfiles();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update measurement profile';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadMeasurementProfiles]);
+
+  /**
+   * Save a dated revision of a profile's measurements
+   */
+  const saveProfileRevision = useCallback(async (profileId: number, revision: MeasurementRevision): Promise<void> => {
+    setError(null);
+    try {
+      await addMeasurementRevision(profileId, revision);
+      await loadMeasurementProfiles();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save measurements';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadMeasurementProfiles]);
+
+  /**
+   * Remove a revision from a profile's history
+   */
+  const deleteProfileRevision = useCallback(async (profileId: number, date: string): Promise<void> => {
+    setError(null);
+    try {
+      await deleteMeasurementRevision(profileId, date);
+      await loadMeasurementProfiles();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete measurement revision';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadMeasurementProfiles]);
+
+  /**
+   * Permanently delete a measurement profile
+   */
+  const deleteExistingProfile = useCallback(async (profileId: number): Promise<void> => {
+    setError(null);
+    try {
+      await deleteMeasurementProfile(profileId);
+      // Groups linked to the profile were unlinked
+      await Promise.all([loadMeasurementProfiles(), loadGroups(), loadTrash()]);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete measurement profile';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadGroups, loadMeasurementProfiles, loadTrash]);
 
   /**
    * Add an image to a group
    */
-  const addImageToGroup = useCallback(async (groupId: number, name: string, blob: Blob): Promise<void> => {
+  const addImageToGroup = useCallback(async (
+    groupId: number,
+    name: string,
+    blob: Blob,
+    role?: ImageRole
+  ): Promise<void> => {
     setError(null);
     try {
-      await addImage(groupId, name, blob);
+      const imageId = await addImage(groupId, name, blob, role);
+      recordHistory({ type: 'addImage', imageId, groupId, name });
       await loadImages(groupId);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to add image';
       setError(errorMessage);
       throw err;
     }
-  }, [loadImages]);
+  }, [loadImages, recordHistory]);
 
   /**
    * Rename an existing image
@@ -227,7 +931,11 @@ export const ImageGalleryProvider: React.FC<ImageGalleryProviderProps> = ({ chil
   const renameExistingImage = useCallback(async (imageId: number, newName: string): Promise<void> => {
     setError(null);
     try {
+      const image = images.find((item) => item.id === imageId);
       await renameImage(imageId, newName);
+      if (image) {
+        recordHistory({ type: 'renameImage', imageId, groupId: image.groupId, from: image.name, to: newName });
+      }
       if (selectedGroupId !== null) {
         await loadImages(selectedGroupId);
       }
@@ -236,42 +944,607 @@ export const ImageGalleryProvider: React.FC<ImageGalleryProviderProps> = ({ chil
       setError(errorMessage);
       throw err;
     }
-  }, [selectedGroupId, loadImages]);
+  }, [images, selectedGroupId, loadImages, recordHistory]);
 
   /**
-   * Delete an image
+   * Change the role of an existing image
    */
-  const deleteExistingImage = useCallback(async (imageId: number): Promise<void> => {
+  const setExistingImageRole = useCallback(async (imageId: number, role: ImageRole): Promise<void> => {
     setError(null);
     try {
-      await deleteImage(imageId);
+      const image = images.find((item) => item.id === imageId);
+      await setImageRole(imageId, role);
+      if (image) {
+        recordHistory({ type: 'setImageRole', imageId, groupId: image.groupId, name: image.name, from: image.role, to: role });
+      }
       if (selectedGroupId !== null) {
         await loadImages(selectedGroupId);
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to delete image';
+      const errorMessage = err instanceof Error ? err.message : 'Failed to change image role';
       setError(errorMessage);
       throw err;
     }
-  }, [selectedGroupId, loadImages]);
-
-  const value: ImageGalleryContextType = {
-    // State
-    groups,
-    selectedGroupId,
-    images,
-    isLoadingGroups,
-    isLoadingImages,
-    error,
+  }, [images, selectedGroupId, loadImages, recordHistory]);
+
+  /**
+   * Replace the tags of an image
+   */
+  const setExistingImageTags = useCallback(async (imageId: number, tags: string[]): Promise<void> => {
+    setError(null);
+    try {
+      const image = images.find((item) => item.id === imageId);
+      await setImageTags(imageId, tags);
+      if (image) {
+        recordHistory({ type: 'setImageTags', imageId, groupId: image.groupId, name: image.name, from: image.tags, to: tags });
+      }
+      if (selectedGroupId !== null) {
+        await loadImages(selectedGroupId);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to change image tags';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [images, selectedGroupId, loadImages, recordHistory]);
+
+  /**
+   * Save how an image is framed in the preview card
+   *
+   * Framing is adjusted continuously while panning and zooming, so it
+   * is not recorded in the undo history, and only the one image is
+   * updated in state rather than reloading the group.
+   */
+  const setExistingImageFraming = useCallback(async (
+    imageId: number,
+    framing: ImageFraming | null
+  ): Promise<void> => {
+    setError(null);
+    try {
+      await setImageFraming(imageId, framing);
+      setImages((prev) => prev.map((item) => (item.id === imageId ? { ...item, framing } : item)));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save image framing';
+      setError(errorMessage);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Reset the preview framing of every image in a group
+   */
+  const resetGroupImageFraming = useCallback(async (groupId: number): Promise<void> => {
+    setError(null);
+    try {
+      await resetGroupFraming(groupId);
+      setImages((prev) => prev.map((item) => (item.groupId === groupId ? { ...item, framing: null } : item)));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to reset image framing';
+      setError(errorMessage);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Extract the color palettes of a group's images again
+   */
+  const recomputePalettes = useCallback(async (
+    groupId: number,
+    onlyMissing = false,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<number> => {
+    setError(null);
+    try {
+      const updated = await recomputeGroupPalettes(groupId, { onlyMissing, onProgress });
+      if (selectedGroupId === groupId) {
+        await loadImages(groupId);
+      }
+      return updated;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to extract palettes';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [selectedGroupId, loadImages]);
+
+  /**
+   * Save the annotations drawn on an image
+   */
+  const saveImageAnnotations = useCallback(async (input: AnnotationsInput): Promise<void> => {
+    setError(null);
+    try {
+      await saveAnnotations(input);
+      if (selectedGroupId === input.groupId) {
+        await loadAnnotations(input.groupId);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save annotations';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [selectedGroupId, loadAnnotations]);
+
+  /**
+   * Show or hide annotations over images (remembered on this device)
+   */
+  const setShowAnnotations = useCallback((show: boolean): void => {
+    saveShowAnnotations(show);
+    setShowAnnotationsState(show);
+  }, []);
+
+  /**
+   * Move an image within its group
+   *
+   * The local image list is reordered optimistically so drag-to-reorder
+   * feels instant, then reloaded from the database to pick up the
+   * persisted positions (or to roll back if saving failed).
+   */
+  const moveExistingImage = useCallback(async (imageId: number, toIndex: number): Promise<void> => {
+    setError(null);
+    const fromIndex = images.findIndex((image) => image.id === imageId);
+    const movedImage = images[fromIndex];
+    setImages((prev) => {
+      const fromIndex = prev.findIndex((image) => image.id === imageId);
+      if (fromIndex === -1) return prev;
+      const reordered = [...prev];
+      const [moved] = reordered.splice(fromIndex, 1);
+      reordered.splice(Math.max(0, Math.min(reordered.length, toIndex)), 0, moved);
+      return reordered;
+    });
+
+    try {
+      await moveImage(imageId, toIndex);
+      if (movedImage) {
+        recordHistory({
+          type: 'moveImage',
+          imageId,
+          groupId: movedImage.groupId,
+          name: movedImage.name,
+          fromIndex,
+          toIndex
+        });
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to move image';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      if (selectedGroupId !== null) {
+        await loadImages(selectedGroupId);
+      }
+    }
+  }, [images, selectedGroupId, loadImages, recordHistory]);
+
+  /**
+   * Move an image to the trash
+   */
+  const deleteExistingImage = useCallback(async (imageId: number): Promise<void> => {
+    setError(null);
+    try {
+      const image = images.find((item) => item.id === imageId);
+      await trashImage(imageId);
+      if (image) {
+        recordHistory({ type: 'deleteImage', imageId, groupId: image.groupId, name: image.name });
+      }
+      await loadTrash();
+      if (selectedGroupId !== null) {
+        await loadImages(selectedGroupId);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete image';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [images, selectedGroupId, loadImages, loadTrash, recordHistory]);
+
+  /**
+   * Add an item to the selected group's materials list
+   */
+  const addMaterialItem = useCallback(async (input: MaterialInput): Promise<void> => {
+    if (selectedGroupId === null) return;
+    setError(null);
+    try {
+      await addMaterial(selectedGroupId, input);
+      await loadMaterials(selectedGroupId);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to add material';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [selectedGroupId, loadMaterials]);
+
+  /**
+   * Update fields of a material item
+   */
+  const updateMaterialItem = useCallback(async (
+    materialId: number,
+    changes: Partial<MaterialInput>
+  ): Promise<void> => {
+    setError(null);
+    try {
+      await updateMaterial(materialId, changes);
+      if (selectedGroupId !== null) {
+        await loadMaterials(selectedGroupId);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update material';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [selectedGroupId, loadMaterials]);
+
+  /**
+   * Permanently delete a material item
+   */
+  const deleteMaterialItem = useCallback(async (materialId: number): Promise<void> => {
+    setError(null);
+    try {
+      await deleteMaterial(materialId);
+      if (selectedGroupId !== null) {
+        await loadMaterials(selectedGroupId);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete material';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [selectedGroupId, loadMaterials]);
+
+  /**
+   * Restore a trashed group
+   */
+  const restoreTrashedGroup = useCallback(async (groupId: number): Promise<void> => {
+    setError(null);
+    try {
+      await restoreGroup(groupId);
+      await Promise.all([loadGroups(), loadTrash()]);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to restore group';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadGroups, loadTrash]);
+
+  /**
+   * Restore a trashed image
+   *
+   * Its group may have been restored along with it, so groups are
+   * reloaded as well.
+   */
+  const restoreTrashedImage = useCallback(async (imageId: number): Promise<void> => {
+    setError(null);
+    try {
+      const groupId = await restoreImage(imageId);
+      await Promise.all([loadGroups(), loadTrash()]);
+      if (selectedGroupId === groupId) {
+        await loadImages(groupId);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to restore image';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadGroups, loadImages, loadTrash, selectedGroupId]);
+
+  /**
+   * Permanently delete a trashed group
+   */
+  const permanentlyDeleteGroup = useCallback(async (groupId: number): Promise<void> => {
+    setError(null);
+    try {
+      await deleteGroup(groupId);
+      // Events assigned to the deleted groups were unlinked
+      await Promise.all([loadTrash(), loadEvents()]);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete group';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadEvents, loadTrash]);
+
+  /**
+   * Permanently delete a trashed image
+   */
+  const permanentlyDeleteImage = useCallback(async (imageId: number): Promise<void> => {
+    setError(null);
+    try {
+      await deleteImage(imageId);
+      // Materials and tasks may have referred to the image
+      await Promise.all([
+        loadTrash(),
+        loadTasks(),
+        selectedGroupId !== null ? loadMaterials(selectedGroupId) : Promise.resolve()
+      ]);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete image';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadTrash, loadTasks, loadMaterials, selectedGroupId]);
+
+  /**
+   * Permanently delete everything in the trash
+   */
+  const emptyTrash = useCallback(async (): Promise<void> => {
+    setError(null);
+    try {
+      await purgeTrash();
+      // Events assigned to the deleted groups were unlinked, and materials
+      // and tasks may have referred to the deleted images
+      await Promise.all([
+        loadTrash(),
+        loadEvents(),
+        loadTasks(),
+        selectedGroupId !== null ? loadMaterials(selectedGroupId) : Promise.resolve()
+      ]);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to empty trash';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadEvents, loadTrash, loadTasks, loadMaterials, selectedGroupId]);
+
+  /**
+   * Change the trash retention period
+   *
+   * Items already older than the new period are purged right away.
+   */
+  const setTrashRetentionDays = useCallback(async (days: number): Promise<void> => {
+    setError(null);
+    saveTrashRetentionDays(days);
+    setTrashRetentionDaysState(days);
+    try {
+      await purgeTrash(new Date(Date.now() - days * DAY_MS));
+      await Promise.all([
+        loadTrash(),
+        loadTasks(),
+        selectedGroupId !== null ? loadMaterials(selectedGroupId) : Promise.resolve()
+      ]);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to purge trash';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [loadTrash, loadTasks, loadMaterials, selectedGroupId]);
+
+  /**
+   * Reloads everything an undo or redo may have touched
+   */
+  const reloadAfterHistory = useCallback(async (): Promise<void> => {
+    await Promise.all([loadGroups(), loadTrash()]);
+    if (selectedGroupId !== null) {
+      await loadImages(selectedGroupId);
+    }
+  }, [loadGroups, loadImages, loadTrash, selectedGroupId]);
+
+  /**
+   * Undo the most recent action
+   *
+   * If the inverse cannot be applied (e.g. the item was purged from
+   * the trash since), the entry is dropped and the error is reported.
+   */
+  const undo = useCallback(async (): Promise<void> => {
+    const entry = history.undoStack[history.undoStack.length - 1];
+    if (!entry || isApplyingHistoryRef.current) return;
+
+    isApplyingHistoryRef.current = true;
+    setError(null);
+    try {
+      await undoEntry(entry);
+      setHistory((prev) => ({
+        undoStack: prev.undoStack.slice(0, -1),
+        redoStack: [...prev.redoStack, entry].slice(-MAX_HISTORY_ENTRIES)
+      }));
+    } catch (err) {
+      setHistory((prev) => ({ ...prev, undoStack: prev.undoStack.slice(0, -1) }));
+      const errorMessage = err instanceof Error ? err.message : 'Failed to undo';
+      setError(`Could not undo ${describeEntry(entry)}: ${errorMessage}`);
+      console.error('Failed to undo:', err);
+    } finally {
+      isApplyingHistoryRef.current = false;
+      await reloadAfterHistory();
+    }
+  }, [history, reloadAfterHistory]);
+
+  /**
+   * Redo the most recently undone action
+   */
+  const redo = useCallback(async (): Promise<void> => {
+    const entry = history.redoStack[history.redoStack.length - 1];
+    if (!entry || isApplyingHistoryRef.current) return;
+
+    isApplyingHistoryRef.current = true;
+    setError(null);
+    try {
+      await redoEntry(entry);
+      setHistory((prev) => ({
+        undoStack: [...prev.undoStack, entry].slice(-MAX_HISTORY_ENTRIES),
+        redoStack: prev.redoStack.slice(0, -1)
+      }));
+    } catch (err) {
+      setHistory((prev) => ({ ...prev, redoStack: prev.redoStack.slice(0, -1) }));
+      const errorMessage = err instanceof Error ? err.message : 'Failed to redo';
+      setError(`Could not redo ${describeEntry(entry)}: ${errorMessage}`);
+      console.error('Failed to redo:', err);
+    } finally {
+      isApplyingHistoryRef.current = false;
+      await reloadAfterHistory();
+    }
+  }, [history, reloadAfterHistory]);
+
+  /**
+   * Keyboard shortcuts: Ctrl+Z to undo, Ctrl+Shift+Z (or Ctrl+Y) to redo
+   *
+   * Cmd is accepted in place of Ctrl on macOS. Ignored while typing in a
+   * text field so the browser's own text undo keeps working there.
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)
+      ) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  /**
+   * Restore a backup archive
+   *
+   * Reloads everything afterwards. In replace mode the previous
+   * selection and undo history no longer apply, so they are cleared.
+   */
+  const restoreBackup = useCallback(async (archive: Blob, mode: RestoreMode): Promise<ImportReport> => {
+    setError(null);
+    try {
+      const report = await importBackup(archive, mode);
+      await Promise.all([loadGroups(), loadTrash(), loadTasks(), loadEvents(), loadMeasurementProfiles()]);
+      if (mode === 'replace') {
+        setSelectedGroupId(null);
+        // Recorded IDs refer to records that no longer exist
+        setHistory({ undoStack: [], redoStack: [] });
+      } else if (selectedGroupId !== null) {
+        await Promise.all([
+          loadImages(selectedGroupId),
+          loadMaterials(selectedGroupId),
+          loadAnnotations(selectedGroupId)
+        ]);
+      }
+      return report;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to restore backup';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [
+    loadAnnotations,
+    loadEvents,
+    loadGroups,
+    loadImages,
+    loadMaterials,
+    loadMeasurementProfiles,
+    loadTasks,
+    loadTrash,
+    selectedGroupId
+  ]);
+
+  /**
+   * Search groups and images across the whole gallery
+   */
+  const searchLibrary = useCallback(async (query: string): Promise<SearchResults> => {
+    try {
+      return await searchGallery(query);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to search';
+      setError(errorMessage);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * List every tag in use
+   */
+  const listTags = useCallback(async (): Promise<string[]> => {
+    try {
+      return await getAllTags();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to get tags';
+      setError(errorMessage);
+      throw err;
+    }
+  }, []);
+
+  const value: ImageGalleryContextType = {
+    // State
+    groups,
+    selectedGroupId,
+    images,
+    materials,
+    annotations,
+    showAnnotations,
+    tasks,
+    events,
+    measurementProfiles,
+    focusedImageId,
+    isLoadingGroups,
+    hasLoadedGroups,
+    isLoadingImages,
+    error,
+    databaseError,
+    connectionStatus,
+    trash,
+    trashRetentionDays,
+    canUndo: history.undoStack.length > 0,
+    canRedo: history.redoStack.length > 0,
+    undoLabel: history.undoStack.length > 0
+      ? describeEntry(history.undoStack[history.undoStack.length - 1])
+      : null,
+    redoLabel: history.redoStack.length > 0
+      ? describeEntry(history.redoStack[history.redoStack.length - 1])
+      : null,
 
     // Actions
     selectGroup,
     createNewGroup,
     renameExistingGroup,
+    updateExistingGroupDetails,
+    setExistingGroupPreviewLayout,
     deleteExistingGroup,
+    createNewTask,
+    updateExistingTask,
+    moveExistingTask,
+    deleteExistingTask,
+    createNewEvent,
+    updateExistingEvent,
+    deleteExistingEvent,
+    createNewProfile,
+    updateExistingProfile,
+    saveProfileRevision,
+    deleteProfileRevision,
+    deleteExistingProfile,
     addImageToGroup,
     renameExistingImage,
+    setExistingImageRole,
+    setExistingImageTags,
+    setExistingImageFraming,
+    resetGroupImageFraming,
+    recomputePalettes,
+    saveImageAnnotations,
+    setShowAnnotations,
+    moveExistingImage,
     deleteExistingImage,
+    addMaterialItem,
+    updateMaterialItem,
+    deleteMaterialItem,
+    restoreTrashedGroup,
+    restoreTrashedImage,
+    permanentlyDeleteGroup,
+    permanentlyDeleteImage,
+    emptyTrash,
+    setTrashRetentionDays,
+    undo,
+    redo,
+    restoreBackup,
+    searchLibrary,
+    listTags,
+    openSearchResult,
+    clearFocusedImage,
   };
 
   return (
@@ -321,21 +1594,31 @@ export const useImageGallery = (): ImageGalleryContextType => {
 export const useGroups = () => {
   const {
     groups,
+    tasks,
+    measurementProfiles,
     selectedGroupId,
     isLoadingGroups,
+    hasLoadedGroups,
     selectGroup,
     createNewGroup,
     renameExistingGroup,
+    updateExistingGroupDetails,
+    setExistingGroupPreviewLayout,
     deleteExistingGroup,
   } = useImageGallery();
 
   return {
     groups,
+    tasks,
+    measurementProfiles,
     selectedGroupId,
     isLoadingGroups,
+    hasLoadedGroups,
     selectGroup,
     createNewGroup,
     renameExistingGroup,
+    updateExistingGroupDetails,
+    setExistingGroupPreviewLayout,
     deleteExistingGroup,
   };
 };
@@ -357,18 +1640,290 @@ export const useImages = () => {
   const {
     images,
     selectedGroupId,
+    focusedImageId,
     isLoadingImages,
     addImageToGroup,
     renameExistingImage,
+    setExistingImageRole,
+    setExistingImageTags,
+    setExistingImageFraming,
+    resetGroupImageFraming,
+    moveExistingImage,
     deleteExistingImage,
+    clearFocusedImage,
   } = useImageGallery();
 
   return {
     images,
     selectedGroupId,
+    focusedImageId,
     isLoadingImages,
     addImageToGroup,
     renameExistingImage,
+    setExistingImageRole,
+    setExistingImageTags,
+    setExistingImageFraming,
+    resetGroupImageFraming,
+    moveExistingImage,
     deleteExistingImage,
+    clearFocusedImage,
+  };
+};
+
+/**
+ * Custom hook to access the color palettes of the selected group
+ *
+ * Palettes are stored on each image; see ./services/palette.ts for
+ * extraction and aggregation.
+ *
+ * @returns The selected group, its images and palette actions
+ *
+ * @example
+ * ```typescript
+ * const { selectedGroup, images, recomputePalettes } = usePalette();
+ * const palette = aggregatePalettes(images);
+ * ```
+ */
+export const usePalette = () => {
+  const { groups, selectedGroupId, images, recomputePalettes } = useImageGallery();
+
+  return {
+    selectedGroup: groups.find((group) => group.id === selectedGroupId) ?? null,
+    images,
+    recomputePalettes,
+  };
+};
+
+/**
+ * Custom hook to access the annotations of the selected group's images
+ *
+ * See ./services/annotations.ts for rendering and flattening them.
+ *
+ * @returns Annotation state and actions
+ *
+ * @example
+ * ```typescript
+ * const { annotations, showAnnotations, saveImageAnnotations } = useAnnotations();
+ * const forImage = annotations.find((record) => record.imageId === image.id);
+ * ```
+ */
+export const useAnnotations = () => {
+  const { annotations, showAnnotations, saveImageAnnotations, setShowAnnotations } = useImageGallery();
+
+  return { annotations, showAnnotations, saveImageAnnotations, setShowAnnotations };
+};
+
+/**
+ * Custom hook to access the gallery-wide search
+ *
+ * @returns Search actions
+ *
+ * @example
+ * ```typescript
+ * const { searchLibrary, openSearchResult } = useSearch();
+ * const { images } = await searchLibrary('#wig');
+ * openSearchResult(images[0].group.id, images[0].image.id);
+ * ```
+ */
+export const useSearch = () => {
+  const { searchLibrary, listTags, openSearchResult } = useImageGallery();
+
+  return { searchLibrary, listTags, openSearchResult };
+};
+
+/**
+ * Custom hook to access the selected group's build task checklist
+ *
+ * Includes the group's images for attaching progress images to tasks.
+ *
+ * @returns Task-related state and actions for the selected group
+ *
+ * @example
+ * ```typescript
+ * const { tasks, createNewTask } = useTasks();
+ * ```
+ */
+export const useTasks = () => {
+  const {
+    groups,
+    selectedGroupId,
+    images,
+    tasks,
+    createNewTask,
+    updateExistingTask,
+    moveExistingTask,
+    deleteExistingTask,
+  } = useImageGallery();
+
+  return {
+    selectedGroup: groups.find((group) => group.id === selectedGroupId) ?? null,
+    images,
+    tasks: tasks.filter((task) => task.groupId === selectedGroupId),
+    createNewTask,
+    updateExistingTask,
+    moveExistingTask,
+    deleteExistingTask,
   };
 };
+
+/**
+ * Custom hook to access the event calendar
+ *
+ * Includes all groups and their tasks for showing which plans are
+ * assigned to each event and how far along they are.
+ *
+ * @returns Event-related state and actions
+ *
+ * @example
+ * ```typescript
+ * const { events, createNewEvent } = useEvents();
+ * ```
+ */
+export const useEvents = () => {
+  const {
+    groups,
+    tasks,
+    events,
+    selectGroup,
+    createNewEvent,
+    updateExistingEvent,
+    deleteExistingEvent,
+  } = useImageGallery();
+
+  return {
+    groups,
+    tasks,
+    events,
+    selectGroup,
+    createNewEvent,
+    updateExistingEvent,
+    deleteExistingEvent,
+  };
+};
+
+/**
+ * Custom hook to access the body measurement profiles
+ *
+ * Includes the groups (and the selected group ID) for showing which
+ * plans use each profile and the measurements of the selected plan.
+ *
+ * @returns Measurement-related state and actions
+ *
+ * @example
+ * ```typescript
+ * const { measurementProfiles, saveProfileRevision } = useMeasurements();
+ * ```
+ */
+export const useMeasurements = () => {
+  const {
+    groups,
+    selectedGroupId,
+    measurementProfiles,
+    selectGroup,
+    createNewProfile,
+    updateExistingProfile,
+    saveProfileRevision,
+    deleteProfileRevision,
+    deleteExistingProfile,
+  } = useImageGallery();
+
+  return {
+    groups,
+    selectedGroupId,
+    measurementProfiles,
+    selectGroup,
+    createNewProfile,
+    updateExistingProfile,
+    saveProfileRevision,
+    deleteProfileRevision,
+    deleteExistingProfile,
+  };
+};
+
+/**
+ * Custom hook to access the selected group's materials list
+ *
+ * Includes the selected group itself for its budget, and the group's
+ * images for linking reference images to items.
+ *
+ * @returns Materials-related state and actions
+ *
+ * @example
+ * ```typescript
+ * const { materials, addMaterialItem } = useMaterials();
+ * ```
+ */
+export const useMaterials = () => {
+  const {
+    groups,
+    selectedGroupId,
+    images,
+    materials,
+    addMaterialItem,
+    updateMaterialItem,
+    deleteMaterialItem,
+    updateExistingGroupDetails,
+  } = useImageGallery();
+
+  return {
+    selectedGroup: groups.find((group) => group.id === selectedGroupId) ?? null,
+    images,
+    materials,
+    addMaterialItem,
+    updateMaterialItem,
+    deleteMaterialItem,
+    updateExistingGroupDetails,
+  };
+};
+
+/**
+ * Custom hook to access only trash-related state and actions
+ *
+ * Convenience hook for the trash view.
+ *
+ * @returns Trash-related state and actions
+ *
+ * @example
+ * ```typescript
+ * const { trash, restoreTrashedGroup, emptyTrash } = useTrash();
+ * ```
+ */
+export const useTrash = () => {
+  const {
+    trash,
+    trashRetentionDays,
+    restoreTrashedGroup,
+    restoreTrashedImage,
+    permanentlyDeleteGroup,
+    permanentlyDeleteImage,
+    emptyTrash,
+    setTrashRetentionDays,
+  } = useImageGallery();
+
+  return {
+    trash,
+    trashRetentionDays,
+    restoreTrashedGroup,
+    restoreTrashedImage,
+    permanentlyDeleteGroup,
+    permanentlyDeleteImage,
+    emptyTrash,
+    setTrashRetentionDays,
+  };
+};
+
+/**
+ * Custom hook to access only undo/redo state and actions
+ *
+ * @returns Undo/redo state and actions
+ *
+ * @example
+ * ```typescript
+ * const { canUndo, undo } = useHistory();
+ * ```
+ */
+export const useHistory = () => {
+  const { canUndo, canRedo, undoLabel, redoLabel, undo, redo } = useImageGallery();
+
+  return { canUndo, canRedo, undoLabel, redoLabel, undo, redo };
+};
@@ -0,0 +1,59 @@
+import { useEffect, useEffectEvent, useState } from 'react';
+import { getDisplayBlob, type StoredImage } from '../services/db';
+
+/**
+ * Custom hook that provides an object URL for displaying an image
+ *
+ * With a `displaySize`, the smallest stored thumbnail that covers that
+ * size is used (thumbnails are backfilled on first use). Without one,
+ * the full-size original is used; reserve that for full-size views.
+ *
+ * The object URL is revoked automatically when the image or size
+ * changes and when the component unmounts.
+ *
+ * @param image - The image to display
+ * @param displaySize - Longest edge the image is shown at, in CSS pixels (omit for the original)
+ * @returns The object URL, or an empty string while it is loading
+ *
+ * @example
+ * ```typescript
+ * const thumbnailUrl = useImageUrl(image, 256);
+ * const originalUrl = useImageUrl(image);
+ * ```
+ */
+export const useImageUrl = (image: StoredImage, displaySize?: number): string => {
+  const [imageUrl, setImageUrl] = useState<string>('');
+
+  /**
+   * Picks the blob to show, reading the latest image record so metadata
+   * edits like a rename don't have to reload the URL
+   */
+  const getBlob = useEffectEvent(async (): Promise<Blob> => {
+    return displaySize === undefined
+      ? image.blob
+      : getDisplayBlob(image, displaySize).catch(() => image.blob);
+  });
+
+  useEffect(() => {
+    let url: string | null = null;
+    let isCancelled = false;
+
+    const load = async (): Promise<void> => {
+      const blob = await getBlob();
+      if (isCancelled) return;
+      url = URL.createObjectURL(blob);
+      setImageUrl(url);
+    };
+
+    load();
+
+    return () => {
+      isCancelled = true;
+      if (url) {
+        URL.revokeObjectURL(url);
+      }
+    };
+  }, [image.id, image.blob, displaySize]);
+
+  return imageUrl;
+};
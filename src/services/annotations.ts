@@ -0,0 +1,294 @@
+/**
+ * Image Annotations
+ *
+ * Vector markup (arrows, circles, freehand strokes and text callouts)
+ * drawn over images, e.g. "this trim is gold, not yellow" on a
+ * reference image. Shapes are stored apart from the image blob (see
+ * ImageAnnotations in ./db.ts) with coordinates in pixels of the
+ * original image, so they line up at any display size. This module
+ * renders them as SVG for overlays and onto a canvas for flattened
+ * exports.
+ */
+
+import type { AnnotationKind, AnnotationPoint, AnnotationShape, ImageAnnotations } from './db';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Colors offered in the annotation editor, the first being the default */
+export const ANNOTATION_COLORS = ['#ef4444', '#facc15', '#22c55e', '#3b82f6', '#ffffff', '#111827'];
+
+/** Drawing tools with their display labels */
+export const ANNOTATION_TOOLS: { value: AnnotationKind; label: string }[] = [
+  { value: 'arrow', label: 'Arrow' },
+  { value: 'circle', label: 'Circle' },
+  { value: 'freehand', label: 'Freehand' },
+  { value: 'text', label: 'Text' }
+];
+
+/**
+ * Stroke width relative to the longest image edge
+ *
+ * Keeps markup equally visible on small and very large images.
+ */
+const STROKE_WIDTH_RATIO = 1 / 250;
+
+/** Thinnest stroke, in image pixels */
+const MIN_STROKE_WIDTH = 2;
+
+/** Font size of text callouts, as a multiple of the stroke width */
+const FONT_SIZE_FACTOR = 8;
+
+/** Length of the arrowhead sides, as a multiple of the stroke width */
+const ARROWHEAD_LENGTH_FACTOR = 5;
+
+/** Angle between the arrow shaft and each arrowhead side, in radians */
+const ARROWHEAD_ANGLE = Math.PI / 7;
+
+/** Outline drawn behind text callouts so they stay readable on any background */
+export const ANNOTATION_TEXT_OUTLINE = 'rgba(0, 0, 0, 0.75)';
+
+/** Font of text callouts */
+export const ANNOTATION_FONT_FAMILY = 'system-ui, sans-serif';
+
+/** Encoder quality for flattened JPEG images (0-1) */
+const FLATTENED_JPEG_QUALITY = 0.92;
+
+// ============================================
+// GEOMETRY
+// ============================================
+
+/**
+ * Gets the stroke width used for an image's annotations
+ *
+ * @param size - The original image size
+ * @returns Stroke width in image pixels
+ */
+export const annotationStrokeWidth = (size: { width: number; height: number }): number => {
+  return Math.max(MIN_STROKE_WIDTH, Math.round(Math.max(size.width, size.height) * STROKE_WIDTH_RATIO));
+};
+
+/**
+ * Gets the font size used for an image's text callouts
+ *
+ * @param size - The original image size
+ * @returns Font size in image pixels
+ */
+export const annotationFontSize = (size: { width: number; height: number }): number => {
+  return annotationStrokeWidth(size) * FONT_SIZE_FACTOR;
+};
+
+/**
+ * Creates an identifier for a new shape
+ *
+ * @returns An identifier that is unique within one image's annotations
+ */
+export const createShapeId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+/**
+ * Builds the SVG path data of a stroked shape
+ *
+ * The same path data is used for SVG overlays and (through Path2D)
+ * for drawing on a canvas, so both render identically.
+ *
+ * @param shape - An arrow, circle or freehand shape
+ * @param strokeWidth - Stroke width, which sets the arrowhead size
+ * @returns Path data, or an empty string for text shapes and incomplete shapes
+ *
+ * @example
+ * ```typescript
+ * const d = shapePath(shape, annotationStrokeWidth(record));
+ * context.stroke(new Path2D(d));
+ * ```
+ */
+export const shapePath = (shape: AnnotationShape, strokeWidth: number): string => {
+  const [start, end] = shape.points;
+  if (!start) return '';
+
+  switch (shape.kind) {
+    case 'arrow': {
+      if (!end) return '';
+      const angle = Math.atan2(end.y - start.y, end.x - start.x);
+      const length = strokeWidth * ARROWHEAD_LENGTH_FACTOR;
+      const left = {
+        x: end.x - length * Math.cos(angle - ARROWHEAD_ANGLE),
+        y: end.y - length * Math.sin(angle - ARROWHEAD_ANGLE)
+      };
+      const right = {
+        x: end.x - length * Math.cos(angle + ARROWHEAD_ANGLE),
+        y: end.y - length * Math.sin(angle + ARROWHEAD_ANGLE)
+      };
+      return `M${point(start)} L${point(end)} M${point(left)} L${point(end)} L${point(right)}`;
+    }
+    case 'circle': {
+      if (!end) return '';
+      const rx = Math.abs(end.x - start.x) / 2;
+      const ry = Math.abs(end.y - start.y) / 2;
+      const cx = Math.min(start.x, end.x) + rx;
+      const cy = Math.min(start.y, end.y) + ry;
+      if (rx === 0 || ry === 0) return '';
+      return `M${round(cx - rx)} ${round(cy)} A${round(rx)} ${round(ry)} 0 1 0 ${round(cx + rx)} ${round(cy)} ` +
+        `A${round(rx)} ${round(ry)} 0 1 0 ${round(cx - rx)} ${round(cy)} Z`;
+    }
+    case 'freehand':
+      return shape.points.map((item, index) => `${index === 0 ? 'M' : 'L'}${point(item)}`).join(' ');
+    default:
+      return '';
+  }
+};
+
+// ============================================
+// RENDERING
+// ============================================
+
+/**
+ * Renders an image's annotations as a standalone SVG document
+ *
+ * The SVG has the original image's size, so an `<img>` showing it with
+ * the same sizing and object-fit as the photo lines up exactly.
+ *
+ * @param annotations - The annotations to render
+ * @returns SVG markup
+ */
+export const annotationsToSvg = (annotations: ImageAnnotations): string => {
+  const { width, height } = annotations;
+  const strokeWidth = annotationStrokeWidth(annotations);
+  const fontSize = annotationFontSize(annotations);
+
+  const elements = annotations.shapes.map((shape) => {
+    if (shape.kind === 'text') {
+      const anchor = shape.points[0];
+      if (!anchor || !shape.text) return '';
+      return `<text x="${round(anchor.x)}" y="${round(anchor.y)}" fill="${shape.color}" ` +
+        `stroke="${ANNOTATION_TEXT_OUTLINE}" stroke-width="${fontSize / 6}" paint-order="stroke" ` +
+        `stroke-linejoin="round" font-family="${ANNOTATION_FONT_FAMILY}" font-size="${fontSize}" ` +
+        `font-weight="bold" dominant-baseline="hanging">${escapeXml(shape.text)}</text>`;
+    }
+    const d = shapePath(shape, strokeWidth);
+    if (!d) return '';
+    return `<path d="${d}" fill="none" stroke="${shape.color}" stroke-width="${strokeWidth}" ` +
+      'stroke-linecap="round" stroke-linejoin="round"/>';
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+    `viewBox="0 0 ${width} ${height}">${elements.join('')}</svg>`;
+};
+
+/**
+ * Renders an image's annotations as a data URL for an `<img>` overlay
+ *
+ * @param annotations - The annotations to render
+ * @returns An `image/svg+xml` data URL
+ */
+export const annotationsToDataUrl = (annotations: ImageAnnotations): string => {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(annotationsToSvg(annotations))}`;
+};
+
+/**
+ * Draws an image's annotations onto a canvas
+ *
+ * Shapes are drawn in original image pixels; callers drawing the image
+ * at another size set up the context's transform first.
+ *
+ * @param context - The canvas context to draw on
+ * @param annotations - The annotations to draw
+ */
+export const drawAnnotations = (context: CanvasRenderingContext2D, annotations: ImageAnnotations): void => {
+  const strokeWidth = annotationStrokeWidth(annotations);
+  const fontSize = annotationFontSize(annotations);
+
+  context.save();
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+
+  annotations.shapes.forEach((shape) => {
+    if (shape.kind === 'text') {
+      const anchor = shape.points[0];
+      if (!anchor || !shape.text) return;
+      context.font = `bold ${fontSize}px ${ANNOTATION_FONT_FAMILY}`;
+      context.textBaseline = 'top';
+      context.lineWidth = fontSize / 6;
+      context.strokeStyle = ANNOTATION_TEXT_OUTLINE;
+      context.strokeText(shape.text, anchor.x, anchor.y);
+      context.fillStyle = shape.color;
+      context.fillText(shape.text, anchor.x, anchor.y);
+      return;
+    }
+    const d = shapePath(shape, strokeWidth);
+    if (!d) return;
+    context.lineWidth = strokeWidth;
+    context.strokeStyle = shape.color;
+    context.stroke(new Path2D(d));
+  });
+
+  context.restore();
+};
+
+/**
+ * Draws an image with its annotations into a new image file
+ *
+ * The stored image is not changed; this is only used for exports.
+ *
+ * @param blob - The original image data
+ * @param annotations - The image's annotations
+ * @returns Promise that resolves to the flattened image (JPEG for JPEG originals, otherwise PNG)
+ * @throws Error if the image cannot be decoded or encoded
+ *
+ * @example
+ * ```typescript
+ * const flattened = await flattenAnnotations(image.blob, annotations);
+ * downloadBlob(flattened, 'reference-annotated.png');
+ * ```
+ */
+export const flattenAnnotations = async (blob: Blob, annotations: ImageAnnotations): Promise<Blob> => {
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  drawAnnotations(context, annotations);
+
+  const type = blob.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (result) => (result ? resolve(result) : reject(new Error('Failed to encode annotated image'))),
+      type,
+      FLATTENED_JPEG_QUALITY
+    );
+  });
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Rounds a coordinate to one decimal, keeping path data short
+ */
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Formats a point for SVG path data
+ */
+const point = ({ x, y }: AnnotationPoint): string => `${round(x)} ${round(y)}`;
+
+/**
+ * Escapes text for use inside SVG markup
+ */
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
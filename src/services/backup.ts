@@ -0,0 +1,481 @@
+/**
+ * Backup Service
+ *
+ * Exports the whole gallery (every group, image, materials list, task, event, measurement
+ * profile and image annotation, blobs included)
+ * into a single zip archive and restores such archives back into IndexedDB.
+ *
+ * Archive layout:
+ * - manifest.json            - Format info plus all group, image, material, task, event,
+ *                              measurement profile and annotation records
+ *                              (image records reference their file instead of a blob)
+ * - images/<id>.<ext>        - The original image data, stored uncompressed
+ *
+ * The manifest keeps every record field as-is, so fields added by later
+ * schema migrations travel with the backup automatically.
+ *
+ * Image data is streamed into the archive one blob at a time on export and
+ * sliced straight out of the archive file on import, so neither direction
+ * holds a copy of the whole gallery in memory.
+ */
+
+import { inflateSync, strFromU8, strToU8, Zip, ZipDeflate, ZipPassThrough } from 'fflate';
+import {
+  getAllAnnotations,
+  getAllEvents,
+  getAllGroups,
+  getAllImages,
+  getAllMaterials,
+  getAllMeasurementProfiles,
+  getAllTasks,
+  restoreRecords,
+  type BuildTask,
+  type ConventionEvent,
+  type ImageAnnotations,
+  type ImageGroup,
+  type MaterialItem,
+  type MeasurementProfile,
+  type RestoreMode,
+  type StoredImage
+} from './db';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Image record as written to the manifest (blob replaced by a file reference)
+ */
+type ManifestImage = Omit<StoredImage, 'blob'> & {
+  /** Path of the image data inside the archive */
+  file: string;
+  /** MIME type of the original blob */
+  type: string;
+};
+
+/**
+ * Contents of manifest.json
+ */
+interface BackupManifest {
+  /** Identifies the file as a backup of this app */
+  format: typeof BACKUP_FORMAT;
+  /** Version of the archive layout */
+  formatVersion: number;
+  /** ISO timestamp when the backup was created */
+  exportedAt: string;
+  /** All groups */
+  groups: ImageGroup[];
+  /** All images, without blobs */
+  images: ManifestImage[];
+  /** All material list items (missing in backups made before materials existed) */
+  materials?: MaterialItem[];
+  /** All build tasks (missing in backups made before tasks existed) */
+  tasks?: BuildTask[];
+  /** All events (missing in backups made before events existed) */
+  events?: ConventionEvent[];
+  /** All measurement profiles (missing in backups made before profiles existed) */
+  measurements?: MeasurementProfile[];
+  /** All image annotations (missing in backups made before annotations existed) */
+  annotations?: ImageAnnotations[];
+}
+
+/**
+ * Summary of an import, shown to the user afterwards
+ */
+export interface ImportReport {
+  /** Mode the backup was restored with */
+  mode: RestoreMode;
+  /** ISO timestamp when the imported backup was created */
+  exportedAt: string;
+  /** Number of groups written to the database */
+  groupsImported: number;
+  /** Number of images written to the database */
+  imagesImported: number;
+  /** Names of images listed in the manifest whose data was missing from the archive */
+  skippedImages: string[];
+}
+
+/**
+ * Location of a file inside the archive, read from the zip central directory
+ */
+interface ArchiveEntry {
+  /** Zip compression method (0 = stored, 8 = deflate) */
+  compression: number;
+  /** Size of the file data as stored in the archive */
+  compressedSize: number;
+  /** Offset of the file's local header from the start of the archive */
+  headerOffset: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const BACKUP_FORMAT = 'simple-cosplay-plan-profile-backup';
+const BACKUP_FORMAT_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+
+/** Zip record signatures */
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50;
+
+/** Fixed sizes of the zip records read on import */
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_DIRECTORY_SIZE = 22;
+/** The end of directory record may be followed by a comment of up to this many bytes */
+const MAX_COMMENT_SIZE = 0xffff;
+
+/** File extensions for common image MIME types */
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'image/avif': 'avif',
+  'image/bmp': 'bmp'
+};
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * Builds a backup archive of every group and image, including materials lists, tasks, events,
+ * measurement profiles and annotations
+ *
+ * Trashed groups are left out together with everything that belongs to
+ * them, so a restore never brings back images without a group.
+ *
+ * @returns Promise that resolves to the zip archive as a Blob
+ * @throws Error if reading from the database fails
+ *
+ * @example
+ * ```typescript
+ * const archive = await createBackup();
+ * downloadBlob(archive, backupFileName());
+ * ```
+ */
+export const createBackup = async (): Promise<Blob> => {
+  const [groups, images, materials, tasks, events, measurements, annotations] = await Promise.all([
+    getAllGroups(),
+    getAllImages(),
+    getAllMaterials(),
+    getAllTasks(),
+    getAllEvents(),
+    getAllMeasurementProfiles(),
+    getAllAnnotations()
+  ]);
+  const groupIds = new Set(groups.map((group) => group.id));
+  const parts: Blob[] = [];
+  let zipError: Error | null = null;
+  // Output chunks are moved into blobs as they arrive so they can be released
+  const zip = new Zip((error, chunk) => {
+    if (error) {
+      zipError = error;
+      return;
+    }
+    parts.push(new Blob([chunk as Uint8Array<ArrayBuffer>]));
+  });
+  const manifestImages: ManifestImage[] = [];
+
+  for (const image of images.filter((item) => groupIds.has(item.groupId))) {
+    const { blob, ...record } = image;
+    const file = `images/${image.id}.${EXTENSIONS[blob.type] || 'bin'}`;
+    // Images are already compressed, so store them as-is
+    const entry = new ZipPassThrough(file);
+    zip.add(entry);
+    const reader = blob.stream().getReader();
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      entry.push(result.value);
+    }
+    entry.push(new Uint8Array(0), true);
+    manifestImages.push({ ...record, file, type: blob.type });
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    groups,
+    images: manifestImages,
+    materials: materials.filter((item) => groupIds.has(item.groupId)),
+    tasks: tasks.filter((task) => groupIds.has(task.groupId)),
+    events: events.map((event) => ({
+      ...event,
+      groupIds: event.groupIds.filter((groupId) => groupIds.has(groupId))
+    })),
+    measurements,
+    annotations: annotations.filter((record) => groupIds.has(record.groupId))
+  };
+  const manifestEntry = new ZipDeflate(MANIFEST_FILE);
+  zip.add(manifestEntry);
+  manifestEntry.push(strToU8(JSON.stringify(manifest, null, 2)), true);
+  zip.end();
+
+  if (zipError) {
+    throw new Error(`Failed to create backup: ${(zipError as Error).message || 'Unknown error'}`);
+  }
+
+  return new Blob(parts, { type: 'application/zip' });
+};
+
+/**
+ * Suggested file name for a new backup, e.g. `cosplay-plans-backup-2025-01-15.zip`
+ */
+export const backupFileName = (): string => {
+  return `cosplay-plans-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+};
+
+/**
+ * Triggers a browser download of a blob
+ *
+ * @param blob - The data to download
+ * @param fileName - Suggested file name
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Restores a backup archive into the database
+ *
+ * The archive's directory and manifest are read and validated before anything
+ * is written, and the write itself is a single transaction. Images are not
+ * read into memory; each one is restored as a slice of the archive file.
+ *
+ * @param archive - The zip file selected by the user
+ * @param mode - Merge into or replace the current data
+ * @returns Promise that resolves to a report of what was imported
+ * @throws Error if the file is not a valid backup or the restore fails
+ *
+ * @example
+ * ```typescript
+ * const report = await importBackup(file, 'merge');
+ * console.log(`Imported ${report.groupsImported} groups`);
+ * ```
+ */
+export const importBackup = async (archive: Blob, mode: RestoreMode): Promise<ImportReport> => {
+  let entries: Map<string, ArchiveEntry>;
+  let manifestData: Uint8Array | undefined;
+  try {
+    entries = await readArchiveEntries(archive);
+    const manifestEntry = entries.get(MANIFEST_FILE);
+    manifestData = manifestEntry && (await readEntryBytes(archive, manifestEntry));
+  } catch {
+    throw new Error('The selected file is not a valid backup archive');
+  }
+
+  const manifest = parseManifest(manifestData);
+  const images: StoredImage[] = [];
+  const skippedImages: string[] = [];
+
+  for (const { file, type, ...record } of manifest.images) {
+    const entry = entries.get(file);
+    if (!entry) {
+      skippedImages.push(record.name);
+      continue;
+    }
+    let blob: Blob;
+    try {
+      blob = await readEntryBlob(archive, entry, type);
+    } catch {
+      throw new Error('The selected file is not a valid backup archive');
+    }
+    images.push({ ...record, blob });
+  }
+
+  const result = await restoreRecords(
+    {
+      groups: manifest.groups,
+      images,
+      materials: manifest.materials ?? [],
+      tasks: manifest.tasks ?? [],
+      events: manifest.events ?? [],
+      measurements: manifest.measurements ?? [],
+      // Annotations of images whose data was missing would have nothing to draw on
+      annotations: (manifest.annotations ?? []).filter((record) =>
+        images.some((image) => image.id === record.imageId)
+      )
+    },
+    mode
+  );
+
+  return {
+    mode,
+    exportedAt: manifest.exportedAt,
+    groupsImported: result.groupsRestored,
+    imagesImported: result.imagesRestored,
+    skippedImages
+  };
+};
+
+/**
+ * Parses and validates manifest.json
+ *
+ * @param data - Raw manifest bytes, or undefined if the archive has none
+ * @returns The parsed manifest
+ * @throws Error if the manifest is missing, malformed or from another app
+ */
+const parseManifest = (data: Uint8Array | undefined): BackupManifest => {
+  if (!data) {
+    throw new Error('The backup archive does not contain a manifest');
+  }
+
+  let manifest: Partial<BackupManifest>;
+  try {
+    manifest = JSON.parse(strFromU8(data)) as Partial<BackupManifest>;
+  } catch {
+    throw new Error('The backup manifest is not valid JSON');
+  }
+
+  if (manifest.format !== BACKUP_FORMAT) {
+    throw new Error('The selected file is not a backup from this app');
+  }
+
+  if ((manifest.formatVersion ?? 0) > BACKUP_FORMAT_VERSION) {
+    throw new Error('This backup was created by a newer version of the app');
+  }
+
+  if (!Array.isArray(manifest.groups) || !Array.isArray(manifest.images)) {
+    throw new Error('The backup manifest is incomplete');
+  }
+
+  return manifest as BackupManifest;
+};
+
+// ============================================
+// ARCHIVE READING
+// ============================================
+
+/**
+ * Reads the zip central directory, which lists every file in the archive
+ *
+ * Only the small records at the end of the archive are loaded; file data is
+ * left untouched until it is needed.
+ *
+ * @param archive - The zip file
+ * @returns Map of file paths to their location inside the archive
+ * @throws Error if the archive structure is invalid
+ */
+const readArchiveEntries = async (archive: Blob): Promise<Map<string, ArchiveEntry>> => {
+  const tailStart = Math.max(0, archive.size - END_OF_DIRECTORY_SIZE - MAX_COMMENT_SIZE);
+  const tail = new DataView(await archive.slice(tailStart).arrayBuffer());
+
+  let end = tail.byteLength - END_OF_DIRECTORY_SIZE;
+  while (end >= 0 && tail.getUint32(end, true) !== END_OF_DIRECTORY_SIGNATURE) {
+    end--;
+  }
+  if (end < 0) {
+    throw new Error('End of central directory not found');
+  }
+
+  const count = tail.getUint16(end + 10, true);
+  const directorySize = tail.getUint32(end + 12, true);
+  const directoryOffset = tail.getUint32(end + 16, true);
+  const directory = new Uint8Array(
+    await archive.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer()
+  );
+  const view = new DataView(directory.buffer);
+  const entries = new Map<string, ArchiveEntry>();
+
+  let position = 0;
+  for (let index = 0; index < count; index++) {
+    if (
+      position + CENTRAL_HEADER_SIZE > directory.length ||
+      view.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE
+    ) {
+      throw new Error('Invalid central directory entry');
+    }
+    const flags = view.getUint16(position + 8, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const nameStart = position + CENTRAL_HEADER_SIZE;
+    // Bit 11 marks UTF-8 names; older tools write them as Latin-1
+    const name = strFromU8(directory.subarray(nameStart, nameStart + nameLength), !(flags & 0x800));
+    entries.set(name, {
+      compression: view.getUint16(position + 10, true),
+      compressedSize: view.getUint32(position + 20, true),
+      headerOffset: view.getUint32(position + 42, true)
+    });
+    position =
+      nameStart + nameLength + view.getUint16(position + 30, true) + view.getUint16(position + 32, true);
+  }
+
+  return entries;
+};
+
+/**
+ * Returns a file's data exactly as stored in the archive, without reading it
+ *
+ * @param archive - The zip file
+ * @param entry - Location of the file
+ * @returns Slice of the archive holding the (possibly compressed) data
+ * @throws Error if the file's local header is invalid
+ */
+const sliceEntry = async (archive: Blob, entry: ArchiveEntry): Promise<Blob> => {
+  const { headerOffset } = entry;
+  const header = new DataView(
+    await archive.slice(headerOffset, headerOffset + LOCAL_HEADER_SIZE).arrayBuffer()
+  );
+  if (header.byteLength < LOCAL_HEADER_SIZE || header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error('Invalid local file header');
+  }
+
+  // The local header's name and extra field lengths can differ from the central directory's
+  const dataStart = headerOffset + LOCAL_HEADER_SIZE + header.getUint16(26, true) + header.getUint16(28, true);
+  return archive.slice(dataStart, dataStart + entry.compressedSize);
+};
+
+/**
+ * Reads and decompresses a small file, such as the manifest, into memory
+ *
+ * @param archive - The zip file
+ * @param entry - Location of the file
+ * @returns The file's contents
+ * @throws Error if the file cannot be read or uses an unsupported compression method
+ */
+const readEntryBytes = async (archive: Blob, entry: ArchiveEntry): Promise<Uint8Array> => {
+  const data = new Uint8Array(await (await sliceEntry(archive, entry)).arrayBuffer());
+  if (entry.compression === 0) {
+    return data;
+  }
+  if (entry.compression === 8) {
+    return inflateSync(data);
+  }
+  throw new Error(`Unsupported compression method ${entry.compression}`);
+};
+
+/**
+ * Returns a file as a typed Blob
+ *
+ * Stored files (all images written by this app) are returned as a slice of
+ * the archive, so their data is never copied into memory.
+ *
+ * @param archive - The zip file
+ * @param entry - Location of the file
+ * @param type - MIME type for the returned Blob
+ * @returns The file's contents
+ * @throws Error if the file cannot be read or uses an unsupported compression method
+ */
+const readEntryBlob = async (archive: Blob, entry: ArchiveEntry, type: string): Promise<Blob> => {
+  if (entry.compression === 0) {
+    const data = await sliceEntry(archive, entry);
+    return data.slice(0, data.size, type);
+  }
+  const data = await readEntryBytes(archive, entry);
+  return new Blob([data as Uint8Array<ArrayBuffer>], { type });
+};
@@ -0,0 +1,695 @@
+/**
+ * Preview Collage
+ *
+ * Layout templates of a group's preview card (see PreviewModal) and
+ * rendering of the same card into an image file. A template turns the
+ * previewed images into cells positioned in CSS pixels; the preview and
+ * the export both draw those cells, so an exported card matches what is
+ * shown on screen: the same cells, diagonal crops, and each image's pan
+ * position and zoom.
+ */
+
+import type { ImageAnnotations, ImageFraming, PreviewLayout, PreviewTemplate, StoredImage } from './db';
+import { drawAnnotations } from './annotations';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Placement of one image within a diagonal split row, in percent of the row
+ */
+export interface RowSlot {
+  /** Left edge in percent of the row width */
+  left: number;
+  /** Width in percent of the row width */
+  width: number;
+  /** Stacking order (earlier images are on top) */
+  zIndex: number;
+  /**
+   * Crop polygon as [x, y] points in percent of the slot, or null for
+   * no crop (the last image of a row)
+   */
+  clip: [number, number][] | null;
+}
+
+/**
+ * How a cell of the card is drawn
+ *
+ * - 'slice': part of a diagonal split row, cropped by its polygon
+ * - 'tile': rounded tile (grid, masonry and hero templates)
+ * - 'single': lone image of a diagonal row, rounded and bordered with
+ *   its name as a caption; it is not panned or zoomed
+ */
+export type CellKind = 'slice' | 'tile' | 'single';
+
+/**
+ * Placement of one image on the card, in CSS pixels
+ */
+export interface CardCell {
+  /** Index of the image in the previewed image list */
+  index: number;
+  /** Left edge */
+  x: number;
+  /** Top edge */
+  y: number;
+  /** Width */
+  width: number;
+  /** Height */
+  height: number;
+  /** Stacking order (cells of a diagonal row overlap) */
+  zIndex: number;
+  /** How the cell is drawn */
+  kind: CellKind;
+  /** Crop polygon as [x, y] points in percent of the cell (slices only) */
+  clip: [number, number][] | null;
+}
+
+/**
+ * A laid out preview card
+ */
+export interface CardLayout {
+  /** Width in CSS pixels */
+  width: number;
+  /** Height in CSS pixels */
+  height: number;
+  /** One cell per previewed image */
+  cells: CardCell[];
+}
+
+/**
+ * A layout template with its display labels and parameter range
+ */
+export interface PreviewTemplateOption {
+  /** The template */
+  value: PreviewTemplate;
+  /** Display label */
+  label: string;
+  /** Label of the perRow parameter */
+  perRowLabel: string;
+  /** Smallest allowed perRow */
+  minPerRow: number;
+  /** Largest allowed perRow */
+  maxPerRow: number;
+  /** perRow picked when switching to the template */
+  defaultPerRow: number;
+}
+
+/**
+ * File formats a collage can be exported as
+ */
+export type CollageFormat = 'image/png' | 'image/jpeg';
+
+/**
+ * One image of a collage to render
+ */
+export interface CollageImage {
+  /** The image */
+  image: StoredImage;
+  /** Its pan position and zoom */
+  framing: ImageFraming;
+  /** Annotations drawn over it, if shown */
+  annotations?: ImageAnnotations;
+}
+
+/**
+ * Options for rendering a collage
+ */
+export interface CollageOptions {
+  /** Width of the exported image in pixels */
+  outputWidth: number;
+  /** File format of the exported image */
+  format: CollageFormat;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Layout templates offered for the preview card */
+export const PREVIEW_TEMPLATES: PreviewTemplateOption[] = [
+  { value: 'diagonal', label: 'Diagonal split', perRowLabel: 'Per row', minPerRow: 2, maxPerRow: 6, defaultPerRow: 5 },
+  { value: 'grid', label: 'Grid', perRowLabel: 'Columns', minPerRow: 2, maxPerRow: 6, defaultPerRow: 3 },
+  { value: 'masonry', label: 'Masonry', perRowLabel: 'Columns', minPerRow: 2, maxPerRow: 5, defaultPerRow: 3 },
+  { value: 'hero', label: 'Hero + thumbnails', perRowLabel: 'Thumbnails per row', minPerRow: 2, maxPerRow: 6, defaultPerRow: 4 }
+];
+
+/** Layout of groups that never picked one */
+export const DEFAULT_PREVIEW_LAYOUT: PreviewLayout = { template: 'diagonal', perRow: 5, slant: null };
+
+/** Diagonal cut widths offered, in percent of an image's width */
+export const DIAGONAL_SLANTS = [10, 15, 20, 25, 30];
+
+/** Height of a diagonal split row in CSS pixels */
+export const PREVIEW_ROW_HEIGHT = 300;
+
+/** Vertical gap between diagonal split rows in CSS pixels */
+export const PREVIEW_ROW_GAP = 24;
+
+/** Gap between tiles in CSS pixels */
+const TILE_GAP = 8;
+
+/** Tallest hero image in CSS pixels */
+const HERO_MAX_HEIGHT = 480;
+
+/** Framing of an image that was not panned or zoomed */
+export const DEFAULT_FRAMING: ImageFraming = { x: 50, y: 50, scale: 1 };
+
+/** Smallest and largest zoom of an image within its cell */
+export const MIN_FRAMING_SCALE = 0.5;
+export const MAX_FRAMING_SCALE = 3;
+
+/** Widths offered for exported collages, in pixels */
+export const COLLAGE_EXPORT_WIDTHS = [1080, 1600, 2048, 3840];
+
+/** Export formats with their display labels */
+export const COLLAGE_FORMATS: { value: CollageFormat; label: string }[] = [
+  { value: 'image/png', label: 'PNG' },
+  { value: 'image/jpeg', label: 'JPEG' }
+];
+
+/** Encoder quality for JPEG exports (0-1) */
+const JPEG_QUALITY = 0.92;
+
+/**
+ * Colors and sizes of the preview, in CSS pixels (see PreviewModal and
+ * the dark theme in tailwind.config.js)
+ */
+const BACKGROUND_COLOR = '#2d2d2d';
+const SINGLE_IMAGE_BACKGROUND = 'rgba(0, 0, 0, 0.2)';
+const SINGLE_IMAGE_BORDER_COLOR = '#404040';
+const CELL_RADIUS = 8;
+const CAPTION_PADDING = 12;
+const CAPTION_LINE_HEIGHT = 20;
+const CAPTION_FONT = '14px Roboto, system-ui, sans-serif';
+
+// ============================================
+// LAYOUT
+// ============================================
+
+/**
+ * Fills in and clamps a group's saved layout
+ *
+ * @param layout - The saved layout, or null if the group never picked one
+ * @returns A complete layout within its template's parameter range
+ */
+export const resolvePreviewLayout = (layout: PreviewLayout | null): PreviewLayout => {
+  if (!layout) return DEFAULT_PREVIEW_LAYOUT;
+  const option = PREVIEW_TEMPLATES.find((item) => item.value === layout.template) ?? PREVIEW_TEMPLATES[0];
+  return {
+    template: option.value,
+    perRow: Math.max(option.minPerRow, Math.min(option.maxPerRow, Math.round(layout.perRow))),
+    slant: layout.slant
+  };
+};
+
+/**
+ * Lays out the preview card
+ *
+ * @param layout - The template and its parameters
+ * @param ratios - Height-to-width ratio of each image, in preview order
+ *                 (only the masonry template uses them)
+ * @param width - Width of the card in CSS pixels
+ * @returns The card's size and one cell per image
+ *
+ * @example
+ * ```typescript
+ * const card = layoutCard({ template: 'grid', perRow: 3, slant: null }, [1, 1.5, 0.75], 960);
+ * card.cells.forEach((cell) => console.log(cell.index, cell.x, cell.y));
+ * ```
+ */
+export const layoutCard = (layout: PreviewLayout, ratios: number[], width: number): CardLayout => {
+  switch (layout.template) {
+    case 'grid':
+      return layoutTiles(ratios.map((_, index) => index), layout.perRow, width, 0);
+    case 'masonry':
+      return layoutMasonry(ratios, layout.perRow, width);
+    case 'hero':
+      return layoutHero(ratios.length, layout.perRow, width);
+    default:
+      return layoutDiagonal(ratios.length, layout.perRow, layout.slant, width);
+  }
+};
+
+/**
+ * Computes where each image of a diagonal split row goes
+ *
+ * Images are layered and offset horizontally; every image but the last
+ * gets a right-angled triangle cropped off its right edge. More images
+ * mean narrower slots and a steeper diagonal.
+ *
+ * @param count - Number of images in the row (2 to 6)
+ * @param isReversed - Whether the diagonals run the other way (every other row)
+ * @param slant - Width of the cut in percent of the slot, or null to pick it from the count
+ * @returns One slot per image, in row order
+ */
+export const getRowLayout = (count: number, isReversed: boolean, slant: number | null = null): RowSlot[] => {
+  if (count <= 1) {
+    return [{ left: 0, width: 100, zIndex: 1, clip: null }];
+  }
+
+  // Base width scales with image count to fill the row
+  // 2 images: ~50% each, 3 images: ~40% each, 4 images: ~30% each, 5 images: ~25% each, 6 images: ~20% each
+  const width = count === 2 ? 55 : count === 3 ? 42 : count === 4 ? 32 : count === 5 ? 25 : 21;
+
+  // Distribute the remaining space evenly between the images
+  const offsetPerImage = (100 - width * count) / (count - 1);
+
+  // Triangle offset (diagonal angle): fewer images = gentler angle
+  // 2 images: 15%, 3 images: 20%, 4 images: 23%, 5 images: 25%, 6 images: 27%
+  const triangleOffset = slant ?? (count === 2 ? 15 : count === 3 ? 20 : count === 4 ? 23 : count === 5 ? 25 : 27);
+
+  return Array.from({ length: count }, (_, index) => {
+    const isLast = index === count - 1;
+    let clip: [number, number][] | null = null;
+    if (!isLast) {
+      clip = isReversed
+        // Diagonal from (100%, 100%) to (100% - offset, 0%)
+        ? [[0, 0], [100 - triangleOffset, 0], [100, 100], [0, 100]]
+        // Diagonal from (100%, 0%) to (100% - offset, 100%)
+        : [[0, 0], [100, 0], [100 - triangleOffset, 100], [0, 100]];
+    }
+
+    return {
+      // Account for both the width of previous images and the gaps between them
+      left: (width + offsetPerImage) * index,
+      width,
+      // First image has the highest z-index
+      zIndex: count - index,
+      clip
+    };
+  });
+};
+
+/**
+ * Formats a cell's crop as a CSS clip-path
+ *
+ * @param cell - The cell
+ * @returns A `polygon(...)` value, or undefined without a crop
+ */
+export const cellClipPath = (cell: CardCell): string | undefined => {
+  return cell.clip
+    ? `polygon(${cell.clip.map(([x, y]) => `${x}% ${y}%`).join(', ')})`
+    : undefined;
+};
+
+/**
+ * Checks whether an image is shown as if it was never panned or zoomed
+ *
+ * @param framing - The framing to check
+ * @returns True for the default framing
+ */
+export const isDefaultFraming = (framing: ImageFraming): boolean => {
+  return framing.x === DEFAULT_FRAMING.x &&
+    framing.y === DEFAULT_FRAMING.y &&
+    framing.scale === DEFAULT_FRAMING.scale;
+};
+
+/**
+ * Computes where an image is drawn within its slot, like CSS
+ * `object-fit: cover` on a box of the slot's size times the zoom
+ *
+ * @param imageWidth - Natural width of the image
+ * @param imageHeight - Natural height of the image
+ * @param slotWidth - Width of the slot
+ * @param slotHeight - Height of the slot
+ * @param framing - Pan position and zoom
+ * @returns The drawn rectangle relative to the slot, and the image box it is clipped to
+ */
+export const coverRect = (
+  imageWidth: number,
+  imageHeight: number,
+  slotWidth: number,
+  slotHeight: number,
+  framing: ImageFraming
+): { x: number; y: number; width: number; height: number; boxWidth: number; boxHeight: number } => {
+  const boxWidth = slotWidth * framing.scale;
+  const boxHeight = slotHeight * framing.scale;
+  const fit = Math.max(boxWidth / imageWidth, boxHeight / imageHeight);
+  const width = imageWidth * fit;
+  const height = imageHeight * fit;
+  return {
+    x: (boxWidth - width) * (framing.x / 100),
+    y: (boxHeight - height) * (framing.y / 100),
+    width,
+    height,
+    boxWidth,
+    boxHeight
+  };
+};
+
+/**
+ * Zooms an image within its cell around a focal point
+ *
+ * The point of the image that was under `from` when the gesture started
+ * ends up under `to` at the new zoom, as far as the pan range allows.
+ * This keeps the spot between two fingers in place during a pinch, and
+ * moving both fingers pans along.
+ *
+ * @param start - Framing when the gesture started
+ * @param cell - Size of the cell
+ * @param image - Natural size of the image (only its proportions matter)
+ * @param from - Focal point when the gesture started, relative to the cell
+ * @param to - Focal point now, relative to the cell
+ * @param scale - The new zoom (clamped to the allowed range)
+ * @returns The new framing
+ *
+ * @example
+ * ```typescript
+ * // Pinch to twice the zoom around the cell's center
+ * const center = { x: cell.width / 2, y: cell.height / 2 };
+ * const framing = zoomFramingAt(DEFAULT_FRAMING, cell, size, center, center, 2);
+ * ```
+ */
+export const zoomFramingAt = (
+  start: ImageFraming,
+  cell: { width: number; height: number },
+  image: { width: number; height: number },
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  scale: number
+): ImageFraming => {
+  const nextScale = Math.max(MIN_FRAMING_SCALE, Math.min(MAX_FRAMING_SCALE, scale));
+  const before = coverRect(image.width, image.height, cell.width, cell.height, start);
+  const after = coverRect(image.width, image.height, cell.width, cell.height, { ...start, scale: nextScale });
+
+  // Where the focal point lies on the image, as a fraction of its size
+  const u = (from.x - before.x) / before.width;
+  const v = (from.y - before.y) / before.height;
+
+  // Solve the object position that puts that spot under `to`; an axis
+  // where the image exactly fills its box cannot be panned
+  const slackX = after.boxWidth - after.width;
+  const slackY = after.boxHeight - after.height;
+  const x = slackX < 0 ? ((to.x - u * after.width) / slackX) * 100 : start.x;
+  const y = slackY < 0 ? ((to.y - v * after.height) / slackY) * 100 : start.y;
+
+  return {
+    x: Math.max(0, Math.min(100, x)),
+    y: Math.max(0, Math.min(100, y)),
+    scale: Math.round(nextScale * 100) / 100
+  };
+};
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * Renders a laid out preview card into an image file
+ *
+ * The card keeps its on-screen aspect ratio and is scaled to the output
+ * width. Original image data is used, so large exports stay sharp.
+ *
+ * @param images - The previewed images with their framing, in the order the layout refers to
+ * @param card - The card as laid out on screen
+ * @param options - Size and format of the export
+ * @returns Promise that resolves to the encoded image
+ * @throws Error if an image cannot be decoded or the canvas cannot be encoded
+ *
+ * @example
+ * ```typescript
+ * const card = layoutCard(layout, ratios, 1200);
+ * const blob = await renderCollage(images, card, { outputWidth: 2048, format: 'image/png' });
+ * downloadBlob(blob, 'cosplay-card.png');
+ * ```
+ */
+export const renderCollage = async (
+  images: CollageImage[],
+  card: CardLayout,
+  options: CollageOptions
+): Promise<Blob> => {
+  const { outputWidth, format } = options;
+  const ratio = outputWidth / card.width;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(outputWidth);
+  canvas.height = Math.max(1, Math.round(card.height * ratio));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is not available');
+
+  context.fillStyle = BACKGROUND_COLOR;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.imageSmoothingQuality = 'high';
+  // Everything below is drawn in on-screen CSS pixels
+  context.scale(ratio, ratio);
+
+  // Draw the lowest layer first so earlier images of a diagonal row end up on top
+  const cells = [...card.cells].sort((a, b) => a.zIndex - b.zIndex);
+  for (const cell of cells) {
+    const item = images[cell.index];
+    if (!item) continue;
+    if (cell.kind === 'single') {
+      await drawSingleImage(context, item, cell);
+    } else {
+      await drawCell(context, item, cell);
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (result) => (result ? resolve(result) : reject(new Error('Failed to encode collage'))),
+      format,
+      JPEG_QUALITY
+    );
+  });
+};
+
+/**
+ * Suggested file name for an exported collage
+ *
+ * @param groupName - Name of the previewed group
+ * @param format - File format of the export
+ * @returns e.g. `Marin-Kitagawa-preview.png`
+ */
+export const collageFileName = (groupName: string, format: CollageFormat): string => {
+  const safeName = groupName.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'plan';
+  return `${safeName}-preview.${format === 'image/jpeg' ? 'jpg' : 'png'}`;
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Lays out rows of diagonal splits; a row holding one image shows it whole
+ */
+const layoutDiagonal = (count: number, perRow: number, slant: number | null, width: number): CardLayout => {
+  const cells: CardCell[] = [];
+  const rowCount = Math.ceil(count / perRow);
+
+  for (let row = 0; row < rowCount; row++) {
+    const first = row * perRow;
+    const size = Math.min(perRow, count - first);
+    const y = row * (PREVIEW_ROW_HEIGHT + PREVIEW_ROW_GAP);
+
+    if (size === 1) {
+      cells.push({ index: first, x: 0, y, width, height: PREVIEW_ROW_HEIGHT, zIndex: 1, kind: 'single', clip: null });
+      continue;
+    }
+
+    getRowLayout(size, row % 2 === 1, slant).forEach((slot, index) => {
+      cells.push({
+        index: first + index,
+        x: (slot.left / 100) * width,
+        y,
+        width: (slot.width / 100) * width,
+        height: PREVIEW_ROW_HEIGHT,
+        zIndex: slot.zIndex,
+        kind: 'slice',
+        clip: slot.clip
+      });
+    });
+  }
+
+  return {
+    width,
+    height: rowCount * PREVIEW_ROW_HEIGHT + Math.max(0, rowCount - 1) * PREVIEW_ROW_GAP,
+    cells
+  };
+};
+
+/**
+ * Lays out square tiles in rows, starting at the given top edge
+ */
+const layoutTiles = (indexes: number[], columns: number, width: number, top: number): CardLayout => {
+  const size = (width - TILE_GAP * (columns - 1)) / columns;
+  const rowCount = Math.ceil(indexes.length / columns);
+  const cells = indexes.map((index, position): CardCell => ({
+    index,
+    x: (position % columns) * (size + TILE_GAP),
+    y: top + Math.floor(position / columns) * (size + TILE_GAP),
+    width: size,
+    height: size,
+    zIndex: 1,
+    kind: 'tile',
+    clip: null
+  }));
+
+  return {
+    width,
+    height: rowCount > 0 ? top + rowCount * size + (rowCount - 1) * TILE_GAP : top,
+    cells
+  };
+};
+
+/**
+ * Lays out tiles in columns, each image keeping its proportions and
+ * going into the shortest column so far
+ */
+const layoutMasonry = (ratios: number[], columns: number, width: number): CardLayout => {
+  const columnWidth = (width - TILE_GAP * (columns - 1)) / columns;
+  const heights = new Array<number>(columns).fill(0);
+
+  const cells = ratios.map((ratio, index): CardCell => {
+    const column = heights.indexOf(Math.min(...heights));
+    const height = columnWidth * ratio;
+    const cell: CardCell = {
+      index,
+      x: column * (columnWidth + TILE_GAP),
+      y: heights[column],
+      width: columnWidth,
+      height,
+      zIndex: 1,
+      kind: 'tile',
+      clip: null
+    };
+    heights[column] += height + TILE_GAP;
+    return cell;
+  });
+
+  return { width, height: Math.max(0, Math.max(...heights) - TILE_GAP), cells };
+};
+
+/**
+ * Lays out the first image across the full width with square tiles below it
+ */
+const layoutHero = (count: number, columns: number, width: number): CardLayout => {
+  if (count === 0) return { width, height: 0, cells: [] };
+
+  const heroHeight = Math.min(width * (9 / 16), HERO_MAX_HEIGHT);
+  const hero: CardCell = { index: 0, x: 0, y: 0, width, height: heroHeight, zIndex: 1, kind: 'tile', clip: null };
+  if (count === 1) return { width, height: heroHeight, cells: [hero] };
+
+  const rest = Array.from({ length: count - 1 }, (_, position) => position + 1);
+  const tiles = layoutTiles(rest, columns, width, heroHeight + TILE_GAP);
+  return { width, height: tiles.height, cells: [hero, ...tiles.cells] };
+};
+
+/**
+ * Draws an image into a slice or tile, cropped to its shape
+ */
+const drawCell = async (
+  context: CanvasRenderingContext2D,
+  item: CollageImage,
+  cell: CardCell
+): Promise<void> => {
+  const bitmap = await createImageBitmap(item.image.blob);
+  try {
+    context.save();
+    context.beginPath();
+    if (cell.clip) {
+      cell.clip.forEach(([x, y], index) => {
+        const pointX = cell.x + (x / 100) * cell.width;
+        const pointY = cell.y + (y / 100) * cell.height;
+        if (index === 0) context.moveTo(pointX, pointY);
+        else context.lineTo(pointX, pointY);
+      });
+      context.closePath();
+    } else if (cell.kind === 'tile') {
+      context.roundRect(cell.x, cell.y, cell.width, cell.height, CELL_RADIUS);
+    } else {
+      context.rect(cell.x, cell.y, cell.width, cell.height);
+    }
+    context.clip();
+    drawFramed(context, bitmap, item, cell);
+    context.restore();
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Draws a single-image row: rounded and bordered, with the image name
+ * in a caption at the bottom
+ */
+const drawSingleImage = async (
+  context: CanvasRenderingContext2D,
+  item: CollageImage,
+  cell: CardCell
+): Promise<void> => {
+  const bitmap = await createImageBitmap(item.image.blob);
+  try {
+    context.save();
+    context.beginPath();
+    context.roundRect(cell.x, cell.y, cell.width, cell.height, CELL_RADIUS);
+    context.clip();
+    context.fillStyle = SINGLE_IMAGE_BACKGROUND;
+    context.fillRect(cell.x, cell.y, cell.width, cell.height);
+    drawFramed(context, bitmap, { ...item, framing: DEFAULT_FRAMING }, cell);
+
+    // Caption: gradient from the bottom edge, name on one line
+    const captionHeight = CAPTION_LINE_HEIGHT + CAPTION_PADDING * 2;
+    const captionTop = cell.y + cell.height - captionHeight;
+    const gradient = context.createLinearGradient(0, cell.y + cell.height, 0, captionTop);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0.8)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    context.fillStyle = gradient;
+    context.fillRect(cell.x, captionTop, cell.width, captionHeight);
+    context.font = CAPTION_FONT;
+    context.fillStyle = '#ffffff';
+    context.textBaseline = 'middle';
+    context.fillText(
+      truncateText(context, item.image.name, cell.width - CAPTION_PADDING * 2),
+      cell.x + CAPTION_PADDING,
+      captionTop + CAPTION_PADDING + CAPTION_LINE_HEIGHT / 2
+    );
+    context.restore();
+
+    context.beginPath();
+    context.roundRect(cell.x + 0.5, cell.y + 0.5, cell.width - 1, cell.height - 1, CELL_RADIUS);
+    context.strokeStyle = SINGLE_IMAGE_BORDER_COLOR;
+    context.lineWidth = 1;
+    context.stroke();
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Draws an image (and its annotations) with its framing, within the
+ * current clip, clipped to the zoomed image box
+ */
+const drawFramed = (
+  context: CanvasRenderingContext2D,
+  bitmap: ImageBitmap,
+  item: CollageImage,
+  cell: CardCell
+): void => {
+  const rect = coverRect(bitmap.width, bitmap.height, cell.width, cell.height, item.framing);
+  context.save();
+  context.beginPath();
+  context.rect(cell.x, cell.y, rect.boxWidth, rect.boxHeight);
+  context.clip();
+  context.drawImage(bitmap, cell.x + rect.x, cell.y + rect.y, rect.width, rect.height);
+
+  if (item.annotations) {
+    // Annotations are in original image pixels, drawn over the image like their overlay
+    context.translate(cell.x + rect.x, cell.y + rect.y);
+    context.scale(rect.width / item.annotations.width, rect.height / item.annotations.height);
+    drawAnnotations(context, item.annotations);
+  }
+  context.restore();
+};
+
+/**
+ * Shortens text with an ellipsis to fit a width, like CSS `truncate`
+ */
+const truncateText = (context: CanvasRenderingContext2D, text: string, maxWidth: number): string => {
+  if (context.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && context.measureText(`${text.slice(0, end)}…`).width > maxWidth) {
+    end--;
+  }
+  return `${text.slice(0, end)}…`;
+};
@@ -6,37 +6,164 @@
  *
  * Database Schema:
  * - Database Name: ImageGalleryDB
- * - Version: 1
+ * - Version: see MIGRATIONS in ./migrations.ts
  *
  * Object Stores:
- * 1. 'groups' - Stores image group metadata
+ * 1. 'groups' - Stores image group metadata (one group per cosplay plan)
  *    - Key: id (auto-increment)
- *    - Fields: { id, name, createdAt, updatedAt }
+ *    - Fields: { id, name, character, series, variant, status, eventDate, notes,
+ *                budget, tags, measurementProfileId, previewLayout, createdAt, updatedAt,
+ *                deletedAt }
+ *    - Index: deletedAt (trashed groups only)
+ *    - Index: tags (multi-entry, for tag search)
  *
  * 2. 'images' - Stores image data as blobs
  *    - Key: id (auto-increment)
- *    - Fields: { id, groupId, name, blob, createdAt }
+ *    - Fields: { id, groupId, name, blob, role, tags, palette, framing, position,
+ *                createdAt, deletedAt }
  *    - Index: groupId (for querying images by group)
+ *    - Index: deletedAt (trashed images only)
+ *    - Index: tags (multi-entry, for tag search)
+ *
+ * 3. 'thumbnails' - Stores downscaled renditions of each image
+ *    - Key: imageId (one record per image)
+ *    - Fields: { imageId, width, height, thumbnails: [{ size, blob }] }
+ *
+ * 4. 'materials' - Stores the materials / shopping list of each group
+ *    - Key: id (auto-increment)
+ *    - Fields: { id, groupId, name, quantity, unitCost, vendorNote, purchased,
+ *                imageId, createdAt }
+ *    - Index: groupId (for querying materials by group)
+ *
+ * 5. 'tasks' - Stores the build task checklist of each group
+ *    - Key: id (auto-increment)
+ *    - Fields: { id, groupId, title, position, completed, dueDate, imageIds, createdAt }
+ *    - Index: groupId (for querying tasks by group)
+ *
+ * 6. 'events' - Stores conventions / events and the groups assigned to them
+ *    - Key: id (auto-increment)
+ *    - Fields: { id, name, location, startDate, endDate, groupIds, createdAt }
+ *    - Index: startDate (for the agenda)
+ *    - Index: groupIds (multi-entry, for unlinking deleted groups)
+ *
+ * 7. 'measurements' - Stores body measurement profiles (one per person)
+ *    - Key: id (auto-increment)
+ *    - Fields: { id, name, unit, revisions: [{ date, values, note }], createdAt, updatedAt }
+ *
+ * 8. 'annotations' - Stores vector markup drawn over images
+ *    - Key: imageId (one record per annotated image)
+ *    - Fields: { imageId, groupId, width, height, shapes: [{ id, kind, color, points, text }],
+ *                updatedAt }
+ *    - Index: groupId (for querying annotations by group)
+ *
+ * Schema changes are applied through versioned migration steps
+ * defined in ./migrations.ts.
+ *
+ * All operations share one lazily opened connection (see openDB),
+ * which steps aside when another tab needs to upgrade the schema.
+ * Every successful mutation is broadcast to other open tabs (see ./sync.ts).
  */
 
+import { DatabaseMigrationError, LATEST_VERSION, runMigrations } from './migrations';
+import { generateThumbnails, pickThumbnailSize, type Thumbnail } from './thumbnails';
+import { extractPalette, type PaletteColor } from './palette';
+import { broadcastChange } from './sync';
+import {
+  isEmptyQuery,
+  matchesGroup,
+  matchesImage,
+  normalizeTags,
+  parseSearchQuery,
+  MAX_SEARCH_RESULTS,
+  type SearchResults
+} from './search';
+
 // ============================================
 // TYPE DEFINITIONS
 // ============================================
 
+/**
+ * Progress of a cosplay plan, from first idea to retired costume
+ */
+export type PlanStatus = 'idea' | 'planning' | 'in-progress' | 'complete' | 'retired';
+
+/**
+ * Cosplay plan details stored on each group
+ */
+export interface GroupDetails {
+  /** Character being cosplayed */
+  character: string;
+  /** Source series (anime, game, film, ...) the character is from */
+  series: string;
+  /** Variant or outfit of the character */
+  variant: string;
+  /** Progress of the plan */
+  status: PlanStatus;
+  /** Target event date as YYYY-MM-DD, or null if not set */
+  eventDate: string | null;
+  /** Free-form notes */
+  notes: string;
+  /** Budget for the costume's materials, or null if not set */
+  budget: number | null;
+  /** Free-form tags, normalized (see normalizeTags in ./search.ts) */
+  tags: string[];
+  /** ID of the linked measurement profile, or null if none is linked */
+  measurementProfileId: number | null;
+}
+
 /**
  * Represents an image group in the database
  */
-export interface ImageGroup {
+export interface ImageGroup extends GroupDetails {
   /** Auto-generated unique identifier */
   id: number;
   /** User-defined name of the group */
   name: string;
+  /** Layout template of the group's preview card, or null for the default (see ./collage.ts) */
+  previewLayout: PreviewLayout | null;
   /** ISO timestamp when the group was created */
   createdAt: string;
   /** ISO timestamp when the group was last updated */
   updatedAt: string;
+  /** ISO timestamp when the group was moved to the trash, or null if it is not trashed */
+  deletedAt: string | null;
+}
+
+/**
+ * Layout templates for a group's preview card
+ *
+ * - 'diagonal': rows of images split by diagonal cuts
+ * - 'grid': uniform square tiles
+ * - 'masonry': columns of tiles keeping each image's proportions
+ * - 'hero': the first image large, the others as tiles below it
+ */
+export type PreviewTemplate = 'diagonal' | 'grid' | 'masonry' | 'hero';
+
+/**
+ * A preview card layout template with its parameters
+ */
+export interface PreviewLayout {
+  /** The layout template */
+  template: PreviewTemplate;
+  /** Images per row (diagonal, grid and the hero's tiles) or number of columns (masonry) */
+  perRow: number;
+  /**
+   * Width of the diagonal cut in percent of an image's width, or null
+   * to pick it from the number of images in the row (diagonal only)
+   */
+  slant: number | null;
 }
 
+/**
+ * What an image is used for within a cosplay plan
+ *
+ * - 'reference': official or source art of the character
+ * - 'progress': work-in-progress shots of the costume
+ * - 'final': finished photos of the completed cosplay
+ * - 'inspiration': other ideas (fan art, fabrics, poses, ...)
+ */
+export type ImageRole = 'reference' | 'progress' | 'final' | 'inspiration';
+
 /**
  * Represents an image stored in the database
  */
@@ -49,10 +176,251 @@ export interface StoredImage {
   name: string;
   /** The actual image data as a Blob */
   blob: Blob;
+  /** What the image is used for */
+  role: ImageRole;
+  /** Free-form tags, normalized (see normalizeTags in ./search.ts) */
+  tags: string[];
+  /** Dominant colors, most dominant first, or null if not extracted yet (see ./palette.ts) */
+  palette: PaletteColor[] | null;
+  /** Pan position and zoom in the preview card, or null if never reframed (see ./collage.ts) */
+  framing: ImageFraming | null;
+  /** Zero-based position of the image within its group (manual ordering) */
+  position: number;
   /** ISO timestamp when the image was added */
   createdAt: string;
+  /** ISO timestamp when the image was moved to the trash, or null if it is not trashed */
+  deletedAt: string | null;
+}
+
+/**
+ * How an image is framed within its slot of the preview card
+ */
+export interface ImageFraming {
+  /** Horizontal object position in percent (50 = centered) */
+  x: number;
+  /** Vertical object position in percent (50 = centered) */
+  y: number;
+  /** Zoom factor of the image box relative to its slot (1 = fills the slot) */
+  scale: number;
+}
+
+/**
+ * Represents the generated thumbnails of one image
+ */
+export interface ImageThumbnails {
+  /** ID of the image these thumbnails belong to */
+  imageId: number;
+  /** Width of the original image in pixels */
+  width: number;
+  /** Height of the original image in pixels */
+  height: number;
+  /** Downscaled renditions, ascending by size */
+  thumbnails: Thumbnail[];
+}
+
+/**
+ * Represents one entry of a group's materials / shopping list
+ */
+export interface MaterialItem {
+  /** Auto-generated unique identifier */
+  id: number;
+  /** ID of the group (costume plan) this item belongs to */
+  groupId: number;
+  /** What to buy, e.g. "Blue satin" or "Silver wig" */
+  name: string;
+  /** How many units are needed */
+  quantity: number;
+  /** Cost of one unit */
+  unitCost: number;
+  /** Where to buy it, links, sizes or other notes */
+  vendorNote: string;
+  /** Whether the item has been bought */
+  purchased: boolean;
+  /** ID of a reference image of the same group, or null */
+  imageId: number | null;
+  /** ISO timestamp when the item was added */
+  createdAt: string;
+}
+
+/**
+ * Editable fields of a material item
+ */
+export type MaterialInput = Omit<MaterialItem, 'id' | 'groupId' | 'createdAt'>;
+
+/**
+ * Represents one step of building a costume, e.g. "Pattern bodice"
+ */
+export interface BuildTask {
+  /** Auto-generated unique identifier */
+  id: number;
+  /** ID of the group (costume plan) this task belongs to */
+  groupId: number;
+  /** What needs to be done */
+  title: string;
+  /** Zero-based position of the task within its group's checklist */
+  position: number;
+  /** Whether the task is done */
+  completed: boolean;
+  /** Due date as YYYY-MM-DD, or null if not set */
+  dueDate: string | null;
+  /** IDs of progress images of the same group attached to the task */
+  imageIds: number[];
+  /** ISO timestamp when the task was created */
+  createdAt: string;
+}
+
+/**
+ * Editable fields of a build task (order is changed with moveTask)
+ */
+export type TaskInput = Pick<BuildTask, 'title' | 'completed' | 'dueDate' | 'imageIds'>;
+
+/**
+ * Represents a convention or other event that costumes are planned for
+ */
+export interface ConventionEvent {
+  /** Auto-generated unique identifier */
+  id: number;
+  /** Event name, e.g. "Anime Expo 2025" */
+  name: string;
+  /** Free-form location, e.g. "Los Angeles Convention Center" */
+  location: string;
+  /** First day as YYYY-MM-DD */
+  startDate: string;
+  /** Last day (inclusive) as YYYY-MM-DD, equal to startDate for one-day events */
+  endDate: string;
+  /** IDs of the groups (costume plans) worn at the event */
+  groupIds: number[];
+  /** ISO timestamp when the event was created */
+  createdAt: string;
+}
+
+/**
+ * Editable fields of an event
+ */
+export type EventInput = Omit<ConventionEvent, 'id' | 'createdAt'>;
+
+/**
+ * Length unit measurements are shown and entered in
+ */
+export type LengthUnit = 'cm' | 'in';
+
+/**
+ * A standard body measurement (see MEASUREMENT_FIELDS in ./measurements.ts)
+ */
+export type MeasurementKey =
+  | 'height'
+  | 'head'
+  | 'neck'
+  | 'shoulders'
+  | 'bust'
+  | 'underbust'
+  | 'waist'
+  | 'hips'
+  | 'armLength'
+  | 'bicep'
+  | 'wrist'
+  | 'inseam'
+  | 'thigh'
+  | 'calf';
+
+/**
+ * Measured values in centimeters; measurements not taken are left out
+ */
+export type MeasurementValues = Partial<Record<MeasurementKey, number>>;
+
+/**
+ * One dated set of measurements
+ */
+export interface MeasurementRevision {
+  /** Day the measurements were taken as YYYY-MM-DD */
+  date: string;
+  /** The measurements, in centimeters */
+  values: MeasurementValues;
+  /** Free-form note, e.g. "after the gym season" */
+  note: string;
+}
+
+/**
+ * Represents a person's body measurements, with their history
+ */
+export interface MeasurementProfile {
+  /** Auto-generated unique identifier */
+  id: number;
+  /** Whose measurements these are, e.g. a team member's name */
+  name: string;
+  /** Unit the profile is shown and edited in (values are always stored in cm) */
+  unit: LengthUnit;
+  /** Revisions, oldest first; the last one holds the current measurements */
+  revisions: MeasurementRevision[];
+  /** ISO timestamp when the profile was created */
+  createdAt: string;
+  /** ISO timestamp when the profile was last changed */
+  updatedAt: string;
 }
 
+/**
+ * Editable fields of a measurement profile (revisions are added with addMeasurementRevision)
+ */
+export type ProfileInput = Pick<MeasurementProfile, 'name' | 'unit'>;
+
+/**
+ * Kind of shape drawn on an image
+ */
+export type AnnotationKind = 'arrow' | 'circle' | 'freehand' | 'text';
+
+/**
+ * A point on an image, in pixels of the original image
+ */
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * One shape drawn on an image
+ */
+export interface AnnotationShape {
+  /** Identifier, unique within the image's annotations */
+  id: string;
+  /** What is drawn */
+  kind: AnnotationKind;
+  /** Stroke or text color as a hex code */
+  color: string;
+  /**
+   * Points defining the shape:
+   * - arrow: tail, then head
+   * - circle: two opposite corners of the ellipse's bounding box
+   * - freehand: the stroke, in drawing order
+   * - text: top-left corner of the callout
+   */
+  points: AnnotationPoint[];
+  /** Callout text (empty for shapes other than text) */
+  text: string;
+}
+
+/**
+ * Markup drawn over one image, kept apart from the image blob
+ */
+export interface ImageAnnotations {
+  /** ID of the annotated image */
+  imageId: number;
+  /** ID of the image's group */
+  groupId: number;
+  /** Width of the original image in pixels (the coordinate space of the points) */
+  width: number;
+  /** Height of the original image in pixels */
+  height: number;
+  /** Shapes in drawing order */
+  shapes: AnnotationShape[];
+  /** ISO timestamp when the annotations were last saved */
+  updatedAt: string;
+}
+
+/**
+ * Input type for saving an image's annotations
+ */
+export type AnnotationsInput = Omit<ImageAnnotations, 'updatedAt'>;
+
 /**
  * Input type for creating a new group (before auto-generated fields are added)
  */
@@ -68,62 +436,222 @@ type ImageInput = Omit<StoredImage, 'id'>;
 // ============================================
 
 const DB_NAME = 'ImageGalleryDB';
-const DB_VERSION = 1;
+/** Current schema version, always the version of the newest migration */
+const DB_VERSION = LATEST_VERSION;
+
+/** Role of an image added without choosing one */
+export const DEFAULT_IMAGE_ROLE: ImageRole = 'reference';
+
+/** Plan details of a newly created group */
+export const DEFAULT_GROUP_DETAILS: GroupDetails = {
+  character: '',
+  series: '',
+  variant: '',
+  status: 'idea',
+  eventDate: null,
+  notes: '',
+  budget: null,
+  tags: [],
+  measurementProfileId: null
+};
+
+/**
+ * Stores holding per-group records (indexed by groupId), deleted
+ * together with their group
+ */
+const GROUP_CHILD_STORES = ['materials', 'tasks'];
+
+/**
+ * Every store touched when a group is permanently deleted: its child
+ * stores plus events, which only reference groups and are kept
+ */
+const GROUP_RELATED_STORES = [...GROUP_CHILD_STORES, 'events'];
+
+/**
+ * Stores holding per-image records (keyed by imageId), deleted
+ * together with their image
+ */
+const IMAGE_CHILD_STORES = ['thumbnails', 'annotations'];
 
 // ============================================
 // DATABASE CONNECTION
 // ============================================
 
+/**
+ * Connection lifecycle events reported to the UI
+ *
+ * - 'blocked': an upgrade is waiting for other open tabs to close their connection
+ * - 'open': the connection is open and ready (e.g. after a block was resolved)
+ * - 'versionchange': another tab upgraded or deleted the database; this tab must reload
+ */
+export type ConnectionEvent = 'blocked' | 'open' | 'versionchange';
+
+/** Listeners registered through onConnectionEvent */
+const connectionListeners = new Set<(event: ConnectionEvent) => void>();
+
+/** The shared connection, created lazily by openDB */
+let connectionPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Set once another tab has upgraded the database
+ *
+ * This tab's code expects the older schema, so it must not reconnect
+ * until the page is reloaded.
+ */
+let isSuperseded = false;
+
+/**
+ * Subscribes to connection lifecycle events
+ *
+ * @param listener - Called with each connection event
+ * @returns Function that removes the listener
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = onConnectionEvent((event) => {
+ *   if (event === 'versionchange') showReloadPrompt();
+ * });
+ * ```
+ */
+export const onConnectionEvent = (listener: (event: ConnectionEvent) => void): (() => void) => {
+  connectionListeners.add(listener);
+  return () => {
+    connectionListeners.delete(listener);
+  };
+};
+
+/**
+ * Notifies all connection listeners
+ */
+const emitConnectionEvent = (event: ConnectionEvent): void => {
+  connectionListeners.forEach((listener) => listener(event));
+};
+
+/**
+ * Returns the shared database connection, opening it on first use
+ *
+ * All operations reuse one IDBDatabase handle instead of opening a new
+ * one per call. The handle is dropped (and reopened on next use) if the
+ * browser closes it unexpectedly. If another tab needs to upgrade the
+ * schema, the handle is closed right away so that upgrade is not blocked,
+ * and further operations fail until the page is reloaded.
+ *
+ * @returns Promise that resolves to the database instance
+ * @throws DatabaseMigrationError if a schema migration fails
+ * @throws Error if the database fails to open or was upgraded by another tab
+ */
+const openDB = (): Promise<IDBDatabase> => {
+  if (isSuperseded) {
+    return Promise.reject(new Error('The database was upgraded in another tab. Please reload the page'));
+  }
+
+  if (!connectionPromise) {
+    connectionPromise = connect().catch((err: unknown) => {
+      // Allow a later call to retry instead of caching the failure
+      connectionPromise = null;
+      throw err;
+    });
+  }
+
+  return connectionPromise;
+};
+
 /**
  * Opens or creates the IndexedDB database
  *
  * This function handles:
  * - Creating the database if it doesn't exist
- * - Upgrading the database schema if the version changes
- * - Creating object stores and indexes
+ * - Upgrading the database schema by running pending migrations
+ *   (see `./migrations.ts`)
+ * - Rejecting with the migration error if an upgrade fails, in which
+ *   case the upgrade transaction is aborted and nothing is committed
+ * - Reporting when the upgrade is blocked by connections in other tabs
+ * - Wiring up versionchange and close handling on the new connection
  *
  * @returns Promise that resolves to the database instance
+ * @throws DatabaseMigrationError if a schema migration fails
  * @throws Error if the database fails to open
  */
-const openDB = (): Promise<IDBDatabase> => {
+const connect = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
+    /** Error raised by a failed migration, reported instead of the generic abort error */
+    let migrationError: DatabaseMigrationError | null = null;
+    /** Whether this open had to wait for other tabs */
+    let wasBlocked = false;
 
     // Called when database is first created or version is upgraded
     request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
       const db = (event.target as IDBOpenDBRequest).result;
+      const transaction = (event.target as IDBOpenDBRequest).transaction;
 
-      // Create 'groups' object store if it doesn't exist
-      if (!db.objectStoreNames.contains('groups')) {
-        const groupStore = db.createObjectStore('groups', {
-          keyPath: 'id',
-          autoIncrement: true
-        });
-        groupStore.createIndex('name', 'name', { unique: false });
+      if (!transaction) {
+        return;
       }
 
-      // Create 'images' object store if it doesn't exist
-      if (!db.objectStoreNames.contains('images')) {
-        const imageStore = db.createObjectStore('images', {
-          keyPath: 'id',
-          autoIncrement: true
-        });
-        // Index to query images by group
-        imageStore.createIndex('groupId', 'groupId', { unique: false });
-      }
+      runMigrations(db, transaction, event.oldVersion).catch((err: unknown) => {
+        migrationError = err instanceof DatabaseMigrationError
+          ? err
+          : new DatabaseMigrationError(event.oldVersion, DB_VERSION, err);
+      });
+    };
+
+    // Another tab still holds a connection to the older version
+    request.onblocked = () => {
+      wasBlocked = true;
+      emitConnectionEvent('blocked');
     };
 
     request.onsuccess = (event: Event) => {
-      resolve((event.target as IDBOpenDBRequest).result);
+      const db = (event.target as IDBOpenDBRequest).result;
+
+      // Another tab wants to upgrade (or delete) the database:
+      // step aside immediately and ask the user to reload
+      db.onversionchange = () => {
+        db.close();
+        connectionPromise = null;
+        isSuperseded = true;
+        emitConnectionEvent('versionchange');
+      };
+
+      // The browser closed the connection (e.g. storage cleared);
+      // drop it so the next operation reconnects
+      db.onclose = () => {
+        console.warn('Database connection was closed unexpectedly, reconnecting on next use');
+        connectionPromise = null;
+      };
+
+      if (wasBlocked) {
+        emitConnectionEvent('open');
+      }
+      resolve(db);
     };
 
     request.onerror = (event: Event) => {
+      if (migrationError) {
+        reject(migrationError);
+        return;
+      }
       const error = (event.target as IDBOpenDBRequest).error;
       reject(new Error(`Database failed to open: ${error?.message || 'Unknown error'}`));
     };
   });
 };
 
+/**
+ * Opens the database and applies any pending schema migrations
+ *
+ * Called once on startup so that upgrade failures are reported
+ * up front rather than by whichever operation happens to run first.
+ *
+ * @returns Promise that resolves when the database is ready
+ * @throws DatabaseMigrationError if a schema migration fails
+ * @throws Error if the database fails to open
+ */
+export const initDB = async (): Promise<void> => {
+  await openDB();
+};
+
 // ============================================
 // GROUP OPERATIONS
 // ============================================
@@ -152,13 +680,17 @@ export const createGroup = async (name: string): Promise<number> => {
 
     const group: GroupInput = {
       name,
+      ...DEFAULT_GROUP_DETAILS,
+      previewLayout: null,
       createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
+      updatedAt: new Date().toISOString(),
+      deletedAt: null
     };
 
     const request = store.add(group);
 
     request.onsuccess = () => {
+      broadcastChange({ scopes: ['groups'] });
       resolve(request.result as number);
     };
 
@@ -172,6 +704,7 @@ export const createGroup = async (name: string): Promise<number> => {
  * Retrieves all image groups from the database
  *
  * Groups are returned in the order they were created.
+ * Groups in the trash are not included.
  *
  * @returns Promise that resolves to an array of all groups
  * @throws Error if fetching groups fails
@@ -190,7 +723,7 @@ export const getAllGroups = async (): Promise<ImageGroup[]> => {
     const request = store.getAll();
 
     request.onsuccess = () => {
-      resolve(request.result as ImageGroup[]);
+      resolve((request.result as ImageGroup[]).filter((group) => !group.deletedAt));
     };
 
     request.onerror = () => {
@@ -270,6 +803,7 @@ export const renameGroup = async (groupId: number, newName: string): Promise<voi
       const updateRequest = store.put(group);
 
       updateRequest.onsuccess = () => {
+        broadcastChange({ scopes: ['groups'] });
         resolve();
       };
 
@@ -285,10 +819,65 @@ export const renameGroup = async (groupId: number, newName: string): Promise<voi
 };
 
 /**
- * Deletes a group and all its associated images
+ * Updates the cosplay plan details of a group
+ *
+ * Only the given fields are changed; the updatedAt timestamp is
+ * set to the current time. Tags are normalized before saving.
+ *
+ * @param groupId - The ID of the group to update
+ * @param details - The fields to change
+ * @returns Promise that resolves when the update is complete
+ * @throws Error if the update fails or group doesn't exist
+ *
+ * @example
+ * ```typescript
+ * await updateGroupDetails(1, { status: 'in-progress', eventDate: '2025-08-16' });
+ * ```
+ */
+export const updateGroupDetails = async (
+  groupId: number,
+  details: Partial<GroupDetails>
+): Promise<void> => {
+  await updateRecord<ImageGroup>('groups', groupId, 'Group', (group) => ({
+    ...group,
+    ...details,
+    ...(details.tags && { tags: normalizeTags(details.tags) }),
+    updatedAt: new Date().toISOString()
+  }));
+  broadcastChange({ scopes: ['groups'] });
+};
+
+/**
+ * Saves the layout template of a group's preview card
+ *
+ * @param groupId - The ID of the group to update
+ * @param layout - The template and its parameters, or null for the default layout
+ * @returns Promise that resolves when the update is complete
+ * @throws Error if the update fails or group doesn't exist
+ *
+ * @example
+ * ```typescript
+ * await setGroupPreviewLayout(1, { template: 'grid', perRow: 3, slant: null });
+ * ```
+ */
+export const setGroupPreviewLayout = async (
+  groupId: number,
+  layout: PreviewLayout | null
+): Promise<void> => {
+  await updateRecord<ImageGroup>('groups', groupId, 'Group', (group) => ({
+    ...group,
+    previewLayout: layout,
+    updatedAt: new Date().toISOString()
+  }));
+  broadcastChange({ scopes: ['groups'] });
+};
+
+/**
+ * Permanently deletes a group and all its associated images
  *
  * This is a cascading delete operation - all images in the group
- * will be deleted before the group itself is removed.
+ * will be deleted before the group itself is removed. Use trashGroup
+ * for user-facing deletes so the group can be restored.
  *
  * @param groupId - The ID of the group to delete
  * @returns Promise that resolves when deletion is complete
@@ -306,13 +895,15 @@ export const deleteGroup = async (groupId: number): Promise<void> => {
   // First delete all images in the group
   await deleteImagesByGroup(groupId);
 
-  // Then delete the group itself
+  // Then delete the group itself along with its other per-group records
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(['groups'], 'readwrite');
+    const transaction = db.transaction(['groups', ...GROUP_RELATED_STORES], 'readwrite');
     const store = transaction.objectStore('groups');
+    deleteGroupChildren(transaction, groupId);
     const request = store.delete(groupId);
 
     request.onsuccess = () => {
+      broadcastChange({ scopes: ['groups', 'trash', 'events'], groupId });
       resolve();
     };
 
@@ -330,46 +921,101 @@ export const deleteGroup = async (groupId: number): Promise<void> => {
  * Adds an image to a specific group
  *
  * The image data is stored as a Blob, which allows storing
- * the binary image data efficiently in IndexedDB.
+ * the binary image data efficiently in IndexedDB. New images are
+ * appended after the last image of the group, and thumbnails are
+ * generated and saved alongside the image in the same transaction.
  *
  * @param groupId - The ID of the group to add the image to
  * @param name - The filename or display name for the image
  * @param blob - The image data as a Blob object
+ * @param role - What the image is used for
  * @returns Promise that resolves to the ID of the created image
  * @throws Error if adding the image fails
  *
  * @example
  * ```typescript
  * const imageBlob = new Blob([imageData], { type: 'image/jpeg' });
- * const imageId = await addImage(1, 'vacation.jpg', imageBlob);
+ * const imageId = await addImage(1, 'vacation.jpg', imageBlob, 'final');
  * console.log(`Image saved with ID: ${imageId}`);
  * ```
  */
 export const addImage = async (
   groupId: number,
   name: string,
-  blob: Blob
+  blob: Blob,
+  role: ImageRole = DEFAULT_IMAGE_ROLE
 ): Promise<number> => {
+  // Decode and downscale before opening the transaction, since
+  // IndexedDB transactions cannot stay open across canvas work
+  const generated = await generateThumbnails(blob).catch((err: unknown) => {
+    console.warn(`Could not generate thumbnails for "${name}":`, err);
+    return null;
+  });
+  // The smallest thumbnail is plenty for color extraction and much cheaper to decode
+  const palette = await extractPalette(generated?.thumbnails[0]?.blob ?? blob).catch((err: unknown) => {
+    console.warn(`Could not extract the palette of "${name}":`, err);
+    return null;
+  });
+
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(['images'], 'readwrite');
+    const transaction = db.transaction(['images', 'thumbnails'], 'readwrite');
     const store = transaction.objectStore('images');
+    const index = store.index('groupId');
+    // Find the current last position so the new image is appended to the end
+    const cursorRequest = index.openCursor(groupId);
+    let nextPosition = 0;
+    let imageId: number | null = null;
 
-    const image: ImageInput = {
-      groupId,
-      name,
-      blob,
-      createdAt: new Date().toISOString()
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        nextPosition = Math.max(nextPosition, (cursor.value as StoredImage).position + 1);
+        cursor.continue();
+        return;
+      }
+
+      const image: ImageInput = {
+        groupId,
+        name,
+        blob,
+        role,
+        tags: [],
+        palette,
+        framing: null,
+        position: nextPosition,
+        createdAt: new Date().toISOString(),
+        deletedAt: null
+      };
+
+      const request = store.add(image);
+
+      request.onsuccess = () => {
+        imageId = request.result as number;
+        if (generated) {
+          const record: ImageThumbnails = { imageId, ...generated };
+          transaction.objectStore('thumbnails').put(record);
+        }
+      };
     };
 
-    const request = store.add(image);
+    // Only report the image once it and its thumbnails are committed
+    // (the commit itself can still fail, e.g. when the quota is exceeded)
+    transaction.oncomplete = () => {
+      if (imageId === null) {
+        reject(new Error('Failed to add image: Unknown error'));
+        return;
+      }
+      broadcastChange({ scopes: ['images'], groupId });
+      resolve(imageId);
+    };
 
-    request.onsuccess = () => {
-      resolve(request.result as number);
+    transaction.onerror = () => {
+      reject(new Error(`Failed to add image: ${transaction.error?.message || 'Unknown error'}`));
     };
 
-    request.onerror = () => {
-      reject(new Error(`Failed to add image: ${request.error?.message || 'Unknown error'}`));
+    transaction.onabort = () => {
+      reject(new Error(`Failed to add image: ${transaction.error?.message || 'Transaction aborted'}`));
     };
   });
 };
@@ -378,7 +1024,8 @@ export const addImage = async (
  * Retrieves all images for a specific group
  *
  * Uses an indexed query for efficient retrieval of images
- * belonging to a particular group.
+ * belonging to a particular group. Images are returned in their
+ * manual order (ascending `position`). Images in the trash are not included.
  *
  * @param groupId - The ID of the group to fetch images for
  * @returns Promise that resolves to an array of image objects
@@ -402,7 +1049,7 @@ export const getImagesByGroup = async (groupId: number): Promise<StoredImage[]>
     const request = index.getAll(groupId);
 
     request.onsuccess = () => {
-      resolve(request.result as StoredImage[]);
+      resolve(sortByPosition((request.result as StoredImage[]).filter((image) => !image.deletedAt)));
     };
 
     request.onerror = () => {
@@ -448,6 +1095,7 @@ export const renameImage = async (imageId: number, newName: string): Promise<voi
       const updateRequest = store.put(image);
 
       updateRequest.onsuccess = () => {
+        broadcastChange({ scopes: ['images'], groupId: image.groupId });
         resolve();
       };
 
@@ -463,50 +1111,246 @@ export const renameImage = async (imageId: number, newName: string): Promise<voi
 };
 
 /**
- * Deletes a specific image by its ID
+ * Changes what an image is used for
  *
- * @param imageId - The unique identifier of the image to delete
- * @returns Promise that resolves when deletion is complete
- * @throws Error if deletion fails
+ * @param imageId - The ID of the image to update
+ * @param role - The new role
+ * @returns Promise that resolves when the update is complete
+ * @throws Error if the update fails or image doesn't exist
  *
  * @example
  * ```typescript
- * await deleteImage(5);
- * console.log('Image deleted successfully');
+ * await setImageRole(5, 'final');
  * ```
  */
-export const deleteImage = async (imageId: number): Promise<void> => {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(['images'], 'readwrite');
-    const store = transaction.objectStore('images');
-    const request = store.delete(imageId);
-
-    request.onsuccess = () => {
-      resolve();
-    };
-
-    request.onerror = () => {
-      reject(new Error(`Failed to delete image: ${request.error?.message || 'Unknown error'}`));
-    };
-  });
+export const setImageRole = async (imageId: number, role: ImageRole): Promise<void> => {
+  const image = await updateRecord<StoredImage>('images', imageId, 'Image', (record) => ({
+    ...record,
+    role
+  }));
+  broadcastChange({ scopes: ['images'], groupId: image.groupId });
 };
 
 /**
- * Deletes all images belonging to a specific group
+ * Replaces the tags of an image
  *
- * This is a helper function used internally by deleteGroup.
- * It iterates through all images in the group using a cursor
- * and deletes them one by one.
+ * Tags are normalized and de-duplicated before saving.
  *
- * @param groupId - The ID of the group whose images should be deleted
+ * @param imageId - The ID of the image to update
+ * @param tags - The new tags
+ * @returns Promise that resolves when the update is complete
+ * @throws Error if the update fails or image doesn't exist
+ *
+ * @example
+ * ```typescript
+ * await setImageTags(5, ['wig', 'side-braid']);
+ * ```
+ */
+export const setImageTags = async (imageId: number, tags: string[]): Promise<void> => {
+  const image = await updateRecord<StoredImage>('images', imageId, 'Image', (record) => ({
+    ...record,
+    tags: normalizeTags(tags)
+  }));
+  broadcastChange({ scopes: ['images'], groupId: image.groupId });
+};
+
+/**
+ * Saves how an image is framed in the preview card
+ *
+ * @param imageId - The ID of the image to update
+ * @param framing - The pan position and zoom, or null to reset to the default framing
+ * @returns Promise that resolves when the update is complete
+ * @throws Error if the update fails or image doesn't exist
+ *
+ * @example
+ * ```typescript
+ * await setImageFraming(5, { x: 30, y: 20, scale: 1.5 });
+ * ```
+ */
+export const setImageFraming = async (imageId: number, framing: ImageFraming | null): Promise<void> => {
+  const image = await updateRecord<StoredImage>('images', imageId, 'Image', (record) => ({
+    ...record,
+    framing
+  }));
+  broadcastChange({ scopes: ['images'], groupId: image.groupId });
+};
+
+/**
+ * Resets the preview framing of every image in a group
+ *
+ * @param groupId - The ID of the group
+ * @returns Promise that resolves when all framings are reset
+ * @throws Error if the update fails
+ *
+ * @example
+ * ```typescript
+ * await resetGroupFraming(1);
+ * ```
+ */
+export const resetGroupFraming = async (groupId: number): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['images'], 'readwrite');
+    const store = transaction.objectStore('images');
+    const request = store.index('groupId').openCursor(groupId);
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if ((cursor.value as StoredImage).framing) {
+        cursor.update({ ...cursor.value, framing: null });
+      }
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => {
+      broadcastChange({ scopes: ['images'], groupId });
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      reject(new Error(`Failed to reset framing: ${transaction.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Moves an image to a new position within its group
+ *
+ * The other images of the group shift to make room, and positions
+ * are rewritten as a contiguous 0..n-1 sequence in a single transaction.
+ *
+ * @param imageId - The ID of the image to move
+ * @param toIndex - The target zero-based index within the group (clamped to range)
+ * @returns Promise that resolves when the new order is saved
+ * @throws Error if the move fails or image doesn't exist
+ *
+ * @example
+ * ```typescript
+ * // Move image 5 to the front of its group
+ * await moveImage(5, 0);
+ * ```
+ */
+export const moveImage = async (imageId: number, toIndex: number): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['images'], 'readwrite');
+    const store = transaction.objectStore('images');
+    const getRequest = store.get(imageId);
+    let groupId: number | null = null;
+
+    getRequest.onsuccess = () => {
+      const image = getRequest.result as StoredImage | undefined;
+
+      if (!image) {
+        reject(new Error(`Image with ID ${imageId} not found`));
+        return;
+      }
+
+      groupId = image.groupId;
+      const groupRequest = store.index('groupId').getAll(image.groupId);
+
+      groupRequest.onsuccess = () => {
+        // Trashed images keep their old position and are not part of the visible order
+        const ordered = sortByPosition(groupRequest.result as StoredImage[])
+          .filter((item) => item.id !== imageId && !item.deletedAt);
+        const targetIndex = Math.max(0, Math.min(ordered.length, toIndex));
+        ordered.splice(targetIndex, 0, image);
+
+        // Only rewrite records whose position actually changed
+        ordered.forEach((item, position) => {
+          if (item.position !== position) {
+            store.put({ ...item, position });
+          }
+        });
+      };
+
+      groupRequest.onerror = () => {
+        reject(new Error(`Failed to move image: ${groupRequest.error?.message || 'Unknown error'}`));
+      };
+    };
+
+    getRequest.onerror = () => {
+      reject(new Error(`Failed to get image: ${getRequest.error?.message || 'Unknown error'}`));
+    };
+
+    transaction.oncomplete = () => {
+      if (groupId !== null) {
+        broadcastChange({ scopes: ['images'], groupId });
+      }
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      reject(new Error(`Failed to move image: ${transaction.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Permanently deletes a specific image (and its thumbnails and annotations) by its ID
+ *
+ * Materials and tasks of its group that refer to the image are updated
+ * in the same transaction. Use trashImage for user-facing deletes so
+ * the image can be restored.
+ *
+ * @param imageId - The unique identifier of the image to delete
+ * @returns Promise that resolves when deletion is complete
+ * @throws Error if deletion fails
+ *
+ * @example
+ * ```typescript
+ * await deleteImage(5);
+ * console.log('Image deleted successfully');
+ * ```
+ */
+export const deleteImage = async (imageId: number): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['images', ...IMAGE_CHILD_STORES, ...GROUP_CHILD_STORES], 'readwrite');
+    const store = transaction.objectStore('images');
+    const request = store.get(imageId);
+    let groupId: number | undefined;
+
+    request.onsuccess = () => {
+      const image = request.result as StoredImage | undefined;
+      if (!image) return;
+      groupId = image.groupId;
+      store.delete(imageId);
+      IMAGE_CHILD_STORES.forEach((storeName) => transaction.objectStore(storeName).delete(imageId));
+      clearImageReferences(transaction, image.groupId, imageId);
+    };
+
+    transaction.oncomplete = () => {
+      broadcastChange({ scopes: ['trash', 'materials', 'tasks'], groupId });
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      reject(new Error(`Failed to delete image: ${transaction.error?.message || 'Unknown error'}`));
+    };
+
+    transaction.onabort = () => {
+      reject(new Error(`Failed to delete image: ${transaction.error?.message || 'Transaction aborted'}`));
+    };
+  });
+};
+
+/**
+ * Deletes all images belonging to a specific group
+ *
+ * This is a helper function used internally by deleteGroup.
+ * It iterates through all images in the group using a cursor
+ * and deletes them (and their thumbnails and annotations) one by one.
+ *
+ * @param groupId - The ID of the group whose images should be deleted
  * @returns Promise that resolves when all images are deleted
  * @throws Error if deletion fails
  */
 const deleteImagesByGroup = async (groupId: number): Promise<void> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(['images'], 'readwrite');
+    const transaction = db.transaction(['images', ...IMAGE_CHILD_STORES], 'readwrite');
     const store = transaction.objectStore('images');
     const index = store.index('groupId');
     const request = index.openCursor(groupId);
@@ -514,6 +1358,7 @@ const deleteImagesByGroup = async (groupId: number): Promise<void> => {
     request.onsuccess = (event: Event) => {
       const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
       if (cursor) {
+        IMAGE_CHILD_STORES.forEach((storeName) => transaction.objectStore(storeName).delete(cursor.primaryKey));
         cursor.delete();
         cursor.continue();
       } else {
@@ -526,3 +1371,1847 @@ const deleteImagesByGroup = async (groupId: number): Promise<void> => {
     };
   });
 };
+
+// ============================================
+// MATERIAL OPERATIONS
+// ============================================
+
+/**
+ * Adds an item to a group's materials list
+ *
+ * @param groupId - The ID of the group the item belongs to
+ * @param input - The item's fields
+ * @returns Promise that resolves to the ID of the created item
+ * @throws Error if adding the item fails
+ *
+ * @example
+ * ```typescript
+ * const itemId = await addMaterial(1, {
+ *   name: 'Blue satin', quantity: 3, unitCost: 8.5, vendorNote: 'per meter',
+ *   purchased: false, imageId: null
+ * });
+ * ```
+ */
+export const addMaterial = async (groupId: number, input: MaterialInput): Promise<number> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['materials'], 'readwrite');
+    const store = transaction.objectStore('materials');
+
+    const item: Omit<MaterialItem, 'id'> = {
+      ...input,
+      groupId,
+      createdAt: new Date().toISOString()
+    };
+
+    const request = store.add(item);
+
+    request.onsuccess = () => {
+      broadcastChange({ scopes: ['materials'], groupId });
+      resolve(request.result as number);
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to add material: ${request.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Retrieves the materials list of a group
+ *
+ * Items are returned in the order they were added.
+ *
+ * @param groupId - The ID of the group to fetch materials for
+ * @returns Promise that resolves to an array of items
+ * @throws Error if fetching materials fails
+ */
+export const getMaterialsByGroup = async (groupId: number): Promise<MaterialItem[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['materials'], 'readonly');
+    const store = transaction.objectStore('materials');
+    const index = store.index('groupId');
+    const request = index.getAll(groupId);
+
+    request.onsuccess = () => {
+      resolve((request.result as MaterialItem[]).sort((a, b) => a.id - b.id));
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to get materials: ${request.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Updates fields of a material item
+ *
+ * @param materialId - The ID of the item to update
+ * @param changes - The fields to change
+ * @returns Promise that resolves when the update is complete
+ * @throws Error if the update fails or the item doesn't exist
+ *
+ * @example
+ * ```typescript
+ * await updateMaterial(4, { purchased: true });
+ * ```
+ */
+export const updateMaterial = async (
+  materialId: number,
+  changes: Partial<MaterialInput>
+): Promise<void> => {
+  const item = await updateRecord<MaterialItem>('materials', materialId, 'Material', (record) => ({
+    ...record,
+    ...changes
+  }));
+  broadcastChange({ scopes: ['materials'], groupId: item.groupId });
+};
+
+/**
+ * Permanently deletes a material item
+ *
+ * @param materialId - The ID of the item to delete
+ * @returns Promise that resolves when deletion is complete
+ * @throws Error if deletion fails
+ */
+export const deleteMaterial = async (materialId: number): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['materials'], 'readwrite');
+    const store = transaction.objectStore('materials');
+    const getRequest = store.get(materialId);
+
+    getRequest.onsuccess = () => {
+      const item = getRequest.result as MaterialItem | undefined;
+      const request = store.delete(materialId);
+
+      request.onsuccess = () => {
+        broadcastChange({ scopes: ['materials'], groupId: item?.groupId });
+        resolve();
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Failed to delete material: ${request.error?.message || 'Unknown error'}`));
+      };
+    };
+
+    getRequest.onerror = () => {
+      reject(new Error(`Failed to get material: ${getRequest.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+// ============================================
+// TASK OPERATIONS
+// ============================================
+
+/**
+ * Adds a task to the end of a group's checklist
+ *
+ * @param groupId - The ID of the group the task belongs to
+ * @param input - The task's fields
+ * @returns Promise that resolves to the ID of the created task
+ * @throws Error if adding the task fails
+ *
+ * @example
+ * ```typescript
+ * const taskId = await addTask(1, { title: 'Style wig', completed: false, dueDate: null, imageIds: [] });
+ * ```
+ */
+export const addTask = async (groupId: number, input: TaskInput): Promise<number> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['tasks'], 'readwrite');
+    const store = transaction.objectStore('tasks');
+    const groupRequest = store.index('groupId').getAll(groupId);
+
+    groupRequest.onsuccess = () => {
+      const nextPosition = (groupRequest.result as BuildTask[])
+        .reduce((max, task) => Math.max(max, task.position + 1), 0);
+
+      const task: Omit<BuildTask, 'id'> = {
+        ...input,
+        groupId,
+        position: nextPosition,
+        createdAt: new Date().toISOString()
+      };
+
+      const request = store.add(task);
+
+      request.onsuccess = () => {
+        broadcastChange({ scopes: ['tasks'], groupId });
+        resolve(request.result as number);
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Failed to add task: ${request.error?.message || 'Unknown error'}`));
+      };
+    };
+
+    groupRequest.onerror = () => {
+      reject(new Error(`Failed to add task: ${groupRequest.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Retrieves every task in the database, across all groups
+ *
+ * Tasks are small, so the whole set is loaded at once for the
+ * completion bars in the group list. Tasks are returned in checklist
+ * order within each group.
+ *
+ * @returns Promise that resolves to an array of all tasks
+ * @throws Error if fetching tasks fails
+ */
+export const getAllTasks = async (): Promise<BuildTask[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['tasks'], 'readonly');
+    const store = transaction.objectStore('tasks');
+    const request = store.getAll();
+
+    request.onsuccess = () => {
+      resolve(sortByPosition(request.result as BuildTask[]));
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to get tasks: ${request.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Updates fields of a task
+ *
+ * @param taskId - The ID of the task to update
+ * @param changes - The fields to change
+ * @returns Promise that resolves when the update is complete
+ * @throws Error if the update fails or the task doesn't exist
+ *
+ * @example
+ * ```typescript
+ * await updateTask(3, { completed: true });
+ * ```
+ */
+export const updateTask = async (taskId: number, changes: Partial<TaskInput>): Promise<void> => {
+  const task = await updateRecord<BuildTask>('tasks', taskId, 'Task', (record) => ({
+    ...record,
+    ...changes
+  }));
+  broadcastChange({ scopes: ['tasks'], groupId: task.groupId });
+};
+
+/**
+ * Moves a task to a new position within its group's checklist
+ *
+ * Positions are rewritten as a contiguous 0..n-1 sequence in a
+ * single transaction.
+ *
+ * @param taskId - The ID of the task to move
+ * @param toIndex - The target zero-based index within the group (clamped to range)
+ * @returns Promise that resolves when the new order is saved
+ * @throws Error if the move fails or the task doesn't exist
+ */
+export const moveTask = async (taskId: number, toIndex: number): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['tasks'], 'readwrite');
+    const store = transaction.objectStore('tasks');
+    const getRequest = store.get(taskId);
+    let groupId: number | null = null;
+
+    getRequest.onsuccess = () => {
+      const task = getRequest.result as BuildTask | undefined;
+
+      if (!task) {
+        reject(new Error(`Task with ID ${taskId} not found`));
+        return;
+      }
+
+      groupId = task.groupId;
+      const groupRequest = store.index('groupId').getAll(task.groupId);
+
+      groupRequest.onsuccess = () => {
+        const ordered = sortByPosition(groupRequest.result as BuildTask[])
+          .filter((item) => item.id !== taskId);
+        const targetIndex = Math.max(0, Math.min(ordered.length, toIndex));
+        ordered.splice(targetIndex, 0, task);
+
+        // Only rewrite records whose position actually changed
+        ordered.forEach((item, position) => {
+          if (item.position !== position) {
+            store.put({ ...item, position });
+          }
+        });
+      };
+
+      groupRequest.onerror = () => {
+        reject(new Error(`Failed to move task: ${groupRequest.error?.message || 'Unknown error'}`));
+      };
+    };
+
+    getRequest.onerror = () => {
+      reject(new Error(`Failed to get task: ${getRequest.error?.message || 'Unknown error'}`));
+    };
+
+    transaction.oncomplete = () => {
+      if (groupId !== null) {
+        broadcastChange({ scopes: ['tasks'], groupId });
+      }
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      reject(new Error(`Failed to move task: ${transaction.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Permanently deletes a task
+ *
+ * @param taskId - The ID of the task to delete
+ * @returns Promise that resolves when deletion is complete
+ * @throws Error if deletion fails
+ */
+export const deleteTask = async (taskId: number): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['tasks'], 'readwrite');
+    const store = transaction.objectStore('tasks');
+    const getRequest = store.get(taskId);
+
+    getRequest.onsuccess = () => {
+      const task = getRequest.result as BuildTask | undefined;
+      const request = store.delete(taskId);
+
+      request.onsuccess = () => {
+        broadcastChange({ scopes: ['tasks'], groupId: task?.groupId });
+        resolve();
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Failed to delete task: ${request.error?.message || 'Unknown error'}`));
+      };
+    };
+
+    getRequest.onerror = () => {
+      reject(new Error(`Failed to get task: ${getRequest.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+// ============================================
+// EVENT OPERATIONS
+// ============================================
+
+/**
+ * Creates a new event
+ *
+ * @param input - The event's fields
+ * @returns Promise that resolves to the ID of the created event
+ * @throws Error if creating the event fails
+ *
+ * @example
+ * ```typescript
+ * const eventId = await addEvent({
+ *   name: 'Anime Expo', location: 'Los Angeles', startDate: '2025-07-03',
+ *   endDate: '2025-07-06', groupIds: [1, 4]
+ * });
+ * ```
+ */
+export const addEvent = async (input: EventInput): Promise<number> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['events'], 'readwrite');
+    const store = transaction.objectStore('events');
+
+    const event: Omit<ConventionEvent, 'id'> = {
+      ...input,
+      createdAt: new Date().toISOString()
+    };
+
+    const request = store.add(event);
+
+    request.onsuccess = () => {
+      broadcastChange({ scopes: ['events'] });
+      resolve(request.result as number);
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to add event: ${request.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Retrieves every event, soonest first
+ *
+ * Events with the same start date are ordered by name.
+ *
+ * @returns Promise that resolves to an array of all events
+ * @throws Error if fetching events fails
+ */
+export const getAllEvents = async (): Promise<ConventionEvent[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['events'], 'readonly');
+    const store = transaction.objectStore('events');
+    const request = store.index('startDate').getAll();
+
+    request.onsuccess = () => {
+      resolve((request.result as ConventionEvent[]).sort(
+        (a, b) => a.startDate.localeCompare(b.startDate) || a.name.localeCompare(b.name)
+      ));
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to get events: ${request.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Updates fields of an event
+ *
+ * @param eventId - The ID of the event to update
+ * @param changes - The fields to change
+ * @returns Promise that resolves when the update is complete
+ * @throws Error if the update fails or the event doesn't exist
+ *
+ * @example
+ * ```typescript
+ * await updateEvent(2, { groupIds: [1, 4, 7] });
+ * ```
+ */
+export const updateEvent = async (eventId: number, changes: Partial<EventInput>): Promise<void> => {
+  await updateRecord<ConventionEvent>('events', eventId, 'Event', (record) => ({
+    ...record,
+    ...changes
+  }));
+  broadcastChange({ scopes: ['events'] });
+};
+
+/**
+ * Permanently deletes an event
+ *
+ * The groups assigned to it are not affected.
+ *
+ * @param eventId - The ID of the event to delete
+ * @returns Promise that resolves when deletion is complete
+ * @throws Error if deletion fails
+ */
+export const deleteEvent = async (eventId: number): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['events'], 'readwrite');
+    const store = transaction.objectStore('events');
+    const request = store.delete(eventId);
+
+    request.onsuccess = () => {
+      broadcastChange({ scopes: ['events'] });
+      resolve();
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to delete event: ${request.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+// ============================================
+// MEASUREMENT OPERATIONS
+// ============================================
+
+/**
+ * Creates a new measurement profile without any measurements
+ *
+ * @param input - The profile's name and unit
+ * @returns Promise that resolves to the ID of the created profile
+ * @throws Error if creating the profile fails
+ *
+ * @example
+ * ```typescript
+ * const profileId = await addMeasurementProfile({ name: 'Alex', unit: 'cm' });
+ * ```
+ */
+export const addMeasurementProfile = async (input: ProfileInput): Promise<number> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['measurements'], 'readwrite');
+    const store = transaction.objectStore('measurements');
+    const now = new Date().toISOString();
+
+    const profile: Omit<MeasurementProfile, 'id'> = {
+      ...input,
+      revisions: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const request = store.add(profile);
+
+    request.onsuccess = () => {
+      broadcastChange({ scopes: ['measurements'] });
+      resolve(request.result as number);
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to add measurement profile: ${request.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Retrieves every measurement profile, by name
+ *
+ * @returns Promise that resolves to an array of all profiles
+ * @throws Error if fetching profiles fails
+ */
+export const getAllMeasurementProfiles = async (): Promise<MeasurementProfile[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['measurements'], 'readonly');
+    const store = transaction.objectStore('measurements');
+    const request = store.getAll();
+
+    request.onsuccess = () => {
+      resolve((request.result as MeasurementProfile[]).sort((a, b) => a.name.localeCompare(b.name)));
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to get measurement profiles: ${request.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Updates the name or unit of a measurement profile
+ *
+ * @param profileId - The ID of the profile to update
+ * @param changes - The fields to change
+ * @returns Promise that resolves when the update is complete
+ * @throws Error if the update fails or the profile doesn't exist
+ *
+ * @example
+ * ```typescript
+ * await updateMeasurementProfile(3, { unit: 'in' });
+ * ```
+ */
+export const updateMeasurementProfile = async (
+  profileId: number,
+  changes: Partial<ProfileInput>
+): Promise<void> => {
+  await updateRecord<MeasurementProfile>('measurements', profileId, 'Measurement profile', (record) => ({
+    ...record,
+    ...changes,
+    updatedAt: new Date().toISOString()
+  }));
+  broadcastChange({ scopes: ['measurements'] });
+};
+
+/**
+ * Adds a dated revision to a measurement profile
+ *
+ * Revisions stay ordered by date. A revision for a date that already
+ * has one replaces it, so correcting the same day's measurements does
+ * not clutter the history.
+ *
+ * @param profileId - The ID of the profile
+ * @param revision - The measurements, in centimeters
+ * @returns Promise that resolves when the revision is saved
+ * @throws Error if saving fails or the profile doesn't exist
+ *
+ * @example
+ * ```typescript
+ * await addMeasurementRevision(3, { date: '2025-05-01', values: { waist: 71 }, note: '' });
+ * ```
+ */
+export const addMeasurementRevision = async (
+  profileId: number,
+  revision: MeasurementRevision
+): Promise<void> => {
+  await updateRecord<MeasurementProfile>('measurements', profileId, 'Measurement profile', (record) => ({
+    ...record,
+    revisions: [...record.revisions.filter((item) => item.date !== revision.date), revision]
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    updatedAt: new Date().toISOString()
+  }));
+  broadcastChange({ scopes: ['measurements'] });
+};
+
+/**
+ * Removes the revision of a given date from a measurement profile
+ *
+ * @param profileId - The ID of the profile
+ * @param date - Date of the revision as YYYY-MM-DD
+ * @returns Promise that resolves when the revision is removed
+ * @throws Error if saving fails or the profile doesn't exist
+ */
+export const deleteMeasurementRevision = async (profileId: number, date: string): Promise<void> => {
+  await updateRecord<MeasurementProfile>('measurements', profileId, 'Measurement profile', (record) => ({
+    ...record,
+    revisions: record.revisions.filter((item) => item.date !== date),
+    updatedAt: new Date().toISOString()
+  }));
+  broadcastChange({ scopes: ['measurements'] });
+};
+
+/**
+ * Permanently deletes a measurement profile
+ *
+ * Groups linked to the profile (including trashed ones) are unlinked
+ * in the same transaction.
+ *
+ * @param profileId - The ID of the profile to delete
+ * @returns Promise that resolves when deletion is complete
+ * @throws Error if deletion fails
+ */
+export const deleteMeasurementProfile = async (profileId: number): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['measurements', 'groups'], 'readwrite');
+    transaction.objectStore('measurements').delete(profileId);
+
+    // Groups have no index on the profile, so check each of them
+    const cursorRequest = transaction.objectStore('groups').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const group = cursor.value as ImageGroup;
+      if (group.measurementProfileId === profileId) {
+        cursor.update({ ...group, measurementProfileId: null });
+      }
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => {
+      broadcastChange({ scopes: ['measurements', 'groups', 'trash'] });
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      reject(new Error(`Failed to delete measurement profile: ${transaction.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+// ============================================
+// SEARCH
+// ============================================
+
+/**
+ * Searches groups and images across the whole gallery
+ *
+ * Groups match on name, plan details, notes and tags; images match on
+ * name and tags (see ./search.ts for the query syntax). When the query
+ * contains a `#tag`, images are looked up through the multi-entry tags
+ * index instead of scanning every image. Trashed groups and images,
+ * and images of trashed groups, are never returned.
+ *
+ * @param query - The query as typed by the user
+ * @returns Promise that resolves to at most MAX_SEARCH_RESULTS groups and images
+ * @throws Error if the search fails
+ *
+ * @example
+ * ```typescript
+ * const { groups, images } = await searchGallery('braid #wig');
+ * ```
+ */
+export const searchGallery = async (query: string): Promise<SearchResults> => {
+  const parsed = parseSearchQuery(query);
+  if (isEmptyQuery(parsed)) {
+    return { groups: [], images: [] };
+  }
+
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['groups', 'images'], 'readonly');
+    const imageStore = transaction.objectStore('images');
+    // Groups are few and needed for the images' group names, so all are loaded
+    const groupRequest = transaction.objectStore('groups').getAll();
+    const imageRequest = parsed.tags.length > 0
+      ? imageStore.index('tags').getAll(parsed.tags[0])
+      : imageStore.getAll();
+
+    transaction.oncomplete = () => {
+      const groups = (groupRequest.result as ImageGroup[])
+        .map(withGroupDefaults)
+        .filter((group) => !group.deletedAt);
+      const groupsById = new Map(groups.map((group) => [group.id, group]));
+
+      const images = (imageRequest.result as StoredImage[])
+        .map(withImageDefaults)
+        .filter((image) => !image.deletedAt && groupsById.has(image.groupId) && matchesImage(image, parsed))
+        .map((image) => ({ image, group: groupsById.get(image.groupId) as ImageGroup }))
+        .sort((a, b) =>
+          a.group.name.localeCompare(b.group.name) ||
+          a.group.id - b.group.id ||
+          a.image.position - b.image.position
+        );
+
+      resolve({
+        groups: groups
+          .filter((group) => matchesGroup(group, parsed))
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .slice(0, MAX_SEARCH_RESULTS),
+        images: images.slice(0, MAX_SEARCH_RESULTS)
+      });
+    };
+
+    transaction.onerror = () => {
+      reject(new Error(`Failed to search: ${transaction.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Lists every tag used on groups or images, alphabetically
+ *
+ * Reads only the keys of the multi-entry tags indexes, so no image
+ * data is loaded. Tags of trashed records are included.
+ *
+ * @returns Promise that resolves to the unique tags
+ * @throws Error if reading the tags fails
+ */
+export const getAllTags = async (): Promise<string[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['groups', 'images'], 'readonly');
+    const tags = new Set<string>();
+
+    ['groups', 'images'].forEach((storeName) => {
+      const request = transaction.objectStore(storeName).index('tags').openKeyCursor(null, 'nextunique');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        tags.add(cursor.key as string);
+        cursor.continue();
+      };
+    });
+
+    transaction.oncomplete = () => {
+      resolve(Array.from(tags).sort());
+    };
+
+    transaction.onerror = () => {
+      reject(new Error(`Failed to get tags: ${transaction.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+// ============================================
+// TRASH OPERATIONS
+// ============================================
+
+/**
+ * A trashed group together with the number of images it holds
+ */
+export interface TrashedGroup extends ImageGroup {
+  /** Number of images in the group that are not trashed individually */
+  imageCount: number;
+}
+
+/**
+ * Everything currently in the trash
+ */
+export interface TrashContents {
+  /** Trashed groups, most recently deleted first */
+  groups: TrashedGroup[];
+  /** Individually trashed images, most recently deleted first */
+  images: StoredImage[];
+}
+
+/**
+ * Moves a group to the trash
+ *
+ * The group and its images stay in the database but are hidden
+ * from getAllGroups until restored or purged.
+ *
+ * @param groupId - The ID of the group to trash
+ * @returns Promise that resolves when the group is trashed
+ * @throws Error if the group doesn't exist or the update fails
+ *
+ * @example
+ * ```typescript
+ * await trashGroup(1);
+ * ```
+ */
+export const trashGroup = async (groupId: number): Promise<void> => {
+  await updateRecord<ImageGroup>('groups', groupId, 'Group', (group) => ({
+    ...group,
+    deletedAt: new Date().toISOString()
+  }));
+  broadcastChange({ scopes: ['groups', 'trash'], groupId });
+};
+
+/**
+ * Moves an image to the trash
+ *
+ * @param imageId - The ID of the image to trash
+ * @returns Promise that resolves when the image is trashed
+ * @throws Error if the image doesn't exist or the update fails
+ *
+ * @example
+ * ```typescript
+ * await trashImage(5);
+ * ```
+ */
+export const trashImage = async (imageId: number): Promise<void> => {
+  const image = await updateRecord<StoredImage>('images', imageId, 'Image', (record) => ({
+    ...record,
+    deletedAt: new Date().toISOString()
+  }));
+  broadcastChange({ scopes: ['images', 'trash'], groupId: image.groupId });
+};
+
+/**
+ * Restores a group from the trash
+ *
+ * Images that were trashed individually before the group stay in the trash.
+ *
+ * @param groupId - The ID of the group to restore
+ * @returns Promise that resolves when the group is restored
+ * @throws Error if the group doesn't exist or the update fails
+ */
+export const restoreGroup = async (groupId: number): Promise<void> => {
+  await updateRecord<ImageGroup>('groups', groupId, 'Group', (group) => ({
+    ...group,
+    deletedAt: null
+  }));
+  broadcastChange({ scopes: ['groups', 'trash'], groupId });
+};
+
+/**
+ * Restores an image from the trash
+ *
+ * If the image's group is also in the trash, the group is restored
+ * too (in the same transaction) so the image becomes visible again.
+ *
+ * @param imageId - The ID of the image to restore
+ * @returns Promise that resolves to the image's group ID
+ * @throws Error if the image doesn't exist or the update fails
+ */
+export const restoreImage = async (imageId: number): Promise<number> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['groups', 'images'], 'readwrite');
+    const groupStore = transaction.objectStore('groups');
+    const imageStore = transaction.objectStore('images');
+    const getRequest = imageStore.get(imageId);
+    let groupId: number | null = null;
+
+    getRequest.onsuccess = () => {
+      const image = getRequest.result as StoredImage | undefined;
+
+      if (!image) {
+        reject(new Error(`Image with ID ${imageId} not found`));
+        transaction.abort();
+        return;
+      }
+
+      groupId = image.groupId;
+      imageStore.put({ ...image, deletedAt: null });
+
+      const groupRequest = groupStore.get(image.groupId);
+      groupRequest.onsuccess = () => {
+        const group = groupRequest.result as ImageGroup | undefined;
+        if (group?.deletedAt) {
+          groupStore.put({ ...group, deletedAt: null });
+        }
+      };
+    };
+
+    transaction.oncomplete = () => {
+      broadcastChange({ scopes: ['groups', 'images', 'trash'], groupId: groupId as number });
+      resolve(groupId as number);
+    };
+
+    transaction.onerror = () => {
+      reject(new Error(`Failed to restore image: ${transaction.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Retrieves everything currently in the trash
+ *
+ * @returns Promise that resolves to the trashed groups and images
+ * @throws Error if the database operation fails
+ *
+ * @example
+ * ```typescript
+ * const { groups, images } = await getTrash();
+ * console.log(`${groups.length + images.length} items in trash`);
+ * ```
+ */
+export const getTrash = async (): Promise<TrashContents> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['groups', 'images'], 'readonly');
+    const groupRequest = transaction.objectStore('groups').index('deletedAt').getAll();
+    const imageIndex = transaction.objectStore('images').index('groupId');
+    const imageRequest = transaction.objectStore('images').index('deletedAt').getAll();
+    const groups: TrashedGroup[] = [];
+
+    groupRequest.onsuccess = () => {
+      (groupRequest.result as ImageGroup[]).forEach((group) => {
+        const countRequest = imageIndex.getAll(group.id);
+        countRequest.onsuccess = () => {
+          const imageCount = (countRequest.result as StoredImage[])
+            .filter((image) => !image.deletedAt).length;
+          groups.push({ ...group, imageCount });
+        };
+      });
+    };
+
+    transaction.oncomplete = () => {
+      const byDeletedAtDesc = (a: { deletedAt: string | null }, b: { deletedAt: string | null }) =>
+        (b.deletedAt || '').localeCompare(a.deletedAt || '');
+      resolve({
+        groups: groups.sort(byDeletedAtDesc),
+        images: (imageRequest.result as StoredImage[]).sort(byDeletedAtDesc)
+      });
+    };
+
+    transaction.onerror = () => {
+      reject(new Error(`Failed to get trash: ${transaction.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Permanently deletes trashed items that were deleted before a cutoff
+ *
+ * Trashed groups are deleted together with all their images; trashed
+ * images are deleted together with their thumbnails and annotations,
+ * and removed from the materials and tasks that refer to them.
+ *
+ * @param cutoff - Items trashed before this moment are purged (defaults to now, i.e. empty the trash)
+ * @returns Promise that resolves to the number of groups and images purged
+ * @throws Error if the purge fails
+ *
+ * @example
+ * ```typescript
+ * // Purge everything trashed more than 30 days ago
+ * await purgeTrash(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000));
+ * ```
+ */
+export const purgeTrash = async (
+  cutoff: Date = new Date()
+): Promise<{ groups: number; images: number }> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      ['groups', 'images', ...IMAGE_CHILD_STORES, ...GROUP_RELATED_STORES],
+      'readwrite'
+    );
+    const groupStore = transaction.objectStore('groups');
+    const imageStore = transaction.objectStore('images');
+    const range = IDBKeyRange.upperBound(cutoff.toISOString());
+    const purged = { groups: 0, images: 0 };
+    /** Images already deleted; one trashed on its own inside a purged group is found twice */
+    const deletedImageIds = new Set<IDBValidKey>();
+
+    /** Deletes an image record and its thumbnails and annotations */
+    const deleteImageRecord = (imageId: IDBValidKey): void => {
+      if (deletedImageIds.has(imageId)) return;
+      deletedImageIds.add(imageId);
+      imageStore.delete(imageId);
+      IMAGE_CHILD_STORES.forEach((storeName) => transaction.objectStore(storeName).delete(imageId));
+      purged.images++;
+    };
+
+    const groupCursorRequest = groupStore.index('deletedAt').openCursor(range);
+    groupCursorRequest.onsuccess = () => {
+      const cursor = groupCursorRequest.result;
+      if (!cursor) return;
+
+      const imageKeysRequest = imageStore.index('groupId').getAllKeys(cursor.primaryKey);
+      imageKeysRequest.onsuccess = () => {
+        imageKeysRequest.result.forEach(deleteImageRecord);
+      };
+      deleteGroupChildren(transaction, cursor.primaryKey);
+      cursor.delete();
+      purged.groups++;
+      cursor.continue();
+    };
+
+    const imageCursorRequest = imageStore.index('deletedAt').openCursor(range);
+    imageCursorRequest.onsuccess = () => {
+      const cursor = imageCursorRequest.result;
+      if (!cursor) return;
+      const image = cursor.value as StoredImage;
+      clearImageReferences(transaction, image.groupId, image.id);
+      deleteImageRecord(cursor.primaryKey);
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => {
+      if (purged.groups > 0) {
+        broadcastChange({ scopes: ['trash', 'events', 'materials', 'tasks'] });
+      } else if (purged.images > 0) {
+        // Materials and tasks may have referred to the purged images
+        broadcastChange({ scopes: ['trash', 'materials', 'tasks'] });
+      }
+      resolve(purged);
+    };
+
+    transaction.onerror = () => {
+      reject(new Error(`Failed to purge trash: ${transaction.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+// ============================================
+// STORAGE USAGE
+// ============================================
+
+/**
+ * Storage used by the images of one group
+ */
+export interface GroupStorageUsage {
+  /** ID of the group */
+  groupId: number;
+  /** Number of (non-trashed) images in the group */
+  imageCount: number;
+  /** Total size of the group's original image blobs in bytes */
+  bytes: number;
+}
+
+/**
+ * Per-group breakdown of image storage
+ */
+export interface StorageBreakdown {
+  /** Usage of each active group, largest first */
+  groups: GroupStorageUsage[];
+  /** Total size of images in the trash (trashed individually or with their group) */
+  trashBytes: number;
+}
+
+/**
+ * Computes how much space each group's images take up
+ *
+ * Sizes come from the stored blobs (`StoredImage.blob.size`), so
+ * thumbnails and browser overhead are not included.
+ *
+ * @returns Promise that resolves to the per-group breakdown
+ * @throws Error if the database operation fails
+ *
+ * @example
+ * ```typescript
+ * const { groups } = await getStorageBreakdown();
+ * groups.forEach(g => console.log(g.groupId, g.bytes));
+ * ```
+ */
+export const getStorageBreakdown = async (): Promise<StorageBreakdown> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['groups', 'images'], 'readonly');
+    const groupsRequest = transaction.objectStore('groups').getAll();
+    const usageByGroup = new Map<number, GroupStorageUsage>();
+    let trashBytes = 0;
+
+    groupsRequest.onsuccess = () => {
+      const trashedGroupIds = new Set<number>();
+      (groupsRequest.result as ImageGroup[]).forEach((group) => {
+        if (group.deletedAt) {
+          trashedGroupIds.add(group.id);
+        } else {
+          usageByGroup.set(group.id, { groupId: group.id, imageCount: 0, bytes: 0 });
+        }
+      });
+
+      const cursorRequest = transaction.objectStore('images').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+
+        const image = cursor.value as StoredImage;
+        const usage = usageByGroup.get(image.groupId);
+        if (image.deletedAt || trashedGroupIds.has(image.groupId) || !usage) {
+          trashBytes += image.blob.size;
+        } else {
+          usage.imageCount++;
+          usage.bytes += image.blob.size;
+        }
+        cursor.continue();
+      };
+    };
+
+    transaction.oncomplete = () => {
+      resolve({
+        groups: [...usageByGroup.values()].sort((a, b) => b.bytes - a.bytes),
+        trashBytes
+      });
+    };
+
+    transaction.onerror = () => {
+      reject(new Error(`Failed to compute storage usage: ${transaction.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+// ============================================
+// THUMBNAIL OPERATIONS
+// ============================================
+
+/**
+ * Thumbnail backfills currently in progress, keyed by image ID
+ *
+ * Prevents several components showing the same image from
+ * generating its thumbnails more than once.
+ */
+const pendingBackfills = new Map<number, Promise<ImageThumbnails | null>>();
+
+/**
+ * Retrieves the stored thumbnails of an image
+ *
+ * @param imageId - The ID of the image
+ * @returns Promise that resolves to the thumbnails, or null if none were generated yet
+ * @throws Error if the database operation fails
+ */
+export const getImageThumbnails = async (imageId: number): Promise<ImageThumbnails | null> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['thumbnails'], 'readonly');
+    const store = transaction.objectStore('thumbnails');
+    const request = store.get(imageId);
+
+    request.onsuccess = () => {
+      resolve((request.result as ImageThumbnails) || null);
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to get thumbnails: ${request.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Retrieves the original pixel size of images
+ *
+ * Sizes are read from the thumbnail records; images without thumbnails
+ * are decoded instead. An image that cannot be decoded is left out.
+ *
+ * @param images - The images
+ * @returns Promise that resolves to the size of each image, by image ID
+ * @throws Error if the database operation fails
+ *
+ * @example
+ * ```typescript
+ * const sizes = await getImageSizes(images);
+ * const ratio = sizes.get(5)?.height / sizes.get(5)?.width;
+ * ```
+ */
+export const getImageSizes = async (
+  images: StoredImage[]
+): Promise<Map<number, { width: number; height: number }>> => {
+  const db = await openDB();
+  const sizes = new Map<number, { width: number; height: number }>();
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(['thumbnails'], 'readonly');
+    const store = transaction.objectStore('thumbnails');
+    images.forEach((image) => {
+      const request = store.get(image.id);
+      request.onsuccess = () => {
+        const record = request.result as ImageThumbnails | undefined;
+        if (record) sizes.set(image.id, { width: record.width, height: record.height });
+      };
+    });
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      reject(new Error(`Failed to get image sizes: ${transaction.error?.message || 'Unknown error'}`));
+    };
+  });
+
+  for (const image of images.filter((item) => !sizes.has(item.id))) {
+    try {
+      const bitmap = await createImageBitmap(image.blob);
+      sizes.set(image.id, { width: bitmap.width, height: bitmap.height });
+      bitmap.close();
+    } catch (err) {
+      console.warn(`Could not read the size of "${image.name}":`, err);
+    }
+  }
+  return sizes;
+};
+
+/**
+ * Generates and saves thumbnails for an image that has none yet
+ *
+ * Used to lazily backfill images added before thumbnails existed
+ * (or restored from a backup). Failures are logged and reported as
+ * null so callers can fall back to the original blob.
+ *
+ * @param image - The image to process
+ * @returns Promise that resolves to the saved thumbnails, or null on failure
+ */
+const backfillThumbnails = (image: StoredImage): Promise<ImageThumbnails | null> => {
+  const pending = pendingBackfills.get(image.id);
+  if (pending) return pending;
+
+  const backfill = (async (): Promise<ImageThumbnails | null> => {
+    try {
+      const record: ImageThumbnails = { imageId: image.id, ...await generateThumbnails(image.blob) };
+      const db = await openDB();
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(['thumbnails'], 'readwrite');
+        const request = transaction.objectStore('thumbnails').put(record);
+
+        request.onsuccess = () => {
+          resolve();
+        };
+
+        request.onerror = () => {
+          reject(new Error(`Failed to save thumbnails: ${request.error?.message || 'Unknown error'}`));
+        };
+      });
+      return record;
+    } catch (err) {
+      console.warn(`Could not backfill thumbnails for "${image.name}":`, err);
+      return null;
+    } finally {
+      pendingBackfills.delete(image.id);
+    }
+  })();
+
+  pendingBackfills.set(image.id, backfill);
+  return backfill;
+};
+
+/**
+ * Returns the smallest stored rendition of an image that fits a display size
+ *
+ * Thumbnails are backfilled on first use for images that have none.
+ * Falls back to the original blob when no thumbnail is large enough
+ * (or thumbnails could not be generated).
+ *
+ * @param image - The image to display
+ * @param displaySize - Longest edge the image is displayed at, in CSS pixels
+ * @returns Promise that resolves to the blob to display
+ *
+ * @example
+ * ```typescript
+ * const blob = await getDisplayBlob(image, 256);
+ * const url = URL.createObjectURL(blob);
+ * ```
+ */
+export const getDisplayBlob = async (image: StoredImage, displaySize: number): Promise<Blob> => {
+  const size = pickThumbnailSize(displaySize);
+  if (size === null) return image.blob;
+
+  const record = await getImageThumbnails(image.id).catch(() => null)
+    ?? await backfillThumbnails(image);
+  const match = record?.thumbnails.find((thumbnail) => thumbnail.size >= size);
+
+  return match ? match.blob : image.blob;
+};
+
+// ============================================
+// PALETTE OPERATIONS
+// ============================================
+
+/**
+ * Display size whose thumbnail palettes are extracted from
+ *
+ * The smallest thumbnail keeps extraction cheap; the sampled canvas
+ * is smaller still (see ./palette.ts).
+ */
+const PALETTE_SOURCE_SIZE = 64;
+
+/**
+ * Extracts and saves the color palettes of a group's images
+ *
+ * Images are processed one after another so large groups do not decode
+ * many images at once. An image that cannot be processed is logged and
+ * keeps its previous palette. Other tabs are notified once at the end.
+ *
+ * @param groupId - The ID of the group
+ * @param options - `onlyMissing` skips images that already have a palette;
+ *                  `onProgress` is called after each image
+ * @returns Promise that resolves to the number of palettes saved
+ * @throws Error if the group's images cannot be read
+ *
+ * @example
+ * ```typescript
+ * const updated = await recomputeGroupPalettes(1, {
+ *   onProgress: (done, total) => console.log(`${done}/${total}`)
+ * });
+ * ```
+ */
+export const recomputeGroupPalettes = async (
+  groupId: number,
+  options: {
+    onlyMissing?: boolean;
+    onProgress?: (done: number, total: number) => void;
+  } = {}
+): Promise<number> => {
+  const images = (await getImagesByGroup(groupId))
+    .filter((image) => !options.onlyMissing || !image.palette);
+  let updated = 0;
+
+  for (const [index, image] of images.entries()) {
+    try {
+      const palette = await extractPalette(await getDisplayBlob(image, PALETTE_SOURCE_SIZE));
+      await updateRecord<StoredImage>('images', image.id, 'Image', (record) => ({
+        ...record,
+        palette
+      }));
+      updated += 1;
+    } catch (err) {
+      console.warn(`Could not extract the palette of "${image.name}":`, err);
+    }
+    options.onProgress?.(index + 1, images.length);
+  }
+
+  if (updated > 0) {
+    broadcastChange({ scopes: ['images'], groupId });
+  }
+  return updated;
+};
+
+// ============================================
+// ANNOTATION OPERATIONS
+// ============================================
+
+/**
+ * Retrieves the annotations of a group's images
+ *
+ * Only images that have annotations are included.
+ *
+ * @param groupId - The ID of the group
+ * @returns Promise that resolves to one record per annotated image
+ * @throws Error if fetching annotations fails
+ *
+ * @example
+ * ```typescript
+ * const annotations = await getAnnotationsByGroup(1);
+ * const forImage = annotations.find((record) => record.imageId === 5);
+ * ```
+ */
+export const getAnnotationsByGroup = async (groupId: number): Promise<ImageAnnotations[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['annotations'], 'readonly');
+    const store = transaction.objectStore('annotations');
+    const request = store.index('groupId').getAll(groupId);
+
+    request.onsuccess = () => {
+      resolve(request.result as ImageAnnotations[]);
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to get annotations: ${request.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Saves the annotations of an image, replacing any saved before
+ *
+ * The image blob itself is never touched. Saving an empty shape list
+ * removes the image's annotation record.
+ *
+ * @param input - The image, its size and the shapes drawn on it
+ * @returns Promise that resolves when the annotations are saved
+ * @throws Error if saving fails
+ *
+ * @example
+ * ```typescript
+ * await saveAnnotations({ imageId: 5, groupId: 1, width: 1200, height: 1600, shapes });
+ * ```
+ */
+export const saveAnnotations = async (input: AnnotationsInput): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['annotations'], 'readwrite');
+    const store = transaction.objectStore('annotations');
+    const request = input.shapes.length > 0
+      ? store.put({ ...input, updatedAt: new Date().toISOString() })
+      : store.delete(input.imageId);
+
+    request.onsuccess = () => {
+      broadcastChange({ scopes: ['annotations'], groupId: input.groupId });
+      resolve();
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to save annotations: ${request.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+// ============================================
+// BACKUP OPERATIONS
+// ============================================
+
+/**
+ * How restored records are combined with the current database
+ *
+ * - 'merge': restored groups are added as new groups next to the existing ones
+ * - 'replace': all existing groups and images are removed first
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * Records read from a backup, as passed to restoreRecords
+ */
+export interface BackupRecords {
+  /** Groups to restore */
+  groups: ImageGroup[];
+  /** Images to restore (groupId refers to IDs in `groups`) */
+  images: StoredImage[];
+  /** Materials to restore (groupId and imageId refer to IDs in the backup) */
+  materials: MaterialItem[];
+  /** Tasks to restore (groupId and imageIds refer to IDs in the backup) */
+  tasks: BuildTask[];
+  /** Events to restore (groupIds refer to IDs in the backup) */
+  events: ConventionEvent[];
+  /** Measurement profiles to restore (groups refer to them by their IDs in the backup) */
+  measurements: MeasurementProfile[];
+  /** Image annotations to restore (imageId and groupId refer to IDs in the backup) */
+  annotations: ImageAnnotations[];
+}
+
+/**
+ * Counts of records written by restoreRecords
+ */
+export interface RestoreResult {
+  /** Number of groups written */
+  groupsRestored: number;
+  /** Number of images written */
+  imagesRestored: number;
+}
+
+/**
+ * Retrieves every image in the database, across all groups
+ *
+ * Used for full backups. Images are returned in ID order.
+ *
+ * @returns Promise that resolves to an array of all images
+ * @throws Error if fetching images fails
+ */
+export const getAllImages = async (): Promise<StoredImage[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['images'], 'readonly');
+    const store = transaction.objectStore('images');
+    const request = store.getAll();
+
+    request.onsuccess = () => {
+      resolve(request.result as StoredImage[]);
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to get images: ${request.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Retrieves every material item in the database, across all groups
+ *
+ * Used for full backups.
+ *
+ * @returns Promise that resolves to an array of all material items
+ * @throws Error if fetching materials fails
+ */
+export const getAllMaterials = async (): Promise<MaterialItem[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['materials'], 'readonly');
+    const store = transaction.objectStore('materials');
+    const request = store.getAll();
+
+    request.onsuccess = () => {
+      resolve(request.result as MaterialItem[]);
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to get materials: ${request.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Retrieves the annotations of every image, across all groups
+ *
+ * Used for full backups.
+ *
+ * @returns Promise that resolves to an array of all annotation records
+ * @throws Error if fetching annotations fails
+ */
+export const getAllAnnotations = async (): Promise<ImageAnnotations[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['annotations'], 'readonly');
+    const store = transaction.objectStore('annotations');
+    const request = store.getAll();
+
+    request.onsuccess = () => {
+      resolve(request.result as ImageAnnotations[]);
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to get annotations: ${request.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+/**
+ * Writes backed-up records into the database
+ *
+ * Everything happens in a single transaction, so a failed restore
+ * leaves the database exactly as it was.
+ *
+ * In 'replace' mode all stores are cleared and records keep their
+ * original IDs. In 'merge' mode every group is added with a new ID and
+ * its images, materials, tasks and annotations are re-linked to the new
+ * group and image IDs; records whose group is not part of the backup are skipped. Events
+ * are added as new events once every group has its new ID, keeping
+ * only the assignments to restored groups. Measurement profiles are
+ * added as new profiles before the groups, so groups can be re-linked
+ * to them.
+ *
+ * @param records - Records to restore
+ * @param mode - Whether to merge into or replace the current data
+ * @returns Promise that resolves to the number of records written
+ * @throws Error if the restore fails
+ *
+ * @example
+ * ```typescript
+ * const result = await restoreRecords(
+ *   { groups, images, materials, tasks, events, measurements, annotations },
+ *   'merge'
+ * );
+ * console.log(`Restored ${result.imagesRestored} images`);
+ * ```
+ */
+export const restoreRecords = async (
+  records: BackupRecords,
+  mode: RestoreMode
+): Promise<RestoreResult> => {
+  const { groups, images, materials, tasks, events, measurements, annotations } = records;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      ['groups', 'images', 'measurements', ...IMAGE_CHILD_STORES, ...GROUP_RELATED_STORES],
+      'readwrite'
+    );
+    const groupStore = transaction.objectStore('groups');
+    const imageStore = transaction.objectStore('images');
+    const materialStore = transaction.objectStore('materials');
+    const taskStore = transaction.objectStore('tasks');
+    const eventStore = transaction.objectStore('events');
+    const measurementStore = transaction.objectStore('measurements');
+    const annotationStore = transaction.objectStore('annotations');
+    const result: RestoreResult = { groupsRestored: 0, imagesRestored: 0 };
+
+    if (mode === 'replace') {
+      groupStore.clear();
+      imageStore.clear();
+      measurementStore.clear();
+      annotationStore.clear();
+      GROUP_RELATED_STORES.forEach((storeName) => transaction.objectStore(storeName).clear());
+      // Image IDs are reused, so stale thumbnails must go; they are regenerated lazily
+      transaction.objectStore('thumbnails').clear();
+
+      groups.forEach((group) => {
+        groupStore.put(withGroupDefaults(group));
+        result.groupsRestored++;
+      });
+      images.forEach((image) => {
+        imageStore.put(withImageDefaults(image));
+        result.imagesRestored++;
+      });
+      materials.forEach((item) => materialStore.put(item));
+      tasks.forEach((task) => taskStore.put(task));
+      events.forEach((event) => eventStore.put(event));
+      measurements.forEach((profile) => measurementStore.put(profile));
+      annotations.forEach((record) => annotationStore.put(record));
+    } else {
+      /** Backup group ID -> newly assigned group ID */
+      const groupIdMap = new Map<number, number>();
+      let pendingGroups = groups.length;
+      /** Backup measurement profile ID -> newly assigned profile ID */
+      const profileIdMap = new Map<number, number>();
+      let pendingProfiles = measurements.length;
+
+      /** Adds events once all new group IDs are known */
+      const addEvents = (): void => {
+        events.forEach((event) => {
+          const { id: _eventId, ...eventInput } = event;
+          eventStore.add({
+            ...eventInput,
+            groupIds: event.groupIds
+              .map((groupId) => groupIdMap.get(groupId))
+              .filter((groupId): groupId is number => groupId !== undefined)
+          });
+        });
+      };
+
+      if (pendingGroups === 0) addEvents();
+
+      /** Adds groups (and their records) once all new profile IDs are known */
+      const addGroups = (): void => {
+        groups.forEach((group) => {
+          const { id: originalId, ...groupInput } = withGroupDefaults(group);
+          const addRequest = groupStore.add({
+            ...groupInput,
+            measurementProfileId: groupInput.measurementProfileId !== null
+              ? profileIdMap.get(groupInput.measurementProfileId) ?? null
+              : null
+          });
+
+          addRequest.onsuccess = () => {
+            const newGroupId = addRequest.result as number;
+            groupIdMap.set(originalId, newGroupId);
+            pendingGroups--;
+            if (pendingGroups === 0) addEvents();
+            const groupImages = images.filter((image) => image.groupId === originalId);
+            /** Backup image ID -> newly assigned image ID */
+            const imageIdMap = new Map<number, number>();
+            let pendingImages = groupImages.length;
+            result.groupsRestored++;
+
+            /** Adds records that may reference images once all new image IDs are known */
+            const addLinkedRecords = (): void => {
+              materials
+                .filter((item) => item.groupId === originalId)
+                .forEach((item) => {
+                  const { id: _materialId, ...itemInput } = item;
+                  materialStore.add({
+                    ...itemInput,
+                    groupId: newGroupId,
+                    imageId: item.imageId !== null ? imageIdMap.get(item.imageId) ?? null : null
+                  });
+                });
+              tasks
+                .filter((task) => task.groupId === originalId)
+                .forEach((task) => {
+                  const { id: _taskId, ...taskInput } = task;
+                  taskStore.add({
+                    ...taskInput,
+                    groupId: newGroupId,
+                    imageIds: task.imageIds
+                      .map((imageId) => imageIdMap.get(imageId))
+                      .filter((imageId): imageId is number => imageId !== undefined)
+                  });
+                });
+              annotations
+                .filter((record) => imageIdMap.has(record.imageId))
+                .forEach((record) => {
+                  annotationStore.add({
+                    ...record,
+                    imageId: imageIdMap.get(record.imageId) as number,
+                    groupId: newGroupId
+                  });
+                });
+            };
+
+            if (pendingImages === 0) addLinkedRecords();
+
+            groupImages.forEach((image) => {
+              const { id: originalImageId, ...imageInput } = withImageDefaults(image);
+              const imageRequest = imageStore.add({ ...imageInput, groupId: newGroupId });
+              result.imagesRestored++;
+
+              imageRequest.onsuccess = () => {
+                imageIdMap.set(originalImageId, imageRequest.result as number);
+                pendingImages--;
+                if (pendingImages === 0) addLinkedRecords();
+              };
+            });
+          };
+        });
+      };
+
+      if (pendingProfiles === 0) addGroups();
+
+      measurements.forEach((profile) => {
+        const { id: originalProfileId, ...profileInput } = profile;
+        const profileRequest = measurementStore.add(profileInput);
+
+        profileRequest.onsuccess = () => {
+          profileIdMap.set(originalProfileId, profileRequest.result as number);
+          pendingProfiles--;
+          if (pendingProfiles === 0) addGroups();
+        };
+      });
+    }
+
+    transaction.oncomplete = () => {
+      broadcastChange({
+        scopes: ['groups', 'images', 'trash', 'materials', 'tasks', 'events', 'measurements', 'annotations']
+      });
+      resolve(result);
+    };
+
+    transaction.onerror = () => {
+      reject(new Error(`Failed to restore backup: ${transaction.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Sorts manually ordered records (images, tasks) by their position
+ *
+ * Falls back to ID order for equal positions so the result
+ * is always deterministic.
+ *
+ * @param records - Records to sort (not modified)
+ * @returns A new array in display order
+ */
+const sortByPosition = <T extends { id: number; position: number }>(records: T[]): T[] => {
+  return [...records].sort((a, b) => a.position - b.position || a.id - b.id);
+};
+
+/**
+ * Deletes a group's records from every store in GROUP_CHILD_STORES
+ * and removes the group from the events it is assigned to
+ *
+ * Runs inside the caller's transaction, which must include every store
+ * in GROUP_RELATED_STORES.
+ *
+ * @param transaction - An open readwrite transaction
+ * @param groupId - The group whose records should be deleted
+ */
+const deleteGroupChildren = (transaction: IDBTransaction, groupId: IDBValidKey): void => {
+  GROUP_CHILD_STORES.forEach((storeName) => {
+    const store = transaction.objectStore(storeName);
+    const request = store.index('groupId').openKeyCursor(IDBKeyRange.only(groupId));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+  });
+
+  const eventRequest = transaction.objectStore('events').index('groupIds').openCursor(IDBKeyRange.only(groupId));
+  eventRequest.onsuccess = () => {
+    const cursor = eventRequest.result;
+    if (!cursor) return;
+    const event = cursor.value as ConventionEvent;
+    cursor.update({ ...event, groupIds: event.groupIds.filter((id) => id !== groupId) });
+    cursor.continue();
+  };
+};
+
+/**
+ * Removes references to a deleted image from its group's materials and tasks
+ *
+ * Runs inside the caller's transaction, which must include every store
+ * in GROUP_CHILD_STORES.
+ *
+ * @param transaction - An open readwrite transaction
+ * @param groupId - The group the image belonged to
+ * @param imageId - The deleted image
+ */
+const clearImageReferences = (transaction: IDBTransaction, groupId: number, imageId: number): void => {
+  const materialRequest = transaction.objectStore('materials').index('groupId').openCursor(IDBKeyRange.only(groupId));
+  materialRequest.onsuccess = () => {
+    const cursor = materialRequest.result;
+    if (!cursor) return;
+    const item = cursor.value as MaterialItem;
+    if (item.imageId === imageId) {
+      cursor.update({ ...item, imageId: null });
+    }
+    cursor.continue();
+  };
+
+  const taskRequest = transaction.objectStore('tasks').index('groupId').openCursor(IDBKeyRange.only(groupId));
+  taskRequest.onsuccess = () => {
+    const cursor = taskRequest.result;
+    if (!cursor) return;
+    const task = cursor.value as BuildTask;
+    if (task.imageIds.includes(imageId)) {
+      cursor.update({ ...task, imageIds: task.imageIds.filter((id) => id !== imageId) });
+    }
+    cursor.continue();
+  };
+};
+
+/**
+ * Fills in fields missing from groups written by older app versions
+ * (e.g. groups from a backup made before plan details existed)
+ *
+ * @param group - Group record, possibly lacking newer fields
+ * @returns The group with every field present
+ */
+const withGroupDefaults = (group: ImageGroup): ImageGroup => {
+  return { ...DEFAULT_GROUP_DETAILS, ...group, previewLayout: group.previewLayout ?? null };
+};
+
+/**
+ * Fills in fields missing from images written by older app versions
+ *
+ * @param image - Image record, possibly lacking newer fields
+ * @returns The image with every field present
+ */
+const withImageDefaults = (image: StoredImage): StoredImage => {
+  return {
+    ...image,
+    role: image.role ?? DEFAULT_IMAGE_ROLE,
+    tags: image.tags ?? [],
+    palette: image.palette ?? null,
+    framing: image.framing ?? null
+  };
+};
+
+/**
+ * Reads a record, transforms it and writes it back in one transaction
+ *
+ * @param storeName - The object store holding the record
+ * @param id - The record's key
+ * @param label - Record kind used in error messages (e.g. 'Group')
+ * @param update - Returns the updated record
+ * @returns Promise that resolves to the updated record once it is saved
+ * @throws Error if the record doesn't exist or the update fails
+ */
+const updateRecord = async <T>(
+  storeName: string,
+  id: number,
+  label: string,
+  update: (record: T) => T
+): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readwrite');
+    const store = transaction.objectStore(storeName);
+    const getRequest = store.get(id);
+
+    getRequest.onsuccess = () => {
+      const record = getRequest.result as T | undefined;
+
+      if (!record) {
+        reject(new Error(`${label} with ID ${id} not found`));
+        return;
+      }
+
+      const updated = update(record);
+      const updateRequest = store.put(updated);
+
+      updateRequest.onsuccess = () => {
+        resolve(updated);
+      };
+
+      updateRequest.onerror = () => {
+        reject(new Error(`Failed to update ${label.toLowerCase()}: ${updateRequest.error?.message || 'Unknown error'}`));
+      };
+    };
+
+    getRequest.onerror = () => {
+      reject(new Error(`Failed to get ${label.toLowerCase()}: ${getRequest.error?.message || 'Unknown error'}`));
+    };
+  });
+};
@@ -0,0 +1,246 @@
+/**
+ * Event Calendar
+ *
+ * Helpers for conventions and other events that costume plans are
+ * worn at (see ConventionEvent in ./db.ts): countdowns, splitting the
+ * agenda into upcoming and past events, and iCalendar (RFC 5545)
+ * export so the agenda can be imported into phone calendars. Everything
+ * is computed locally.
+ */
+
+import type { ConventionEvent, ImageGroup } from './db';
+import { planStatusLabel, todayKey } from './plans';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Where an event stands relative to today
+ */
+export type EventTiming = 'upcoming' | 'ongoing' | 'past';
+
+/**
+ * Events of the agenda, split by timing
+ */
+export interface Agenda {
+  /** Ongoing and upcoming events, soonest first */
+  upcoming: ConventionEvent[];
+  /** Finished events, most recent first */
+  past: ConventionEvent[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Milliseconds in one day */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Product identifier written to exported calendars */
+const ICS_PRODUCT_ID = '-//Simple Cosplay Plan Profile//Event Calendar//EN';
+
+/** Maximum length of a content line in octets, excluding the line break */
+const ICS_LINE_LIMIT = 75;
+
+// ============================================
+// DATES & COUNTDOWNS
+// ============================================
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ *
+ * Both dates are read as UTC calendar days, so daylight saving
+ * changes never produce fractional days.
+ *
+ * @param from - Start date as YYYY-MM-DD
+ * @param to - End date as YYYY-MM-DD
+ * @returns Number of days (negative if `to` is before `from`)
+ */
+export const daysBetween = (from: string, to: string): number => {
+  const toUtc = (date: string): number => {
+    const [year, month, day] = date.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+};
+
+/**
+ * Gets whether an event is upcoming, ongoing or over
+ *
+ * @param event - The event
+ * @param today - Today as YYYY-MM-DD (defaults to the local date)
+ * @returns The event's timing
+ */
+export const getEventTiming = (event: ConventionEvent, today: string = todayKey()): EventTiming => {
+  if (event.endDate < today) return 'past';
+  if (event.startDate <= today) return 'ongoing';
+  return 'upcoming';
+};
+
+/**
+ * Describes how far away an event is
+ *
+ * @param event - The event
+ * @param today - Today as YYYY-MM-DD (defaults to the local date)
+ * @returns e.g. `in 12 days`, `Tomorrow`, `Today`, `Ongoing`, `3 days ago`
+ */
+export const eventCountdown = (event: ConventionEvent, today: string = todayKey()): string => {
+  const timing = getEventTiming(event, today);
+
+  if (timing === 'ongoing') {
+    return event.startDate === today ? 'Today' : 'Ongoing';
+  }
+
+  if (timing === 'past') {
+    const daysAgo = daysBetween(event.endDate, today);
+    return daysAgo === 1 ? 'Yesterday' : `${daysAgo} days ago`;
+  }
+
+  const daysLeft = daysBetween(today, event.startDate);
+  return daysLeft === 1 ? 'Tomorrow' : `in ${daysLeft} days`;
+};
+
+/**
+ * Splits events into upcoming (including ongoing) and past events
+ *
+ * @param events - Events in any order (not modified)
+ * @param today - Today as YYYY-MM-DD (defaults to the local date)
+ * @returns The agenda
+ */
+export const buildAgenda = (events: ConventionEvent[], today: string = todayKey()): Agenda => {
+  const upcoming = events
+    .filter((event) => getEventTiming(event, today) !== 'past')
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const past = events
+    .filter((event) => getEventTiming(event, today) === 'past')
+    .sort((a, b) => b.endDate.localeCompare(a.endDate));
+
+  return { upcoming, past };
+};
+
+// ============================================
+// ICALENDAR EXPORT
+// ============================================
+
+/**
+ * Escapes a TEXT property value (RFC 5545 section 3.3.11)
+ *
+ * @param text - The raw text
+ * @returns The escaped text
+ */
+const escapeText = (text: string): string => {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Folds a content line to at most 75 octets per line (RFC 5545 section 3.1)
+ *
+ * Continuation lines start with a single space. Multi-byte characters
+ * are never split.
+ *
+ * @param line - The unfolded content line
+ * @returns The folded line, joined with CRLF
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? ICS_LINE_LIMIT : ICS_LINE_LIMIT - 1;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Formats a YYYY-MM-DD date as an iCalendar DATE value
+ *
+ * @param date - Date as YYYY-MM-DD
+ * @param offsetDays - Days to add (e.g. 1 for an exclusive end date)
+ * @returns e.g. `20250703`
+ */
+const icsDate = (date: string, offsetDays = 0): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + offsetDays))
+    .toISOString()
+    .slice(0, 10)
+    .replace(/-/g, '');
+};
+
+/**
+ * Builds an iCalendar file of all-day events
+ *
+ * Each event lists the costume plans assigned to it (with their
+ * status) in its description. Trashed or deleted groups are left out.
+ * UIDs are derived from the event's ID and creation time, so importing
+ * the file again updates the existing calendar entries instead of
+ * duplicating them.
+ *
+ * @param events - Events to export
+ * @param groups - Current groups, used to name assigned plans
+ * @returns The .ics file as a Blob
+ *
+ * @example
+ * ```typescript
+ * downloadBlob(eventsToIcs(events, groups), 'cosplay-events.ics');
+ * ```
+ */
+export const eventsToIcs = (events: ConventionEvent[], groups: ImageGroup[]): Blob => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+
+  events.forEach((event) => {
+    const plans = event.groupIds
+      .map((groupId) => groups.find((group) => group.id === groupId))
+      .filter((group): group is ImageGroup => group !== undefined)
+      .map((group) => {
+        const character = group.character ? ` - ${group.character}` : '';
+        return `${group.name}${character} (${planStatusLabel(group.status)})`;
+      });
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:event-${event.id}-${Date.parse(event.createdAt)}@simple-cosplay-plan-profile`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(event.startDate)}`,
+      // DTEND of an all-day event is exclusive
+      `DTEND;VALUE=DATE:${icsDate(event.endDate, 1)}`,
+      `SUMMARY:${escapeText(event.name)}`
+    );
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    if (plans.length > 0) {
+      lines.push(`DESCRIPTION:${escapeText(`Costumes:\n${plans.join('\n')}`)}`);
+    }
+    lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+
+  const ics = lines.map(foldLine).join('\r\n') + '\r\n';
+  return new Blob([ics], { type: 'text/calendar;charset=utf-8' });
+};
@@ -0,0 +1,204 @@
+/**
+ * Undo/Redo History
+ *
+ * Describes every gallery mutation as a plain, serializable history entry
+ * and knows how to apply its inverse (undo) or replay it (redo).
+ *
+ * Entries only hold IDs and names, never blobs, which keeps them small
+ * enough to persist in sessionStorage so the history survives reloads
+ * for the rest of the browser session. Deletes go to the trash, so they
+ * are undone by restoring; creations are undone by moving the new item
+ * to the trash.
+ */
+
+import {
+  moveImage,
+  renameGroup,
+  renameImage,
+  restoreGroup,
+  restoreImage,
+  setImageRole,
+  setImageTags,
+  trashGroup,
+  trashImage,
+  updateGroupDetails,
+  type GroupDetails,
+  type ImageRole
+} from './db';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * A single recorded gallery mutation
+ */
+export type HistoryEntry =
+  | { type: 'createGroup'; groupId: number; name: string }
+  | { type: 'renameGroup'; groupId: number; from: string; to: string }
+  | { type: 'updateGroupDetails'; groupId: number; name: string; from: GroupDetails; to: GroupDetails }
+  | { type: 'deleteGroup'; groupId: number; name: string }
+  | { type: 'addImage'; imageId: number; groupId: number; name: string }
+  | { type: 'renameImage'; imageId: number; groupId: number; from: string; to: string }
+  | { type: 'setImageRole'; imageId: number; groupId: number; name: string; from: ImageRole; to: ImageRole }
+  | { type: 'setImageTags'; imageId: number; groupId: number; name: string; from: string[]; to: string[] }
+  | { type: 'moveImage'; imageId: number; groupId: number; name: string; fromIndex: number; toIndex: number }
+  | { type: 'deleteImage'; imageId: number; groupId: number; name: string };
+
+/**
+ * The undo and redo stacks (last element is the most recent)
+ */
+export interface HistoryState {
+  /** Entries that can be undone */
+  undoStack: HistoryEntry[];
+  /** Entries that were undone and can be redone */
+  redoStack: HistoryEntry[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const HISTORY_STORAGE_KEY = 'imageGallery.history';
+
+/** Maximum number of entries kept on each stack */
+export const MAX_HISTORY_ENTRIES = 100;
+
+// ============================================
+// APPLYING ENTRIES
+// ============================================
+
+/**
+ * Reverts a recorded mutation
+ *
+ * @param entry - The entry to undo
+ * @returns Promise that resolves when the inverse has been applied
+ * @throws Error if the affected record no longer exists (e.g. purged from the trash)
+ */
+export const undoEntry = async (entry: HistoryEntry): Promise<void> => {
+  switch (entry.type) {
+    case 'createGroup':
+      return trashGroup(entry.groupId);
+    case 'renameGroup':
+      return renameGroup(entry.groupId, entry.from);
+    case 'updateGroupDetails':
+      return updateGroupDetails(entry.groupId, entry.from);
+    case 'deleteGroup':
+      return restoreGroup(entry.groupId);
+    case 'addImage':
+      return trashImage(entry.imageId);
+    case 'renameImage':
+      return renameImage(entry.imageId, entry.from);
+    case 'setImageRole':
+      return setImageRole(entry.imageId, entry.from);
+    case 'setImageTags':
+      return setImageTags(entry.imageId, entry.from);
+    case 'moveImage':
+      return moveImage(entry.imageId, entry.fromIndex);
+    case 'deleteImage':
+      await restoreImage(entry.imageId);
+      return undefined;
+  }
+};
+
+/**
+ * Re-applies a previously undone mutation
+ *
+ * @param entry - The entry to redo
+ * @returns Promise that resolves when the mutation has been applied again
+ * @throws Error if the affected record no longer exists (e.g. purged from the trash)
+ */
+export const redoEntry = async (entry: HistoryEntry): Promise<void> => {
+  switch (entry.type) {
+    case 'createGroup':
+      return restoreGroup(entry.groupId);
+    case 'renameGroup':
+      return renameGroup(entry.groupId, entry.to);
+    case 'updateGroupDetails':
+      return updateGroupDetails(entry.groupId, entry.to);
+    case 'deleteGroup':
+      return trashGroup(entry.groupId);
+    case 'addImage':
+      await restoreImage(entry.imageId);
+      return undefined;
+    case 'renameImage':
+      return renameImage(entry.imageId, entry.to);
+    case 'setImageRole':
+      return setImageRole(entry.imageId, entry.to);
+    case 'setImageTags':
+      return setImageTags(entry.imageId, entry.to);
+    case 'moveImage':
+      return moveImage(entry.imageId, entry.toIndex);
+    case 'deleteImage':
+      return trashImage(entry.imageId);
+  }
+};
+
+/**
+ * Short description of an entry for button labels and tooltips
+ *
+ * @param entry - The entry to describe
+ * @returns e.g. `rename group "Cosplay A"`
+ */
+export const describeEntry = (entry: HistoryEntry): string => {
+  switch (entry.type) {
+    case 'createGroup':
+      return `create group "${entry.name}"`;
+    case 'renameGroup':
+      return `rename group "${entry.from}"`;
+    case 'updateGroupDetails':
+      return `edit details of "${entry.name}"`;
+    case 'deleteGroup':
+      return `delete group "${entry.name}"`;
+    case 'addImage':
+      return `add image "${entry.name}"`;
+    case 'renameImage':
+      return `rename image "${entry.from}"`;
+    case 'setImageRole':
+      return `change role of "${entry.name}"`;
+    case 'setImageTags':
+      return `edit tags of "${entry.name}"`;
+    case 'moveImage':
+      return `move image "${entry.name}"`;
+    case 'deleteImage':
+      return `delete image "${entry.name}"`;
+  }
+};
+
+// ============================================
+// PERSISTENCE
+// ============================================
+
+/**
+ * Loads the history saved earlier in this browser session
+ *
+ * @returns The saved stacks, or empty stacks if none are saved or they are unreadable
+ */
+export const loadHistory = (): HistoryState => {
+  try {
+    const stored = sessionStorage.getItem(HISTORY_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<HistoryState>;
+      return {
+        undoStack: Array.isArray(parsed.undoStack) ? parsed.undoStack : [],
+        redoStack: Array.isArray(parsed.redoStack) ? parsed.redoStack : []
+      };
+    }
+  } catch (err) {
+    console.warn('Failed to load undo history:', err);
+  }
+  return { undoStack: [], redoStack: [] };
+};
+
+/**
+ * Saves the history for the rest of this browser session
+ *
+ * @param history - The stacks to save
+ */
+export const saveHistory = (history: HistoryState): void => {
+  try {
+    sessionStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch (err) {
+    console.warn('Failed to save undo history:', err);
+  }
+};
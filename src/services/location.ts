@@ -0,0 +1,59 @@
+/**
+ * Location Links
+ *
+ * Keeps the image open in the lightbox in the URL hash, e.g.
+ * `#group=3&image=17`, so a reload (or a shared bookmark on the same
+ * device) reopens it. The hash is replaced rather than pushed, so
+ * browsing images does not fill the browser history.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * An image referenced by the URL
+ */
+export interface ImageLink {
+  /** ID of the image's group */
+  groupId: number;
+  /** ID of the image */
+  imageId: number;
+}
+
+// ============================================
+// IMAGE LINKS
+// ============================================
+
+/**
+ * Parses a positive integer ID from a hash parameter
+ */
+const parseId = (value: string | null): number | null => {
+  const id = Number(value);
+  return value !== null && Number.isInteger(id) && id > 0 ? id : null;
+};
+
+/**
+ * Reads the image referenced by the current URL hash
+ *
+ * @returns The linked image, or null if the hash does not reference one
+ */
+export const readImageLink = (): ImageLink | null => {
+  const params = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  const groupId = parseId(params.get('group'));
+  const imageId = parseId(params.get('image'));
+  return groupId !== null && imageId !== null ? { groupId, imageId } : null;
+};
+
+/**
+ * Replaces the URL hash with a link to an image, or removes it
+ *
+ * @param link - The image to reference, or null to clear the hash
+ */
+export const writeImageLink = (link: ImageLink | null): void => {
+  const hash = link ? `#group=${link.groupId}&image=${link.imageId}` : '';
+  if (window.location.hash === hash) return;
+
+  const url = `${window.location.pathname}${window.location.search}${hash}`;
+  window.history.replaceState(window.history.state, '', url);
+};
@@ -0,0 +1,144 @@
+/**
+ * Materials & Budget
+ *
+ * Helpers for a group's materials / shopping list (see MaterialItem in
+ * ./db.ts): running totals compared against the group's budget, cost
+ * formatting, and CSV export for use in spreadsheets.
+ */
+
+import type { MaterialItem, StoredImage } from './db';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Running totals of a materials list
+ */
+export interface MaterialTotals {
+  /** Cost of every item (quantity × unit cost) */
+  total: number;
+  /** Cost of the items already purchased */
+  purchased: number;
+  /** Cost of the items still to buy */
+  remaining: number;
+  /** Budget minus total cost (negative when over budget), or null without a budget */
+  budgetLeft: number | null;
+}
+
+// ============================================
+// TOTALS
+// ============================================
+
+/**
+ * Cost of one line of the list
+ *
+ * @param item - The material item
+ * @returns quantity × unit cost
+ */
+export const itemCost = (item: Pick<MaterialItem, 'quantity' | 'unitCost'>): number => {
+  return item.quantity * item.unitCost;
+};
+
+/**
+ * Calculates the running totals of a materials list
+ *
+ * @param items - The items of one group
+ * @param budget - The group's budget, or null if not set
+ * @returns The totals
+ *
+ * @example
+ * ```typescript
+ * const { total, budgetLeft } = getMaterialTotals(materials, group.budget);
+ * ```
+ */
+export const getMaterialTotals = (items: MaterialItem[], budget: number | null): MaterialTotals => {
+  const total = items.reduce((sum, item) => sum + itemCost(item), 0);
+  const purchased = items
+    .filter((item) => item.purchased)
+    .reduce((sum, item) => sum + itemCost(item), 0);
+
+  return {
+    total,
+    purchased,
+    remaining: total - purchased,
+    budgetLeft: budget !== null ? budget - total : null
+  };
+};
+
+/**
+ * Formats an amount of money with two decimals in the local format
+ *
+ * No currency symbol is added; the list is in whatever currency the
+ * user enters.
+ *
+ * @param amount - The amount
+ * @returns e.g. `1,234.50`
+ */
+export const formatCost = (amount: number): string => {
+  return amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+};
+
+// ============================================
+// CSV EXPORT
+// ============================================
+
+/**
+ * Quotes a value for CSV if it contains separators, quotes or line breaks
+ *
+ * @param value - The cell value
+ * @returns The escaped cell
+ */
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds a CSV file of a materials list
+ *
+ * Columns: Item, Quantity, Unit cost, Total, Vendor / notes, Purchased,
+ * Reference image. A totals row (and budget rows, if a budget is set)
+ * follow the items.
+ *
+ * @param items - The items of one group
+ * @param images - Images of the group, used to name linked reference images
+ * @param budget - The group's budget, or null if not set
+ * @returns The CSV file as a Blob
+ */
+export const materialsToCsv = (
+  items: MaterialItem[],
+  images: StoredImage[],
+  budget: number | null
+): Blob => {
+  const totals = getMaterialTotals(items, budget);
+  const rows: (string | number)[][] = [
+    ['Item', 'Quantity', 'Unit cost', 'Total', 'Vendor / notes', 'Purchased', 'Reference image']
+  ];
+
+  items.forEach((item) => {
+    const image = images.find((candidate) => candidate.id === item.imageId);
+    rows.push([
+      item.name,
+      item.quantity,
+      item.unitCost.toFixed(2),
+      itemCost(item).toFixed(2),
+      item.vendorNote,
+      item.purchased ? 'Yes' : 'No',
+      image?.name ?? ''
+    ]);
+  });
+
+  rows.push([]);
+  rows.push(['Total', '', '', totals.total.toFixed(2)]);
+  rows.push(['Purchased', '', '', totals.purchased.toFixed(2)]);
+  rows.push(['Remaining', '', '', totals.remaining.toFixed(2)]);
+  if (budget !== null && totals.budgetLeft !== null) {
+    rows.push(['Budget', '', '', budget.toFixed(2)]);
+    rows.push(['Budget left', '', '', totals.budgetLeft.toFixed(2)]);
+  }
+
+  // Byte order mark so spreadsheet apps detect UTF-8
+  const csv = '\uFEFF' + rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+  return new Blob([csv], { type: 'text/csv;charset=utf-8' });
+};
@@ -0,0 +1,164 @@
+/**
+ * Body Measurements
+ *
+ * Helpers for measurement profiles (see MeasurementProfile in ./db.ts):
+ * the standard measurements with their labels, conversion between
+ * centimeters and inches, and comparing dated revisions. Values are
+ * always stored in centimeters; only display and input use the
+ * profile's unit.
+ */
+
+import type {
+  LengthUnit,
+  MeasurementKey,
+  MeasurementProfile,
+  MeasurementRevision,
+  MeasurementValues
+} from './db';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * A measurement that differs between two revisions
+ */
+export interface MeasurementChange {
+  /** The measurement */
+  key: MeasurementKey;
+  /** Previous value in cm, or undefined if it was not taken before */
+  from: number | undefined;
+  /** New value in cm, or undefined if it was removed */
+  to: number | undefined;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Centimeters in one inch */
+const CM_PER_INCH = 2.54;
+
+/** The standard measurements in the order they are taken, with how to take them */
+export const MEASUREMENT_FIELDS: { value: MeasurementKey; label: string; hint: string }[] = [
+  { value: 'height', label: 'Height', hint: 'Barefoot, floor to top of head' },
+  { value: 'head', label: 'Head', hint: 'Around the forehead, for wigs and helmets' },
+  { value: 'neck', label: 'Neck', hint: 'Around the base of the neck' },
+  { value: 'shoulders', label: 'Shoulders', hint: 'Shoulder point to shoulder point, across the back' },
+  { value: 'bust', label: 'Bust / chest', hint: 'Around the fullest part' },
+  { value: 'underbust', label: 'Underbust', hint: 'Around the ribcage, just below the bust' },
+  { value: 'waist', label: 'Waist', hint: 'Around the natural waist' },
+  { value: 'hips', label: 'Hips', hint: 'Around the fullest part' },
+  { value: 'armLength', label: 'Arm length', hint: 'Shoulder point to wrist, arm slightly bent' },
+  { value: 'bicep', label: 'Bicep', hint: 'Around the fullest part of the upper arm' },
+  { value: 'wrist', label: 'Wrist', hint: 'Around the wrist bone' },
+  { value: 'inseam', label: 'Inseam', hint: 'Crotch to ankle' },
+  { value: 'thigh', label: 'Thigh', hint: 'Around the fullest part' },
+  { value: 'calf', label: 'Calf', hint: 'Around the fullest part, for boots' }
+];
+
+/** Length units with their display labels */
+export const LENGTH_UNITS: { value: LengthUnit; label: string }[] = [
+  { value: 'cm', label: 'Centimeters (cm)' },
+  { value: 'in', label: 'Inches (in)' }
+];
+
+// ============================================
+// CONVERSION
+// ============================================
+
+/**
+ * Converts a stored value to a unit
+ *
+ * @param cm - Value in centimeters
+ * @param unit - Target unit
+ * @returns The value in the unit, rounded to one decimal
+ */
+export const fromCentimeters = (cm: number, unit: LengthUnit): number => {
+  const value = unit === 'in' ? cm / CM_PER_INCH : cm;
+  return Math.round(value * 10) / 10;
+};
+
+/**
+ * Converts an entered value to centimeters for storage
+ *
+ * @param value - Value in the given unit
+ * @param unit - Unit the value was entered in
+ * @returns The value in centimeters, rounded to two decimals
+ */
+export const toCentimeters = (value: number, unit: LengthUnit): number => {
+  const cm = unit === 'in' ? value * CM_PER_INCH : value;
+  return Math.round(cm * 100) / 100;
+};
+
+/**
+ * Formats a stored value in a unit
+ *
+ * @param cm - Value in centimeters
+ * @param unit - Unit to show
+ * @returns e.g. `92 cm` or `36.2 in`
+ *
+ * @example
+ * ```typescript
+ * formatMeasurement(92, 'in'); // '36.2 in'
+ * ```
+ */
+export const formatMeasurement = (cm: number, unit: LengthUnit): string => {
+  return `${fromCentimeters(cm, unit).toLocaleString()} ${unit}`;
+};
+
+/**
+ * Gets the display label of a measurement
+ *
+ * @param key - The measurement
+ * @returns e.g. `Arm length`
+ */
+export const measurementLabel = (key: MeasurementKey): string => {
+  return MEASUREMENT_FIELDS.find((field) => field.value === key)?.label ?? key;
+};
+
+// ============================================
+// REVISIONS
+// ============================================
+
+/**
+ * Gets the current measurements of a profile
+ *
+ * @param profile - The profile
+ * @returns The newest revision, or null if nothing was measured yet
+ */
+export const getCurrentRevision = (profile: MeasurementProfile): MeasurementRevision | null => {
+  return profile.revisions[profile.revisions.length - 1] ?? null;
+};
+
+/**
+ * Lists the measurements of a revision in the standard order
+ *
+ * @param values - Measured values in cm
+ * @returns Measurements that were taken, with their values
+ */
+export const listMeasurements = (values: MeasurementValues): { key: MeasurementKey; cm: number }[] => {
+  return MEASUREMENT_FIELDS
+    .filter((field) => values[field.value] !== undefined)
+    .map((field) => ({ key: field.value, cm: values[field.value] as number }));
+};
+
+/**
+ * Compares a revision with the one before it
+ *
+ * @param previous - The older revision, or null for the first revision
+ * @param revision - The newer revision
+ * @returns Measurements that were added, changed or removed, in the standard order
+ */
+export const getRevisionChanges = (
+  previous: MeasurementRevision | null,
+  revision: MeasurementRevision
+): MeasurementChange[] => {
+  return MEASUREMENT_FIELDS
+    .map((field) => ({
+      key: field.value,
+      from: previous?.values[field.value],
+      to: revision.values[field.value]
+    }))
+    .filter((change) => change.from !== change.to);
+};
@@ -0,0 +1,364 @@
+/**
+ * Schema Migrations for ImageGalleryDB
+ *
+ * Every change to the IndexedDB schema is described as a migration step
+ * keyed by the database version it upgrades to. When the database is opened
+ * with a newer version than the one stored in the browser, all steps with a
+ * version greater than the stored one are run in ascending order inside the
+ * single `versionchange` transaction provided by `onupgradeneeded`.
+ *
+ * Because every step shares that one transaction, an upgrade is atomic:
+ * if any step fails the transaction is aborted, the database stays at its
+ * previous version with its previous data, and the open request rejects
+ * with a `DatabaseMigrationError`.
+ *
+ * Adding a migration:
+ * 1. Append a new step to `MIGRATIONS` with the next version number
+ * 2. Create stores/indexes with `db` and rewrite records with `forEachRecord`
+ * 3. Never edit or reorder steps that have already shipped
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * A single versioned schema migration step
+ */
+export interface Migration {
+  /** Database version this step upgrades to (must be strictly increasing) */
+  version: number;
+  /** Short human-readable description, used in error messages */
+  description: string;
+  /**
+   * Applies the step
+   *
+   * May create object stores and indexes through `db`, and read or rewrite
+   * existing records through `transaction`. Return a promise when the step
+   * performs asynchronous record work so the next step waits for it.
+   */
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void | Promise<void>;
+}
+
+/**
+ * Error raised when a schema migration step fails
+ *
+ * The upgrade transaction is aborted when this happens, so the database
+ * is left untouched at `fromVersion`.
+ */
+export class DatabaseMigrationError extends Error {
+  /** Version the database was at before the upgrade started */
+  readonly fromVersion: number;
+  /** Version of the step that failed */
+  readonly failedVersion: number;
+
+  constructor(fromVersion: number, failedVersion: number, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Database upgrade to version ${failedVersion} failed: ${reason}`);
+    this.name = 'DatabaseMigrationError';
+    this.fromVersion = fromVersion;
+    this.failedVersion = failedVersion;
+  }
+}
+
+// ============================================
+// MIGRATION HELPERS
+// ============================================
+
+/**
+ * Iterates over every record of an object store with a cursor
+ *
+ * The callback may return a replacement record, which is written back
+ * in place with `cursor.update`. Returning `undefined` leaves the record
+ * unchanged.
+ *
+ * @param store - The object store to iterate (from the upgrade transaction)
+ * @param callback - Called for each record; returns the updated record or undefined
+ * @returns Promise that resolves once every record has been visited
+ * @throws Error if the cursor or an update request fails
+ *
+ * @example
+ * ```typescript
+ * await forEachRecord(transaction.objectStore('images'), (image) => ({
+ *   ...image,
+ *   caption: ''
+ * }));
+ * ```
+ */
+export const forEachRecord = <T>(
+  store: IDBObjectStore,
+  callback: (record: T) => T | undefined
+): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const request = store.openCursor();
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+
+      const updated = callback(cursor.value as T);
+      if (updated !== undefined) {
+        const updateRequest = cursor.update(updated);
+        updateRequest.onerror = () => {
+          reject(new Error(`Failed to update record in '${store.name}': ${updateRequest.error?.message || 'Unknown error'}`));
+        };
+      }
+      cursor.continue();
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to iterate '${store.name}': ${request.error?.message || 'Unknown error'}`));
+    };
+  });
+};
+
+// ============================================
+// MIGRATION STEPS
+// ============================================
+
+/**
+ * Ordered list of all schema migrations
+ *
+ * The last entry's version is the current database version.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create groups and images stores',
+    migrate: (db) => {
+      // Guards keep this safe for databases created before migrations existed
+      if (!db.objectStoreNames.contains('groups')) {
+        const groupStore = db.createObjectStore('groups', {
+          keyPath: 'id',
+          autoIncrement: true
+        });
+        groupStore.createIndex('name', 'name', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains('images')) {
+        const imageStore = db.createObjectStore('images', {
+          keyPath: 'id',
+          autoIncrement: true
+        });
+        // Index to query images by group
+        imageStore.createIndex('groupId', 'groupId', { unique: false });
+      }
+    }
+  },
+  {
+    version: 2,
+    description: 'Add manual ordering position to images',
+    migrate: async (_db, transaction) => {
+      // Cursor visits images in id (insertion) order, which preserves
+      // the order users saw before manual ordering existed
+      const nextPositionByGroup = new Map<number, number>();
+
+      await forEachRecord<{ groupId: number; position?: number }>(
+        transaction.objectStore('images'),
+        (image) => {
+          const position = nextPositionByGroup.get(image.groupId) ?? 0;
+          nextPositionByGroup.set(image.groupId, position + 1);
+          return { ...image, position };
+        }
+      );
+    }
+  },
+  {
+    version: 3,
+    description: 'Create thumbnails store',
+    migrate: (db) => {
+      // One record per image; existing images are backfilled lazily on first display
+      db.createObjectStore('thumbnails', { keyPath: 'imageId' });
+    }
+  },
+  {
+    version: 4,
+    description: 'Add trash (soft delete) to groups and images',
+    migrate: async (_db, transaction) => {
+      // null keys are not indexed, so these indexes only hold trashed records
+      const groupStore = transaction.objectStore('groups');
+      const imageStore = transaction.objectStore('images');
+      groupStore.createIndex('deletedAt', 'deletedAt', { unique: false });
+      imageStore.createIndex('deletedAt', 'deletedAt', { unique: false });
+
+      await forEachRecord<{ deletedAt?: string | null }>(groupStore, (group) => ({
+        ...group,
+        deletedAt: null
+      }));
+      await forEachRecord<{ deletedAt?: string | null }>(imageStore, (image) => ({
+        ...image,
+        deletedAt: null
+      }));
+    }
+  },
+  {
+    version: 5,
+    description: 'Add cosplay plan details to groups',
+    migrate: async (_db, transaction) => {
+      await forEachRecord<Record<string, unknown>>(transaction.objectStore('groups'), (group) => ({
+        character: '',
+        series: '',
+        variant: '',
+        status: 'idea',
+        eventDate: null,
+        notes: '',
+        ...group
+      }));
+    }
+  },
+  {
+    version: 6,
+    description: 'Add role classification to images',
+    migrate: async (_db, transaction) => {
+      // Images added so far were mostly character references
+      await forEachRecord<Record<string, unknown>>(transaction.objectStore('images'), (image) => ({
+        role: 'reference',
+        ...image
+      }));
+    }
+  },
+  {
+    version: 7,
+    description: 'Create materials store and add budget to groups',
+    migrate: async (db, transaction) => {
+      const materialStore = db.createObjectStore('materials', { keyPath: 'id', autoIncrement: true });
+      materialStore.createIndex('groupId', 'groupId', { unique: false });
+
+      await forEachRecord<Record<string, unknown>>(transaction.objectStore('groups'), (group) => ({
+        budget: null,
+        ...group
+      }));
+    }
+  },
+  {
+    version: 8,
+    description: 'Create build tasks store',
+    migrate: (db) => {
+      const taskStore = db.createObjectStore('tasks', { keyPath: 'id', autoIncrement: true });
+      taskStore.createIndex('groupId', 'groupId', { unique: false });
+    }
+  },
+  {
+    version: 9,
+    description: 'Create events store',
+    migrate: (db) => {
+      const eventStore = db.createObjectStore('events', { keyPath: 'id', autoIncrement: true });
+      eventStore.createIndex('startDate', 'startDate', { unique: false });
+      // One index entry per assigned group, for unlinking deleted groups
+      eventStore.createIndex('groupIds', 'groupIds', { unique: false, multiEntry: true });
+    }
+  },
+  {
+    version: 10,
+    description: 'Add tags to groups and images',
+    migrate: async (_db, transaction) => {
+      const groupStore = transaction.objectStore('groups');
+      const imageStore = transaction.objectStore('images');
+      // One index entry per tag, so a tag finds every record carrying it
+      groupStore.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+      imageStore.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+
+      await forEachRecord<Record<string, unknown>>(groupStore, (group) => ({ tags: [], ...group }));
+      await forEachRecord<Record<string, unknown>>(imageStore, (image) => ({ tags: [], ...image }));
+    }
+  },
+  {
+    version: 11,
+    description: 'Add color palettes to images',
+    migrate: async (_db, transaction) => {
+      // Palettes of existing images are extracted later, on request
+      await forEachRecord<Record<string, unknown>>(
+        transaction.objectStore('images'),
+        (image) => ({ palette: null, ...image })
+      );
+    }
+  },
+  {
+    version: 12,
+    description: 'Add measurement profiles linked to groups',
+    migrate: async (db, transaction) => {
+      db.createObjectStore('measurements', { keyPath: 'id', autoIncrement: true });
+
+      await forEachRecord<Record<string, unknown>>(
+        transaction.objectStore('groups'),
+        (group) => ({ measurementProfileId: null, ...group })
+      );
+    }
+  },
+  {
+    version: 13,
+    description: 'Create image annotations store',
+    migrate: (db) => {
+      const annotationStore = db.createObjectStore('annotations', { keyPath: 'imageId' });
+      annotationStore.createIndex('groupId', 'groupId', { unique: false });
+    }
+  },
+  {
+    version: 14,
+    description: 'Add preview framing to images',
+    migrate: async (_db, transaction) => {
+      await forEachRecord<Record<string, unknown>>(
+        transaction.objectStore('images'),
+        (image) => ({ framing: null, ...image })
+      );
+    }
+  },
+  {
+    version: 15,
+    description: 'Add preview layout templates to groups',
+    migrate: async (_db, transaction) => {
+      await forEachRecord<Record<string, unknown>>(
+        transaction.objectStore('groups'),
+        (group) => ({ previewLayout: null, ...group })
+      );
+    }
+  }
+];
+
+/**
+ * The schema version the app expects, derived from the last migration
+ */
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// ============================================
+// MIGRATION RUNNER
+// ============================================
+
+/**
+ * Runs all migrations newer than `oldVersion`, in order
+ *
+ * Must be called from `onupgradeneeded` with the open request's
+ * `versionchange` transaction. On failure the transaction is aborted
+ * so no partial upgrade is ever committed.
+ *
+ * @param db - The database being upgraded
+ * @param transaction - The versionchange transaction
+ * @param oldVersion - The version stored in the browser (0 for a new database)
+ * @returns Promise that resolves when all pending steps have run
+ * @throws DatabaseMigrationError if any step fails
+ */
+export const runMigrations = async (
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number
+): Promise<void> => {
+  const pending = MIGRATIONS.filter((migration) => migration.version > oldVersion);
+
+  for (const migration of pending) {
+    try {
+      await migration.migrate(db, transaction);
+    } catch (err) {
+      const error = new DatabaseMigrationError(oldVersion, migration.version, err);
+      console.error(`Migration "${migration.description}" failed:`, err);
+      try {
+        transaction.abort();
+      } catch {
+        // Transaction already finished or aborted by the failing request
+      }
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,260 @@
+/**
+ * Color Palette Extraction
+ *
+ * Finds the dominant colors of reference images so a costume's fabric,
+ * wig and prop colors can be matched by hex code. Images are drawn into
+ * a tiny canvas and their pixels grouped into coarse color buckets; the
+ * most common buckets become the palette. This module only does the
+ * image processing; palettes are stored on each image (see `palette` on
+ * StoredImage in ./db.ts).
+ */
+
+import type { StoredImage } from './db';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * One dominant color of an image or group
+ */
+export interface PaletteColor {
+  /** The color as a lower-case `#rrggbb` hex code */
+  hex: string;
+  /** Share of the sampled pixels close to this color, between 0 and 1 */
+  weight: number;
+}
+
+/**
+ * An RGB color with channels from 0 to 255
+ */
+type Rgb = [number, number, number];
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Longest edge of the canvas images are sampled from, in pixels */
+const SAMPLE_SIZE = 64;
+
+/** Number of colors kept for each image */
+export const IMAGE_PALETTE_SIZE = 6;
+
+/** Number of colors shown for a whole group */
+export const GROUP_PALETTE_SIZE = 12;
+
+/** Bits kept per channel when bucketing pixels (4 bits = 4096 buckets) */
+const BUCKET_BITS = 4;
+
+/** Pixels more transparent than this alpha are ignored */
+const MIN_ALPHA = 128;
+
+/**
+ * Colors closer than this (Euclidean RGB distance) are merged
+ *
+ * Keeps near-identical shades of one fabric from filling the palette.
+ */
+const MERGE_DISTANCE = 40;
+
+// ============================================
+// EXTRACTION
+// ============================================
+
+/**
+ * Extracts the dominant colors of an image
+ *
+ * The image is downscaled to at most 64px so extraction stays fast
+ * even for large photos; pass a thumbnail when one is available to
+ * also skip decoding the original.
+ *
+ * @param blob - The image data
+ * @returns Promise that resolves to the palette, most dominant color first
+ * @throws Error if the image cannot be decoded
+ *
+ * @example
+ * ```typescript
+ * const palette = await extractPalette(file);
+ * console.log(palette.map((color) => color.hex).join(', '));
+ * ```
+ */
+export const extractPalette = async (blob: Blob): Promise<PaletteColor[]> => {
+  const bitmap = await createImageBitmap(blob);
+  let pixels: Uint8ClampedArray;
+
+  try {
+    const scale = Math.min(1, SAMPLE_SIZE / Math.max(bitmap.width, bitmap.height));
+    pixels = readPixels(
+      bitmap,
+      Math.max(1, Math.round(bitmap.width * scale)),
+      Math.max(1, Math.round(bitmap.height * scale))
+    );
+  } finally {
+    bitmap.close();
+  }
+
+  return quantize(pixels, IMAGE_PALETTE_SIZE);
+};
+
+/**
+ * Combines the palettes of several images into one
+ *
+ * Every image counts equally regardless of its size; similar colors
+ * from different images are merged and their weights added up.
+ * Images without a palette are skipped.
+ *
+ * @param images - Images of a group
+ * @param size - Maximum number of colors (defaults to GROUP_PALETTE_SIZE)
+ * @returns The combined palette, most dominant color first
+ */
+export const aggregatePalettes = (
+  images: StoredImage[],
+  size: number = GROUP_PALETTE_SIZE
+): PaletteColor[] => {
+  const palettes = images
+    .map((image) => image.palette)
+    .filter((palette): palette is PaletteColor[] => palette !== null && palette.length > 0);
+  if (palettes.length === 0) return [];
+
+  const colors = palettes
+    .flat()
+    .map((color) => ({ rgb: hexToRgb(color.hex), weight: color.weight / palettes.length }));
+
+  return mergeColors(colors)
+    .slice(0, size)
+    .map(({ rgb, weight }) => ({ hex: rgbToHex(rgb), weight }));
+};
+
+/**
+ * Picks readable text color for a label drawn on a swatch
+ *
+ * @param hex - The swatch color as `#rrggbb`
+ * @returns `#000000` for light colors, `#ffffff` for dark ones
+ */
+export const contrastingTextColor = (hex: string): string => {
+  const [r, g, b] = hexToRgb(hex);
+  // Perceived brightness (ITU-R BT.601 luma)
+  return r * 0.299 + g * 0.587 + b * 0.114 > 150 ? '#000000' : '#ffffff';
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Draws a bitmap into a canvas of the given size and reads its pixels
+ *
+ * Uses OffscreenCanvas where available, falling back to a detached
+ * DOM canvas.
+ */
+const readPixels = (bitmap: ImageBitmap, width: number, height: number): Uint8ClampedArray => {
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+  const context = canvas.getContext('2d') as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D
+    | null;
+  if (!context) throw new Error('Canvas 2D context is not available');
+
+  context.drawImage(bitmap, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height).data;
+};
+
+/**
+ * Reduces RGBA pixel data to its most common colors
+ *
+ * Pixels are counted in coarse buckets; each bucket's color is the
+ * average of its pixels, so the result keeps the exact shade rather
+ * than the bucket's corner.
+ *
+ * @param pixels - RGBA pixel data
+ * @param size - Maximum number of colors
+ * @returns The palette, most dominant color first
+ */
+const quantize = (pixels: Uint8ClampedArray, size: number): PaletteColor[] => {
+  const shift = 8 - BUCKET_BITS;
+  const buckets = new Map<number, { r: number; g: number; b: number; count: number }>();
+  let total = 0;
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] < MIN_ALPHA) continue;
+
+    const r = pixels[i];
+    const g = pixels[i + 1];
+    const b = pixels[i + 2];
+    const key = ((r >> shift) << (BUCKET_BITS * 2)) | ((g >> shift) << BUCKET_BITS) | (b >> shift);
+    const bucket = buckets.get(key) ?? { r: 0, g: 0, b: 0, count: 0 };
+
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    bucket.count += 1;
+    buckets.set(key, bucket);
+    total += 1;
+  }
+
+  if (total === 0) return [];
+
+  const colors = Array.from(buckets.values()).map((bucket) => ({
+    rgb: [bucket.r / bucket.count, bucket.g / bucket.count, bucket.b / bucket.count] as Rgb,
+    weight: bucket.count / total
+  }));
+
+  return mergeColors(colors)
+    .slice(0, size)
+    .map(({ rgb, weight }) => ({ hex: rgbToHex(rgb), weight: Math.round(weight * 1000) / 1000 }));
+};
+
+/**
+ * Merges similar colors, heaviest first
+ *
+ * Each color either joins the first already kept color within
+ * MERGE_DISTANCE (moving it towards a weighted average) or is kept
+ * as a new color.
+ *
+ * @param colors - Colors with weights, in any order (not modified)
+ * @returns Merged colors, heaviest first
+ */
+const mergeColors = (colors: { rgb: Rgb; weight: number }[]): { rgb: Rgb; weight: number }[] => {
+  const merged: { rgb: Rgb; weight: number }[] = [];
+
+  [...colors]
+    .sort((a, b) => b.weight - a.weight)
+    .forEach((color) => {
+      const match = merged.find((kept) => distance(kept.rgb, color.rgb) < MERGE_DISTANCE);
+      if (!match) {
+        merged.push({ rgb: [...color.rgb], weight: color.weight });
+        return;
+      }
+
+      const weight = match.weight + color.weight;
+      match.rgb = match.rgb.map(
+        (channel, index) => (channel * match.weight + color.rgb[index] * color.weight) / weight
+      ) as Rgb;
+      match.weight = weight;
+    });
+
+  return merged.sort((a, b) => b.weight - a.weight);
+};
+
+/**
+ * Euclidean distance between two colors in RGB space
+ */
+const distance = (a: Rgb, b: Rgb): number => {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+};
+
+/**
+ * Formats a color as a lower-case `#rrggbb` hex code
+ */
+const rgbToHex = (rgb: Rgb): string => {
+  return `#${rgb.map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+};
+
+/**
+ * Parses a `#rrggbb` hex code
+ */
+const hexToRgb = (hex: string): Rgb => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
@@ -0,0 +1,226 @@
+/**
+ * Cosplay Plans
+ *
+ * Each group is a cosplay plan with structured details (character,
+ * series, variant, status, event date and notes; see GroupDetails in
+ * ./db.ts), each of its images has a role (reference, progress, final
+ * or inspiration), and it has a checklist of build tasks. This module
+ * holds the display labels for those values, task progress, and the
+ * filtering and sorting used by the group list.
+ */
+
+import type { BuildTask, GroupDetails, ImageGroup, ImageRole, PlanStatus } from './db';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Field the group list can be sorted by
+ */
+export type GroupSortKey = 'createdAt' | 'name' | 'character' | 'series' | 'status' | 'eventDate';
+
+/**
+ * Completion of a group's build task checklist
+ */
+export interface TaskProgress {
+  /** Number of completed tasks */
+  completed: number;
+  /** Number of tasks */
+  total: number;
+  /** Completed share as a whole percentage (0 when there are no tasks) */
+  percent: number;
+}
+
+/**
+ * Criteria for narrowing down the group list
+ */
+export interface GroupFilter {
+  /** Text matched (case-insensitively) against name, character, series, variant and tags */
+  query: string;
+  /** Only groups with this status, or 'all' */
+  status: PlanStatus | 'all';
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Plan statuses in workflow order, with their display labels */
+export const PLAN_STATUSES: { value: PlanStatus; label: string }[] = [
+  { value: 'idea', label: 'Idea' },
+  { value: 'planning', label: 'Planning' },
+  { value: 'in-progress', label: 'In progress' },
+  { value: 'complete', label: 'Complete' },
+  { value: 'retired', label: 'Retired' }
+];
+
+/** Image roles in display order, with their display labels */
+export const IMAGE_ROLES: { value: ImageRole; label: string }[] = [
+  { value: 'reference', label: 'Reference' },
+  { value: 'progress', label: 'Progress' },
+  { value: 'final', label: 'Final' },
+  { value: 'inspiration', label: 'Inspiration' }
+];
+
+/** Sort options offered in the group list, with their display labels */
+export const GROUP_SORT_OPTIONS: { value: GroupSortKey; label: string }[] = [
+  { value: 'createdAt', label: 'Date created' },
+  { value: 'name', label: 'Name' },
+  { value: 'character', label: 'Character' },
+  { value: 'series', label: 'Series' },
+  { value: 'status', label: 'Status' },
+  { value: 'eventDate', label: 'Event date' }
+];
+
+// ============================================
+// DISPLAY
+// ============================================
+
+/**
+ * Extracts the plan details from a group record
+ *
+ * @param group - The group
+ * @returns Only the GroupDetails fields
+ */
+export const pickGroupDetails = (group: ImageGroup): GroupDetails => {
+  const { character, series, variant, status, eventDate, notes, budget, tags, measurementProfileId } = group;
+  return { character, series, variant, status, eventDate, notes, budget, tags, measurementProfileId };
+};
+
+/**
+ * Gets the display label of a plan status
+ *
+ * @param status - The status
+ * @returns e.g. `In progress`
+ */
+export const planStatusLabel = (status: PlanStatus): string => {
+  return PLAN_STATUSES.find((option) => option.value === status)?.label ?? status;
+};
+
+/**
+ * Gets the display label of an image role
+ *
+ * @param role - The role
+ * @returns e.g. `Reference`
+ */
+export const imageRoleLabel = (role: ImageRole): string => {
+  return IMAGE_ROLES.find((option) => option.value === role)?.label ?? role;
+};
+
+/**
+ * Formats a YYYY-MM-DD date (event or due date) for display in the local format
+ *
+ * The date is parsed as a local calendar day so it never shifts by
+ * one day across time zones.
+ *
+ * @param date - Date as YYYY-MM-DD
+ * @returns The localized date, e.g. `8/16/2025`
+ */
+export const formatCalendarDate = (date: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString();
+};
+
+/**
+ * Today's date as YYYY-MM-DD in local time, comparable with stored dates
+ *
+ * @returns e.g. `2025-07-03`
+ */
+export const todayKey = (): string => {
+  const today = new Date();
+  return [
+    today.getFullYear(),
+    String(today.getMonth() + 1).padStart(2, '0'),
+    String(today.getDate()).padStart(2, '0')
+  ].join('-');
+};
+
+// ============================================
+// TASK PROGRESS
+// ============================================
+
+/**
+ * Calculates how much of a group's checklist is done
+ *
+ * @param tasks - Tasks of any groups
+ * @param groupId - The group to calculate progress for
+ * @returns The group's task progress
+ */
+export const getTaskProgress = (tasks: BuildTask[], groupId: number): TaskProgress => {
+  const groupTasks = tasks.filter((task) => task.groupId === groupId);
+  const completed = groupTasks.filter((task) => task.completed).length;
+  const total = groupTasks.length;
+
+  return { completed, total, percent: total > 0 ? Math.round((completed / total) * 100) : 0 };
+};
+
+/**
+ * Checks whether a due date has passed (today is not overdue)
+ *
+ * @param dueDate - Date as YYYY-MM-DD
+ * @returns True if the date is before today
+ */
+export const isOverdue = (dueDate: string): boolean => {
+  return dueDate < todayKey();
+};
+
+// ============================================
+// FILTERING & SORTING
+// ============================================
+
+/**
+ * Returns the groups matching a filter, in their original order
+ *
+ * @param groups - Groups to filter (not modified)
+ * @param filter - The criteria to match
+ * @returns The matching groups
+ */
+export const filterGroups = (groups: ImageGroup[], filter: GroupFilter): ImageGroup[] => {
+  const query = filter.query.trim().toLowerCase();
+
+  return groups.filter((group) => {
+    if (filter.status !== 'all' && group.status !== filter.status) return false;
+    if (!query) return true;
+    return [group.name, group.character, group.series, group.variant, ...group.tags]
+      .some((value) => value.toLowerCase().includes(query));
+  });
+};
+
+/**
+ * Sorts groups by the given field
+ *
+ * Text fields sort alphabetically with empty values last, statuses in
+ * workflow order, event dates soonest first with undated plans last,
+ * and creation date newest first. Ties fall back to creation order.
+ *
+ * @param groups - Groups to sort (not modified)
+ * @param sortKey - Field to sort by
+ * @returns A new array in sorted order
+ */
+export const sortGroups = (groups: ImageGroup[], sortKey: GroupSortKey): ImageGroup[] => {
+  const statusOrder = (status: PlanStatus): number =>
+    PLAN_STATUSES.findIndex((option) => option.value === status);
+
+  const compareText = (a: string, b: string): number => {
+    if (!a || !b) return (a ? 0 : 1) - (b ? 0 : 1);
+    return a.localeCompare(b, undefined, { sensitivity: 'base' });
+  };
+
+  const compare = (a: ImageGroup, b: ImageGroup): number => {
+    switch (sortKey) {
+      case 'createdAt':
+        return b.createdAt.localeCompare(a.createdAt);
+      case 'name':
+      case 'character':
+      case 'series':
+        return compareText(a[sortKey], b[sortKey]);
+      case 'status':
+        return statusOrder(a.status) - statusOrder(b.status);
+      case 'eventDate':
+        return compareText(a.eventDate ?? '', b.eventDate ?? '');
+    }
+  };
+
+  return [...groups].sort((a, b) => compare(a, b) || a.id - b.id);
+};
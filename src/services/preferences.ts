@@ -0,0 +1,128 @@
+/**
+ * User Preferences
+ *
+ * Small device-local settings kept in localStorage. Unlike gallery data
+ * these are not part of IndexedDB or backups.
+ */
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const TRASH_RETENTION_KEY = 'imageGallery.trashRetentionDays';
+const SHOW_ANNOTATIONS_KEY = 'imageGallery.showAnnotations';
+const SLIDESHOW_SETTINGS_KEY = 'imageGallery.slideshow';
+
+/** Retention period choices offered in the UI, in days */
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+/** Default number of days trashed items are kept before being purged */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/** Slideshow interval choices offered in the UI, in seconds */
+export const SLIDESHOW_INTERVAL_OPTIONS = [3, 5, 8, 12, 20];
+
+/**
+ * How the slideshow plays
+ */
+export interface SlideshowSettings {
+  /** Seconds each image is shown */
+  interval: number;
+  /** Whether the group's name is shown */
+  showGroupName: boolean;
+  /** Whether each image's caption (its name) is shown */
+  showCaptions: boolean;
+}
+
+/** Settings used until the slideshow is configured */
+export const DEFAULT_SLIDESHOW_SETTINGS: SlideshowSettings = {
+  interval: 5,
+  showGroupName: true,
+  showCaptions: true
+};
+
+// ============================================
+// TRASH RETENTION
+// ============================================
+
+/**
+ * Gets how many days trashed items are kept before automatic purge
+ *
+ * @returns The retention period in days
+ */
+export const getTrashRetentionDays = (): number => {
+  const stored = Number(localStorage.getItem(TRASH_RETENTION_KEY));
+  return Number.isFinite(stored) && stored > 0 ? stored : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+/**
+ * Sets how many days trashed items are kept before automatic purge
+ *
+ * @param days - The retention period in days (must be positive)
+ */
+export const setTrashRetentionDays = (days: number): void => {
+  localStorage.setItem(TRASH_RETENTION_KEY, String(days));
+};
+
+// ============================================
+// ANNOTATIONS
+// ============================================
+
+/**
+ * Gets whether image annotations are drawn over images in the gallery and preview
+ *
+ * @returns True unless the overlay was turned off
+ */
+export const getShowAnnotations = (): boolean => {
+  return localStorage.getItem(SHOW_ANNOTATIONS_KEY) !== 'false';
+};
+
+/**
+ * Sets whether image annotations are drawn over images in the gallery and preview
+ *
+ * @param show - Whether to show the overlay
+ */
+export const setShowAnnotations = (show: boolean): void => {
+  localStorage.setItem(SHOW_ANNOTATIONS_KEY, String(show));
+};
+
+// ============================================
+// SLIDESHOW
+// ============================================
+
+/**
+ * Gets how the slideshow plays
+ *
+ * Missing or invalid stored values fall back to the defaults.
+ *
+ * @returns The slideshow settings
+ */
+export const getSlideshowSettings = (): SlideshowSettings => {
+  let stored: Partial<SlideshowSettings> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(SLIDESHOW_SETTINGS_KEY) ?? '{}') ?? {};
+  } catch {
+    // Corrupt value, use the defaults
+  }
+
+  return {
+    interval: typeof stored.interval === 'number' && stored.interval > 0
+      ? stored.interval
+      : DEFAULT_SLIDESHOW_SETTINGS.interval,
+    showGroupName: typeof stored.showGroupName === 'boolean'
+      ? stored.showGroupName
+      : DEFAULT_SLIDESHOW_SETTINGS.showGroupName,
+    showCaptions: typeof stored.showCaptions === 'boolean'
+      ? stored.showCaptions
+      : DEFAULT_SLIDESHOW_SETTINGS.showCaptions
+  };
+};
+
+/**
+ * Sets how the slideshow plays
+ *
+ * @param settings - The slideshow settings
+ */
+export const setSlideshowSettings = (settings: SlideshowSettings): void => {
+  localStorage.setItem(SLIDESHOW_SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,181 @@
+/**
+ * Tags & Search
+ *
+ * Groups and images carry free-form tags (see `tags` on GroupDetails
+ * and StoredImage in ./db.ts), stored lower-cased so they can be looked
+ * up through multi-entry indexes. This module normalizes tags and
+ * decides whether a record matches a search query; the query itself
+ * runs in `searchGallery` in ./db.ts.
+ *
+ * Query syntax: words are matched (case-insensitively, all of them)
+ * against names, tags and notes; words starting with `#` only match
+ * records carrying exactly that tag.
+ */
+
+import type { ImageGroup, StoredImage } from './db';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * A search query split into its parts
+ */
+export interface ParsedQuery {
+  /** Lower-cased words matched anywhere in the searchable text */
+  terms: string[];
+  /** Normalized tags that must all be present (from `#tag` words) */
+  tags: string[];
+}
+
+/**
+ * An image found by a search, with the group it belongs to
+ */
+export interface ImageSearchHit {
+  /** The matching image */
+  image: StoredImage;
+  /** The image's group */
+  group: ImageGroup;
+}
+
+/**
+ * Results of a search across the whole gallery
+ */
+export interface SearchResults {
+  /** Matching groups, by name */
+  groups: ImageGroup[];
+  /** Matching images, by group and position */
+  images: ImageSearchHit[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Maximum number of groups and of images returned by one search */
+export const MAX_SEARCH_RESULTS = 50;
+
+/** Maximum length of a single tag */
+const MAX_TAG_LENGTH = 40;
+
+// ============================================
+// TAGS
+// ============================================
+
+/**
+ * Normalizes a tag for storage and comparison
+ *
+ * Tags are lower-cased, trimmed, stripped of a leading `#` and have
+ * inner whitespace collapsed to single dashes.
+ *
+ * @param tag - The tag as typed by the user
+ * @returns The normalized tag (empty if nothing usable remains)
+ *
+ * @example
+ * ```typescript
+ * normalizeTag('  #Side Braid '); // 'side-braid'
+ * ```
+ */
+export const normalizeTag = (tag: string): string => {
+  return tag
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .slice(0, MAX_TAG_LENGTH);
+};
+
+/**
+ * Normalizes a list of tags, dropping empty and duplicate tags
+ *
+ * @param tags - Tags in any form
+ * @returns Unique normalized tags in their original order
+ */
+export const normalizeTags = (tags: string[]): string[] => {
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+};
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Splits a search query into free-text terms and `#tag` filters
+ *
+ * @param query - The query as typed
+ * @returns The parsed query
+ *
+ * @example
+ * ```typescript
+ * parseSearchQuery('wig #reference'); // { terms: ['wig'], tags: ['reference'] }
+ * ```
+ */
+export const parseSearchQuery = (query: string): ParsedQuery => {
+  const parsed: ParsedQuery = { terms: [], tags: [] };
+
+  query.split(/\s+/).filter(Boolean).forEach((word) => {
+    if (word.startsWith('#')) {
+      const tag = normalizeTag(word);
+      if (tag) parsed.tags.push(tag);
+    } else {
+      parsed.terms.push(word.toLowerCase());
+    }
+  });
+
+  return parsed;
+};
+
+/**
+ * Checks whether a query has nothing to search for
+ *
+ * @param query - The parsed query
+ * @returns True if the query has no terms and no tags
+ */
+export const isEmptyQuery = (query: ParsedQuery): boolean => {
+  return query.terms.length === 0 && query.tags.length === 0;
+};
+
+/**
+ * Checks a record's searchable text and tags against a query
+ *
+ * @param texts - Searchable text fields of the record
+ * @param tags - The record's tags
+ * @param query - The parsed query
+ * @returns True if every term and every tag matches
+ */
+const matchesRecord = (texts: string[], tags: string[], query: ParsedQuery): boolean => {
+  if (!query.tags.every((tag) => tags.includes(tag))) return false;
+
+  const haystack = [...texts, ...tags].join('\n').toLowerCase();
+  return query.terms.every((term) => haystack.includes(term));
+};
+
+/**
+ * Checks whether a group matches a query
+ *
+ * Matches the group's name, character, series, variant, notes and tags.
+ *
+ * @param group - The group
+ * @param query - The parsed query
+ * @returns True if the group matches
+ */
+export const matchesGroup = (group: ImageGroup, query: ParsedQuery): boolean => {
+  return matchesRecord(
+    [group.name, group.character, group.series, group.variant, group.notes],
+    group.tags,
+    query
+  );
+};
+
+/**
+ * Checks whether an image matches a query
+ *
+ * Matches the image's name and tags.
+ *
+ * @param image - The image
+ * @param query - The parsed query
+ * @returns True if the image matches
+ */
+export const matchesImage = (image: StoredImage, query: ParsedQuery): boolean => {
+  return matchesRecord([image.name], image.tags, query);
+};
@@ -0,0 +1,155 @@
+/**
+ * Storage Quota Service
+ *
+ * Wraps the StorageManager API (`navigator.storage`) used to check how
+ * much space the gallery occupies, how much the browser will allow, and
+ * whether the data is protected from eviction under storage pressure.
+ *
+ * All functions degrade gracefully in browsers without StorageManager
+ * support by reporting null ("unknown").
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Snapshot of the origin's storage usage
+ */
+export interface StorageEstimate {
+  /** Bytes currently used by this origin */
+  usage: number;
+  /** Bytes this origin may use in total */
+  quota: number;
+}
+
+/**
+ * Whether an upload of a given size fits in the remaining quota
+ *
+ * - 'ok': plenty of space left
+ * - 'near': fits, but usage will exceed NEAR_QUOTA_RATIO of the quota
+ * - 'exceeds': will not fit
+ * - 'unknown': the browser does not report quota
+ */
+export type QuotaCheck = 'ok' | 'near' | 'exceeds' | 'unknown';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Fraction of the quota above which usage is considered close to full */
+export const NEAR_QUOTA_RATIO = 0.9;
+
+/**
+ * Extra space stored per image on top of the original blob
+ * (thumbnails and record overhead), as a fraction of the blob size
+ */
+const IMAGE_OVERHEAD_RATIO = 0.35;
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Gets the current storage usage and quota
+ *
+ * @returns Promise that resolves to the estimate, or null if unsupported
+ *
+ * @example
+ * ```typescript
+ * const estimate = await getStorageEstimate();
+ * if (estimate) console.log(`${formatBytes(estimate.usage)} used`);
+ * ```
+ */
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    if (usage === undefined || quota === undefined) return null;
+    return { usage, quota };
+  } catch (err) {
+    console.warn('Failed to estimate storage:', err);
+    return null;
+  }
+};
+
+/**
+ * Checks whether the browser has granted persistent storage
+ *
+ * @returns Promise that resolves to the persistence state, or null if unsupported
+ */
+export const isStoragePersisted = async (): Promise<boolean | null> => {
+  if (!navigator.storage?.persisted) return null;
+
+  try {
+    return await navigator.storage.persisted();
+  } catch (err) {
+    console.warn('Failed to check storage persistence:', err);
+    return null;
+  }
+};
+
+/**
+ * Asks the browser to protect this origin's data from eviction
+ *
+ * Browsers may grant this silently (e.g. for installed PWAs or
+ * bookmarked sites), prompt the user, or deny it.
+ *
+ * @returns Promise that resolves to true if storage is now persistent
+ * @throws Error if the browser does not support persistent storage
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) {
+    throw new Error('This browser does not support persistent storage');
+  }
+  return navigator.storage.persist();
+};
+
+/**
+ * Checks whether adding an image of the given size fits in the quota
+ *
+ * Accounts for the thumbnails generated alongside each image.
+ *
+ * @param blobSize - Size of the image blob in bytes
+ * @returns Promise that resolves to the quota check result
+ *
+ * @example
+ * ```typescript
+ * if (await checkUploadQuota(file.size) === 'exceeds') {
+ *   // warn the user
+ * }
+ * ```
+ */
+export const checkUploadQuota = async (blobSize: number): Promise<QuotaCheck> => {
+  const estimate = await getStorageEstimate();
+  if (!estimate || estimate.quota <= 0) return 'unknown';
+
+  const projected = estimate.usage + blobSize * (1 + IMAGE_OVERHEAD_RATIO);
+  if (projected > estimate.quota) return 'exceeds';
+  if (projected > estimate.quota * NEAR_QUOTA_RATIO) return 'near';
+  return 'ok';
+};
+
+// ============================================
+// FORMATTING
+// ============================================
+
+/**
+ * Formats a byte count for display, e.g. `1.4 MB`
+ *
+ * @param bytes - Number of bytes
+ * @returns Human-readable size
+ */
+export const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unitIndex = 0;
+
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+
+  return `${value.toFixed(unitIndex === 0 || value >= 100 ? 0 : 1)} ${units[unitIndex]}`;
+};
@@ -0,0 +1,116 @@
+/**
+ * Cross-Tab Synchronization
+ *
+ * Every successful mutation in `./db.ts` broadcasts a small change
+ * notification over a BroadcastChannel. Other open instances of the app
+ * (browser tabs, the installed PWA window) listen for these and reload
+ * only the affected data. Notifications carry no record data; receivers
+ * always re-read from IndexedDB, which is the single source of truth.
+ *
+ * BroadcastChannel does not deliver messages back to the sending
+ * instance, so a tab never reloads because of its own changes.
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Kind of data affected by a change
+ *
+ * - 'groups': the list of (non-trashed) groups
+ * - 'images': the images of one group (or of any group if no groupId is given)
+ * - 'trash': the trash contents
+ * - 'materials': the materials list of one group (or of any group if no groupId is given)
+ * - 'tasks': the build task checklist of one group (or of any group if no groupId is given)
+ * - 'events': the convention / event calendar
+ * - 'measurements': the body measurement profiles
+ * - 'annotations': the image annotations of one group (or of any group if no groupId is given)
+ */
+export type ChangeScope =
+  | 'groups'
+  | 'images'
+  | 'trash'
+  | 'materials'
+  | 'tasks'
+  | 'events'
+  | 'measurements'
+  | 'annotations';
+
+/**
+ * A change notification sent to other instances
+ */
+export interface DataChange {
+  /** Kinds of data that changed */
+  scopes: ChangeScope[];
+  /** Group whose images, materials, tasks or annotations changed; omitted when any group may be affected */
+  groupId?: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const CHANNEL_NAME = 'image-gallery-changes';
+
+/** Lazily created channel, or null where BroadcastChannel is unsupported */
+let channel: BroadcastChannel | null | undefined;
+
+/**
+ * Returns the shared channel, creating it on first use
+ */
+const getChannel = (): BroadcastChannel | null => {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  }
+  return channel;
+};
+
+// ============================================
+// PUBLISH / SUBSCRIBE
+// ============================================
+
+/**
+ * Notifies other instances that data changed
+ *
+ * @param change - What changed
+ *
+ * @example
+ * ```typescript
+ * broadcastChange({ scopes: ['images'], groupId: 3 });
+ * ```
+ */
+export const broadcastChange = (change: DataChange): void => {
+  try {
+    getChannel()?.postMessage(change);
+  } catch (err) {
+    console.warn('Failed to broadcast change:', err);
+  }
+};
+
+/**
+ * Subscribes to changes made by other instances
+ *
+ * @param listener - Called with each change made elsewhere
+ * @returns Function that removes the listener
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = onRemoteChange((change) => {
+ *   if (change.scopes.includes('groups')) loadGroups();
+ * });
+ * ```
+ */
+export const onRemoteChange = (listener: (change: DataChange) => void): (() => void) => {
+  const target = getChannel();
+  if (!target) return () => undefined;
+
+  const handleMessage = (event: MessageEvent<DataChange>): void => {
+    if (event.data && Array.isArray(event.data.scopes)) {
+      listener(event.data);
+    }
+  };
+
+  target.addEventListener('message', handleMessage);
+  return () => target.removeEventListener('message', handleMessage);
+};
@@ -0,0 +1,145 @@
+/**
+ * Thumbnail Generation
+ *
+ * Downscales image blobs into a few fixed sizes so the grid and preview
+ * never have to decode full-size originals. This module only does the
+ * image processing; storage lives in the `thumbnails` object store
+ * managed by `./db.ts`.
+ *
+ * Thumbnail sizes are the length of the longest edge in pixels.
+ * A size is skipped when the original is not larger than it, since
+ * the original is then already small enough to use directly.
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * A single downscaled rendition of an image
+ */
+export interface Thumbnail {
+  /** Length of the longest edge in pixels (one of THUMBNAIL_SIZES) */
+  size: number;
+  /** The encoded thumbnail */
+  blob: Blob;
+}
+
+/**
+ * Result of processing an original image
+ */
+export interface GeneratedThumbnails {
+  /** Width of the original image in pixels */
+  width: number;
+  /** Height of the original image in pixels */
+  height: number;
+  /** Renditions smaller than the original, ascending by size */
+  thumbnails: Thumbnail[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Longest-edge sizes generated for every image, ascending */
+export const THUMBNAIL_SIZES = [256, 512, 1024, 2048];
+
+/** Encoder quality for lossy thumbnail formats */
+const THUMBNAIL_QUALITY = 0.85;
+
+// ============================================
+// GENERATION
+// ============================================
+
+/**
+ * Generates all thumbnail sizes for an image
+ *
+ * The original is decoded once and then drawn into a canvas for each
+ * size. JPEG sources produce JPEG thumbnails; everything else uses WebP
+ * so transparency is preserved.
+ *
+ * @param blob - The original image data
+ * @returns Promise that resolves to the original dimensions and thumbnails
+ * @throws Error if the image cannot be decoded
+ *
+ * @example
+ * ```typescript
+ * const { width, height, thumbnails } = await generateThumbnails(file);
+ * console.log(`${width}x${height}, ${thumbnails.length} thumbnails`);
+ * ```
+ */
+export const generateThumbnails = async (blob: Blob): Promise<GeneratedThumbnails> => {
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = bitmap;
+  const longestEdge = Math.max(width, height);
+  const type = blob.type === 'image/jpeg' ? 'image/jpeg' : 'image/webp';
+  const thumbnails: Thumbnail[] = [];
+
+  try {
+    for (const size of THUMBNAIL_SIZES) {
+      if (size >= longestEdge) break;
+
+      const scale = size / longestEdge;
+      const thumbnailBlob = await drawScaled(
+        bitmap,
+        Math.max(1, Math.round(width * scale)),
+        Math.max(1, Math.round(height * scale)),
+        type
+      );
+      thumbnails.push({ size, blob: thumbnailBlob });
+    }
+  } finally {
+    bitmap.close();
+  }
+
+  return { width, height, thumbnails };
+};
+
+/**
+ * Picks the smallest thumbnail size that covers a display size
+ *
+ * @param displaySize - Longest edge the image is displayed at, in CSS pixels
+ * @returns The chosen size, or null if only the original is large enough
+ */
+export const pickThumbnailSize = (displaySize: number): number | null => {
+  const required = displaySize * (window.devicePixelRatio || 1);
+  return THUMBNAIL_SIZES.find((size) => size >= required) ?? null;
+};
+
+/**
+ * Draws a bitmap into a canvas of the given size and encodes it
+ *
+ * Uses OffscreenCanvas where available, falling back to a detached
+ * DOM canvas.
+ */
+const drawScaled = async (
+  bitmap: ImageBitmap,
+  width: number,
+  height: number,
+  type: string
+): Promise<Blob> => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D context is not available');
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+    return canvas.convertToBlob({ type, quality: THUMBNAIL_QUALITY });
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is not available');
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (result) => (result ? resolve(result) : reject(new Error('Failed to encode thumbnail'))),
+      type,
+      THUMBNAIL_QUALITY
+    );
+  });
+};